@@ -3,6 +3,7 @@ import { Routes, Route } from 'react-router-dom';
 import Lobby from './pages/Lobby';
 import TVRoom from './pages/TVRoom';
 import TapeStudio from './pages/TapeStudio';
+import VoteRemote from './pages/VoteRemote';
 
 const App: React.FC = () => {
   useEffect(() => {
@@ -16,6 +17,8 @@ const App: React.FC = () => {
       <Route path="/" element={<Lobby />} />
       <Route path="/tv" element={<TVRoom />} />
       <Route path="/studio" element={<TapeStudio />} />
+      <Route path="/vote" element={<VoteRemote />} />
+      <Route path="/vote/:code" element={<VoteRemote />} />
     </Routes>
   );
 };
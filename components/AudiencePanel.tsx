@@ -0,0 +1,77 @@
+import React, { useState, useEffect } from 'react';
+import { VoteRoomState } from '../types';
+import { getJoinUrl } from '../services/votingService';
+
+interface Props {
+  code: string;
+  room: VoteRoomState | null;
+  onPick: (choiceId: string) => void; // Host settles a tie left to them
+  onEnd: () => void;
+}
+
+// Host-side view of an audience room: join code, live tallies and the countdown, over the picture
+const AudiencePanel: React.FC<Props> = ({ code, room, onPick, onEnd }) => {
+  const [now, setNow] = useState(Date.now());
+  const round = room?.round;
+
+  useEffect(() => {
+    if (!round?.open) return;
+    const timer = setInterval(() => setNow(Date.now()), 250);
+    return () => clearInterval(timer);
+  }, [round?.id, round?.open]);
+
+  const secondsLeft = round?.open ? Math.max(0, Math.ceil((round.endsAt - now) / 1000)) : 0;
+  const awaitingHost = !!round && !round.open && !round.result?.winnerId && round.result?.reason === 'tie: host decides';
+
+  return (
+    <div className="absolute top-10 right-4 w-64 bg-black/85 border border-green-700 p-3 font-mono text-xs text-green-500 z-40 shadow-[0_0_30px_rgba(0,255,0,0.15)]">
+      <div className="flex justify-between items-center border-b border-green-900 pb-1 mb-2">
+        <strong>AUDIENCE ({room?.viewers || 0})</strong>
+        <button onClick={onEnd} className="text-red-500 hover:text-red-400">[END]</button>
+      </div>
+
+      <div className="text-center mb-2">
+        <p className="text-gray-500">JOIN CODE</p>
+        <p className="text-4xl tracking-[0.3em] text-green-300">{code}</p>
+        <p className="text-gray-600 break-all mt-1">{getJoinUrl(code)}</p>
+      </div>
+
+      {!round && <p className="text-gray-600 text-center">Voting opens when the next beat is on screen.</p>}
+
+      {round && (
+        <>
+          <div className="flex justify-between text-gray-500 mb-1">
+            <span>{round.totalVotes} VOTES</span>
+            <span className={round.open && secondsLeft <= 5 ? 'text-red-500 animate-pulse' : ''}>
+              {round.open ? `${secondsLeft}s` : round.result?.reason.toUpperCase() || 'CLOSED'}
+            </span>
+          </div>
+          <div className="space-y-1">
+            {round.choices.map((choice, index) => {
+              const count = round.tallies[choice.id] || 0;
+              const share = round.totalVotes > 0 ? (count / round.totalVotes) * 100 : 0;
+              const isWinner = round.result?.winnerId === choice.id;
+              const isTied = awaitingHost && round.result!.tied.includes(choice.id);
+              return (
+                <div key={choice.id} className={`relative border px-2 py-1 ${isWinner ? 'border-yellow-500 text-yellow-400' : isTied ? 'border-yellow-800' : 'border-green-900'}`}>
+                  <div className="absolute inset-y-0 left-0 bg-green-900/40 transition-all duration-300" style={{ width: `${share}%` }} />
+                  <div className="relative flex justify-between gap-2">
+                    <span className="truncate">{index + 1}. {choice.text}</span>
+                    {isTied ? (
+                      <button onClick={() => onPick(choice.id)} className="text-yellow-500 hover:text-yellow-300 shrink-0">[PICK]</button>
+                    ) : (
+                      <span className="shrink-0">{count}</span>
+                    )}
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+          {awaitingHost && <p className="text-yellow-600 mt-2">TIE. PICK ONE OF THE TIED CHOICES.</p>}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default AudiencePanel;
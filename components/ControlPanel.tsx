@@ -1,4 +1,4 @@
-import React from 'react';
+import React, { useState } from 'react';
 import { Choice } from '../types';
 
 interface Props {
@@ -6,11 +6,22 @@ interface Props {
   onChoose: (choiceId: string) => void;
   onEject: () => void;
   onHome: () => void;
+  onExport?: () => void;
+  onWriteIn?: (action: string) => Promise<boolean>; // Resolves true once the action is accepted; omit to hide the input
+  writeInHint?: string;
+  writeInError?: string | null;
   disabled: boolean;
   isLoading: boolean;
 }
 
-const ControlPanel: React.FC<Props> = ({ choices, onChoose, onEject, onHome, disabled, isLoading }) => {
+const ControlPanel: React.FC<Props> = ({ choices, onChoose, onEject, onHome, onExport, onWriteIn, writeInHint, writeInError, disabled, isLoading }) => {
+  const [draft, setDraft] = useState('');
+
+  const submitWriteIn = async () => {
+    if (!onWriteIn || disabled || !draft.trim()) return;
+    if (await onWriteIn(draft)) setDraft('');
+  };
+
   return (
     <div className="w-full bg-[#0f0f0f] flex flex-col">
       <div className="grid grid-cols-1 sm:grid-cols-2 gap-4 p-6 pb-2 w-full">
@@ -55,6 +66,31 @@ const ControlPanel: React.FC<Props> = ({ choices, onChoose, onEject, onHome, dis
         )}
       </div>
 
+      {/* Write-in */}
+      {onWriteIn && choices.length > 0 && (
+        <div className="px-6 pb-2">
+          <div className={`flex border-2 ${disabled ? 'border-gray-800' : 'border-yellow-900/50 focus-within:border-yellow-600'} bg-black/40`}>
+            <span className="px-3 flex items-center text-yellow-700 font-mono text-lg">&gt;</span>
+            <input
+              value={draft}
+              onChange={e => setDraft(e.target.value)}
+              onKeyDown={e => { if (e.key === 'Enter') submitWriteIn(); }}
+              disabled={disabled}
+              placeholder={writeInHint || 'OR TYPE YOUR OWN ACTION...'}
+              className="flex-1 bg-transparent py-3 font-mono text-lg uppercase tracking-wider text-yellow-500 placeholder-gray-700 focus:outline-none disabled:cursor-not-allowed"
+            />
+            <button
+              onClick={submitWriteIn}
+              disabled={disabled || !draft.trim()}
+              className="px-4 text-yellow-700 hover:text-yellow-400 font-mono text-sm uppercase tracking-widest disabled:opacity-30"
+            >
+              [ DO IT ]
+            </button>
+          </div>
+          {writeInError && <p className="text-red-500 font-mono text-xs mt-1 uppercase">{writeInError}</p>}
+        </div>
+      )}
+
       {/* Utility Bar */}
       <div className="px-6 py-4 flex justify-between border-t border-gray-900">
          <button
@@ -65,13 +101,24 @@ const ControlPanel: React.FC<Props> = ({ choices, onChoose, onEject, onHome, dis
             &lt; RETURN TO LOBBY
          </button>
 
-         <button
-            onClick={onEject}
-            disabled={disabled}
-            className="text-gray-600 text-xs hover:text-red-500 uppercase tracking-[0.2em] flex items-center gap-2 disabled:opacity-50"
-         >
-            [⏏] Eject Tape
-         </button>
+         <div className="flex gap-6">
+            {onExport && (
+               <button
+                  onClick={onExport}
+                  disabled={disabled}
+                  className="text-gray-600 text-xs hover:text-green-500 uppercase tracking-[0.2em] flex items-center gap-2 disabled:opacity-50"
+               >
+                  [▣] Export Episode
+               </button>
+            )}
+            <button
+               onClick={onEject}
+               disabled={disabled}
+               className="text-gray-600 text-xs hover:text-red-500 uppercase tracking-[0.2em] flex items-center gap-2 disabled:opacity-50"
+            >
+               [⏏] Eject Tape
+            </button>
+         </div>
       </div>
     </div>
   );
@@ -0,0 +1,72 @@
+import React, { useState } from 'react';
+import { Timeline } from '../types';
+import { getPath } from '../utils/timelineUtils';
+import { buildMemoryContext, estimateTokens, getChaptersOnPath, getMemory } from '../utils/memory';
+
+interface Props {
+  timeline: Timeline;
+  budget: number;
+  isSummarizing: boolean;
+  onPinnedFactsChange: (facts: string[]) => void;
+  onClose: () => void;
+}
+
+const MemoryPanel: React.FC<Props> = ({ timeline, budget, isSummarizing, onPinnedFactsChange, onClose }) => {
+  const [draft, setDraft] = useState('');
+  const memory = getMemory(timeline);
+  const chapters = getChaptersOnPath(timeline, getPath(timeline));
+  const context = buildMemoryContext(timeline, timeline.headId, budget);
+  const used = [...context.pinnedFacts, ...context.chapters, ...context.recent].reduce((sum, t) => sum + estimateTokens(t), 0);
+
+  const pinFact = () => {
+    if (!draft.trim()) return;
+    onPinnedFactsChange([...memory.pinnedFacts, draft.trim()]);
+    setDraft('');
+  };
+
+  return (
+    <div className="absolute top-10 left-4 right-4 bg-black/90 border border-green-500 p-4 font-mono text-xs text-green-500 z-50 max-h-[80vh] overflow-auto shadow-[0_0_50px_rgba(0,255,0,0.2)]">
+      <div className="flex justify-between border-b border-green-900 pb-2 mb-2">
+        <strong>MEMORY ({chapters.length} CHAPTERS ON THIS BRANCH)</strong>
+        <button onClick={onClose} className="text-red-500 hover:text-red-400">[CLOSE]</button>
+      </div>
+      <p className="text-gray-600 mb-3">
+        Prompt budget: ~{used}/{budget} tokens. {context.chapters.length} chapters and {context.recent.length} recent beats sent
+        {context.omittedBeats > 0 && <span className="text-yellow-600"> ({context.omittedBeats} oldest beats dropped)</span>}
+        {isSummarizing && <span className="text-yellow-500 animate-pulse"> // SUMMARISING...</span>}
+      </p>
+
+      <h4 className="text-gray-500 mb-1 uppercase">Pinned Facts</h4>
+      <div className="space-y-1 mb-2">
+        {memory.pinnedFacts.length === 0 && <p className="text-gray-600">Nothing pinned. Facts here are sent with every beat.</p>}
+        {memory.pinnedFacts.map((fact, i) => (
+          <div key={i} className="flex gap-2 items-start">
+            <span className="text-green-300 flex-1 break-words">- {fact}</span>
+            <button onClick={() => onPinnedFactsChange(memory.pinnedFacts.filter((_, j) => j !== i))} className="text-red-900 hover:text-red-500 px-2">X</button>
+          </div>
+        ))}
+      </div>
+      <div className="flex gap-2 mb-4">
+        <input
+          value={draft}
+          onChange={e => setDraft(e.target.value)}
+          onKeyDown={e => { if (e.key === 'Enter') pinFact(); }}
+          className="flex-1 bg-black border border-green-900 text-green-500 px-2 py-1 focus:border-green-400 focus:outline-none"
+          placeholder="e.g. Marla is allergic to cats"
+        />
+        <button onClick={pinFact} className="bg-green-900 text-black px-2 font-bold hover:bg-green-600">+ PIN</button>
+      </div>
+
+      <h4 className="text-gray-500 mb-1 uppercase">Chapters</h4>
+      {chapters.length === 0 && <p className="text-gray-600">No chapters yet. Older beats are summarised as the branch grows.</p>}
+      {chapters.map(({ chapter }, i) => (
+        <div key={chapter.id} className={`border-l-2 pl-2 mb-2 ${context.chapters.includes(chapter.summary) ? 'border-green-700' : 'border-gray-800 text-gray-600'}`}>
+          <span className="text-gray-500">CH.{i + 1} ({chapter.beatCount} beats)</span>
+          <p className="break-words">{chapter.summary}</p>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default MemoryPanel;
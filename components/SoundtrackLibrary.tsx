@@ -0,0 +1,69 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { SoundBed, SoundBedKind } from '../types';
+import { BEAT_MOODS } from '../constants';
+import { listBeds, saveBed, deleteBed } from '../services/soundtrackService';
+
+const fieldClass = "bg-black border border-green-900 text-green-500 px-2 py-1 focus:border-green-500 focus:outline-none font-mono text-xs";
+
+// Uploaded music/ambience beds; built-ins are listed for reference and can't be removed
+const SoundtrackLibrary: React.FC = () => {
+  const [beds, setBeds] = useState<SoundBed[]>([]);
+  const [kind, setKind] = useState<SoundBedKind>('music');
+  const [mood, setMood] = useState(BEAT_MOODS[0]);
+  const [error, setError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const refresh = () => listBeds().then(setBeds).catch(e => console.warn("[Soundtrack] Could not read beds", e));
+
+  useEffect(() => { refresh(); }, []);
+
+  const handleUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      setError(null);
+      await saveBed(file, kind, [mood]);
+      refresh();
+    } catch (err: any) {
+      setError(err.message);
+    }
+  };
+
+  const handleDelete = async (bed: SoundBed) => {
+    if (!confirm(`Delete "${bed.name}"?`)) return;
+    await deleteBed(bed.id);
+    refresh();
+  };
+
+  const uploads = beds.filter(b => !b.builtIn);
+
+  return (
+    <div className="flex flex-col gap-2">
+      {uploads.length === 0 ? (
+        <p className="text-xs text-gray-600">No uploads. Built-in synth beds cover every mood.</p>
+      ) : uploads.map(bed => (
+        <div key={bed.id} className="flex gap-2 items-center text-xs">
+          <span className="w-16 text-green-800 uppercase">{bed.kind}</span>
+          <span className="flex-1 text-green-500 truncate">{bed.name}</span>
+          <span className="text-gray-600 uppercase">{bed.moods.join(', ') || 'any'}</span>
+          <button onClick={() => handleDelete(bed)} className="text-red-900 hover:text-red-500">[X]</button>
+        </div>
+      ))}
+      <div className="flex gap-2 items-center">
+        <select value={kind} onChange={e => setKind(e.target.value as SoundBedKind)} className={`${fieldClass} uppercase`}>
+          <option value="music">Music</option>
+          <option value="ambience">Ambience</option>
+        </select>
+        <select value={mood} onChange={e => setMood(e.target.value)} className={`${fieldClass} uppercase`}>
+          {BEAT_MOODS.map(m => <option key={m} value={m}>{m}</option>)}
+        </select>
+        <button onClick={() => fileInputRef.current?.click()} className="text-green-700 hover:text-green-400 text-xs uppercase">[+ UPLOAD LOOP]</button>
+        <input ref={fileInputRef} type="file" accept="audio/*" onChange={handleUpload} className="hidden" />
+      </div>
+      {error && <p className="text-xs text-red-500">{error}</p>}
+    </div>
+  );
+};
+
+export default SoundtrackLibrary;
@@ -1,4 +1,16 @@
-import React, { useRef, useEffect, forwardRef, useImperativeHandle } from 'react';
+import React, { useRef, useEffect, useState, forwardRef, useImperativeHandle } from 'react';
+
+// Slideshow motion, cycled per still (keyframes live in index.html)
+const KEN_BURNS = ['kenburns-in', 'kenburns-left', 'kenburns-out', 'kenburns-right'];
+const SLIDE_FADE_MS = 1500;
+const KEN_BURNS_S = 20;
+// Footage this close to the screen's 16:9 fills it; anything else (9:16, 1:1) is letterboxed whole
+const FILL_TOLERANCE = 0.05;
+
+const fitFor = (width: number, height: number): string => {
+  if (!width || !height) return 'object-cover';
+  return Math.abs(width / height - 16 / 9) / (16 / 9) <= FILL_TOLERANCE ? 'object-cover' : 'object-contain';
+};
 
 interface TapeDeckProps {
   videoSrc: string | null;
@@ -6,34 +18,54 @@ interface TapeDeckProps {
   onEnded: () => void;
   isProcessing: boolean;
   loop?: boolean; // New prop for static noise
+  ducked?: boolean; // Lower the clip's own audio under the narrator
+  slideshow?: boolean; // Animate stills with pan/zoom and crossfade between them
 }
 
 export interface TapeDeckHandle {
   captureFrame: () => string | null;
 }
 
-const TapeDeck = forwardRef<TapeDeckHandle, TapeDeckProps>(({ videoSrc, staticImageSrc, onEnded, isProcessing, loop = false }, ref) => {
+const TapeDeck = forwardRef<TapeDeckHandle, TapeDeckProps>(({ videoSrc, staticImageSrc, onEnded, isProcessing, loop = false, ducked = false, slideshow = false }, ref) => {
   const videoRef = useRef<HTMLVideoElement>(null);
   const imgRef = useRef<HTMLImageElement>(null);
+  const [outgoingSrc, setOutgoingSrc] = useState<string | null>(null);
+  const [slideIndex, setSlideIndex] = useState(0);
+  const previousStillRef = useRef<string | null>(staticImageSrc);
+  const [fit, setFit] = useState('object-cover');
+
+  // Slideshow: fade from the previous still and start the next move
+  useEffect(() => {
+    const previous = previousStillRef.current;
+    previousStillRef.current = staticImageSrc;
+    if (!slideshow || !previous || previous === staticImageSrc) return;
+    setOutgoingSrc(previous);
+    setSlideIndex(i => i + 1);
+    const timer = setTimeout(() => setOutgoingSrc(null), SLIDE_FADE_MS);
+    return () => clearTimeout(timer);
+  }, [staticImageSrc, slideshow]);
 
   // Expose the capture function to the parent
   useImperativeHandle(ref, () => ({
     captureFrame: () => {
       const canvas = document.createElement('canvas');
       
-      // Determine source dimensions
-      let width = 1280;
-      let height = 720;
+      // Capture at the source's own size and shape (vertical clips stay vertical)
+      let width = 0;
+      let height = 0;
       
       // Prioritize video dimensions if available
       if (videoRef.current && videoSrc) {
-        if (videoRef.current.videoWidth) width = videoRef.current.videoWidth;
-        if (videoRef.current.videoHeight) height = videoRef.current.videoHeight;
+        width = videoRef.current.videoWidth;
+        height = videoRef.current.videoHeight;
       } else if (imgRef.current && staticImageSrc) {
-        if (imgRef.current.naturalWidth) width = imgRef.current.naturalWidth;
-        if (imgRef.current.naturalHeight) height = imgRef.current.naturalHeight;
+        width = imgRef.current.naturalWidth;
+        height = imgRef.current.naturalHeight;
       }
 
+      // Not decoded yet; a blank frame would poison continuity, so let the caller fall back
+      if (!width || !height) return null;
+
       canvas.width = width;
       canvas.height = height;
       
@@ -83,14 +115,19 @@ const TapeDeck = forwardRef<TapeDeckHandle, TapeDeckProps>(({ videoSrc, staticIm
     attemptPlay();
   }, [videoSrc, loop]);
 
+  useEffect(() => {
+    if (videoRef.current) videoRef.current.volume = ducked ? 0.2 : 1;
+  }, [ducked, videoSrc]);
+
   return (
     <div className="relative w-full aspect-video bg-black flex items-center justify-center overflow-hidden border-b-2 border-gray-800 group">
       {videoSrc ? (
         <video
           ref={videoRef}
           src={videoSrc}
-          className={`w-full h-full object-cover ${isProcessing && !loop ? 'opacity-50 grayscale' : 'opacity-100 filter-none'} transition-all duration-1000`}
+          className={`w-full h-full ${fit} ${isProcessing && !loop ? 'opacity-50 grayscale' : 'opacity-100 filter-none'} transition-all duration-1000`}
           crossOrigin="anonymous"
+          onLoadedMetadata={e => setFit(fitFor(e.currentTarget.videoWidth, e.currentTarget.videoHeight))}
           playsInline
           onEnded={onEnded}
           loop={loop}
@@ -100,12 +137,26 @@ const TapeDeck = forwardRef<TapeDeckHandle, TapeDeckProps>(({ videoSrc, staticIm
           {/* Using src on parent video tag prevents race conditions with <source> tags */}
           Your browser does not support the video tag.
         </video>
+      ) : staticImageSrc && slideshow ? (
+        <>
+          {outgoingSrc && <img src={outgoingSrc} className={`absolute inset-0 w-full h-full ${fit}`} alt="" />}
+          <img
+            key={staticImageSrc}
+            ref={imgRef}
+            src={staticImageSrc}
+            className={`absolute inset-0 w-full h-full ${fit}`}
+            onLoad={e => setFit(fitFor(e.currentTarget.naturalWidth, e.currentTarget.naturalHeight))}
+            style={{ animation: `slide-fade ${SLIDE_FADE_MS}ms ease-out both, ${KEN_BURNS[slideIndex % KEN_BURNS.length]} ${KEN_BURNS_S}s ease-in-out infinite alternate both` }}
+            alt="Tape Frame"
+          />
+        </>
       ) : staticImageSrc ? (
          // Display loaded tape frame
          <img 
             ref={imgRef}
             src={staticImageSrc} 
-            className={`w-full h-full object-cover ${isProcessing ? 'opacity-50 grayscale' : 'opacity-100'} transition-all duration-1000`}
+            onLoad={e => setFit(fitFor(e.currentTarget.naturalWidth, e.currentTarget.naturalHeight))}
+            className={`w-full h-full ${fit} ${isProcessing ? 'opacity-50 grayscale' : 'opacity-100'} transition-all duration-1000`}
             alt="Tape Frame"
          />
       ) : (
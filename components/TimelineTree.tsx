@@ -0,0 +1,58 @@
+import React from 'react';
+import { Timeline, TimelineNode } from '../types';
+import { getChildren, getPath } from '../utils/timelineUtils';
+
+interface Props {
+  timeline: Timeline;
+  onSelect: (nodeId: string) => void;
+  onClose: () => void;
+  disabled: boolean;
+}
+
+const TimelineTree: React.FC<Props> = ({ timeline, onSelect, onClose, disabled }) => {
+  const activePath = new Set(getPath(timeline).map(n => n.id));
+
+  const renderNode = (node: TimelineNode, depth: number): React.ReactNode => {
+    const isHead = node.id === timeline.headId;
+    const onPath = activePath.has(node.id);
+    const children = getChildren(timeline, node.id);
+
+    return (
+      <div key={node.id}>
+        <button
+          onClick={() => onSelect(node.id)}
+          disabled={disabled || isHead}
+          style={{ paddingLeft: `${depth * 16 + 8}px` }}
+          className={`
+            w-full text-left py-1 pr-2 border-l-2 truncate block transition-colors
+            ${isHead ? 'border-green-400 bg-green-900/40 text-green-300' : onPath ? 'border-green-800 text-green-500' : 'border-gray-800 text-gray-500'}
+            ${disabled || isHead ? 'cursor-default' : 'hover:bg-green-900/20 hover:text-green-400 cursor-pointer'}
+          `}
+          title={node.beat.narrative}
+        >
+          {node.choice && (node.choiceKind === 'write-in'
+            ? <span className="text-yellow-500" title="Typed by the viewer">[&gt; {node.choice}] </span>
+            : <span className="text-yellow-700">[{node.choice}] </span>)}
+          {node.beat.narrative}
+          {isHead && <span className="text-green-300"> ◀ NOW</span>}
+        </button>
+        {children.map(child => renderNode(child, depth + 1))}
+      </div>
+    );
+  };
+
+  const root = timeline.rootId ? timeline.nodes[timeline.rootId] : undefined;
+
+  return (
+    <div className="absolute top-10 left-4 right-4 bg-black/90 border border-green-500 p-4 font-mono text-xs text-green-500 z-50 max-h-[80vh] overflow-auto shadow-[0_0_50px_rgba(0,255,0,0.2)]">
+      <div className="flex justify-between border-b border-green-900 pb-2 mb-2">
+        <strong>TIMELINE ({Object.keys(timeline.nodes).length} BEATS)</strong>
+        <button onClick={onClose} className="text-red-500 hover:text-red-400">[CLOSE]</button>
+      </div>
+      <p className="text-gray-600 mb-2">Select any beat to rewind. Your next choice branches from there.</p>
+      {root ? renderNode(root, 0) : <p className="text-gray-600">NO BEATS RECORDED</p>}
+    </div>
+  );
+};
+
+export default TimelineTree;
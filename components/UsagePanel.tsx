@@ -0,0 +1,62 @@
+import React from 'react';
+import { UsageRecord } from '../types';
+import { summarizeUsage, isCurrentSession, formatCost } from '../services/usageService';
+
+interface Props {
+  records: UsageRecord[]; // Everything charged to the tape on screen
+  spendCap: number;
+  onSpendCapChange: (cap: number) => void;
+  onClear: () => void;
+}
+
+const RECENT_CALLS = 8;
+
+// Running totals for the debug console: this session, this tape, and the last few calls
+const UsagePanel: React.FC<Props> = ({ records, spendCap, onSpendCapChange, onClear }) => {
+  const session = summarizeUsage(records.filter(isCurrentSession));
+  const tape = summarizeUsage(records);
+  const capped = spendCap > 0 && tape.cost >= spendCap;
+
+  return (
+    <div>
+      <h4 className="text-gray-500 mb-1">USAGE (ESTIMATED)</h4>
+      <div className="bg-[#0a0a0a] p-2 border border-gray-800 space-y-1">
+        <p>Session: <span className="text-green-300">{formatCost(session.cost)}</span> / {session.calls} calls / {session.retries} retries{session.failed > 0 && <span className="text-red-500"> / {session.failed} failed</span>}</p>
+        <p>Tokens: {session.promptTokens.toLocaleString()} in / {session.completionTokens.toLocaleString()} out</p>
+        <p>Video: {session.videoSeconds}s Veo / {session.jobs} Fal jobs</p>
+        <p>This tape (all sessions): <span className={capped ? 'text-red-500' : 'text-green-300'}>{formatCost(tape.cost)}</span>{tape.unpriced > 0 && <span className="text-yellow-600"> ({tape.unpriced} unpriced calls)</span>}</p>
+        <label className="flex items-center gap-2">
+          Spend cap (USD, 0 = off):
+          <input
+            type="number" min={0} step={0.5}
+            value={spendCap}
+            onChange={e => onSpendCapChange(Math.max(0, Number(e.target.value) || 0))}
+            className="w-20 bg-black border border-green-900 text-green-500 px-1 focus:border-green-400 focus:outline-none"
+          />
+          {capped && <span className="text-red-500 animate-pulse">PAUSED</span>}
+        </label>
+
+        {Object.keys(tape.byModel).length > 0 && (
+          <div className="pt-1 border-t border-gray-800">
+            {Object.entries(tape.byModel).map(([model, m]) => (
+              <p key={model} className="text-gray-500">{model}: {m.calls} calls, {formatCost(m.cost)}</p>
+            ))}
+          </div>
+        )}
+
+        {records.length > 0 && (
+          <div className="pt-1 border-t border-gray-800">
+            {records.slice(-RECENT_CALLS).reverse().map(r => (
+              <p key={r.id} className={r.ok ? 'text-gray-600' : 'text-red-900'}>
+                {new Date(r.at).toLocaleTimeString()} {r.provider} {formatCost(r.cost)} {Math.round(r.durationMs / 1000)}s{r.retries > 0 ? ` (${r.retries} retries)` : ''}
+              </p>
+            ))}
+            <button onClick={onClear} className="text-red-900 hover:text-red-500 mt-1">[CLEAR TAPE HISTORY]</button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default UsagePanel;
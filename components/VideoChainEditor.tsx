@@ -0,0 +1,87 @@
+import React from 'react';
+import { VideoChainEntry, VideoProviderId } from '../types';
+import { VIDEO_PROVIDERS } from '../services/videoProviders';
+import { FAL_MODELS, VIDEO_MODELS, STILLS_MODELS } from '../constants';
+
+interface Props {
+  chain: VideoChainEntry[]; // Empty = automatic
+  onChange: (chain: VideoChainEntry[]) => void;
+}
+
+const fieldClass = "bg-black border border-green-900 text-green-500 px-2 py-1 focus:border-green-500 focus:outline-none font-mono text-xs";
+
+// Model picker per provider; '' keeps whatever the provider's own setting says
+const ModelField: React.FC<{ entry: VideoChainEntry; onChange: (model: string) => void }> = ({ entry, onChange }) => {
+  const options = entry.provider === 'fal'
+    ? Object.entries(FAL_MODELS)
+    : entry.provider === 'veo'
+      ? Object.keys(VIDEO_MODELS).map(key => [key.toUpperCase(), key])
+      : entry.provider === 'stills'
+        ? Object.entries(STILLS_MODELS)
+        : null;
+
+  if (!options) {
+    return (
+      <input
+        type="text"
+        value={entry.model}
+        onChange={e => onChange(e.target.value.trim())}
+        placeholder="Selected OpenRouter model"
+        className={`flex-1 ${fieldClass}`}
+      />
+    );
+  }
+  return (
+    <select value={entry.model} onChange={e => onChange(e.target.value)} className={`flex-1 ${fieldClass} uppercase`}>
+      <option value="">(Current setting)</option>
+      {options.map(([name, id]) => <option key={id} value={id}>{name}</option>)}
+    </select>
+  );
+};
+
+// Ordered list of video providers; each failure falls through to the next line
+const VideoChainEditor: React.FC<Props> = ({ chain, onChange }) => {
+  const update = (index: number, patch: Partial<VideoChainEntry>) => {
+    onChange(chain.map((entry, i) => i === index ? { ...entry, ...patch } : entry));
+  };
+
+  const move = (index: number, delta: number) => {
+    const target = index + delta;
+    if (target < 0 || target >= chain.length) return;
+    const next = [...chain];
+    [next[index], next[target]] = [next[target], next[index]];
+    onChange(next);
+  };
+
+  return (
+    <div className="flex flex-col gap-2">
+      {chain.length === 0 && (
+        <p className="text-xs text-gray-600">AUTOMATIC: Fal.ai (if configured), then Veo or OpenRouter, then a painted still.</p>
+      )}
+      {chain.map((entry, i) => (
+        <div key={i} className="flex gap-2 items-center">
+          <span className="text-green-800 text-xs w-4">{i + 1}.</span>
+          <select
+            value={entry.provider}
+            onChange={e => update(i, { provider: e.target.value as VideoProviderId, model: '' })}
+            className={`w-36 ${fieldClass} uppercase`}
+          >
+            {VIDEO_PROVIDERS.map(p => <option key={p.id} value={p.id}>{p.label}</option>)}
+          </select>
+          <ModelField entry={entry} onChange={model => update(i, { model })} />
+          <button onClick={() => move(i, -1)} disabled={i === 0} className="text-green-800 hover:text-green-400 text-xs disabled:opacity-30">[UP]</button>
+          <button onClick={() => move(i, 1)} disabled={i === chain.length - 1} className="text-green-800 hover:text-green-400 text-xs disabled:opacity-30">[DN]</button>
+          <button onClick={() => onChange(chain.filter((_, j) => j !== i))} className="text-red-900 hover:text-red-500 text-xs">[X]</button>
+        </div>
+      ))}
+      <div className="flex gap-4">
+        <button onClick={() => onChange([...chain, { provider: 'veo', model: '' }])} className="text-green-700 hover:text-green-400 text-xs uppercase">[+ ADD STEP]</button>
+        {chain.length > 0 && (
+          <button onClick={() => onChange([])} className="text-green-900 hover:text-green-500 text-xs uppercase">[RESET TO AUTOMATIC]</button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default VideoChainEditor;
@@ -0,0 +1,62 @@
+import React from 'react';
+import { CameraMotion, VideoAspectRatio, VideoParams } from '../types';
+import { VideoParamSupport } from '../services/videoProviders';
+import { CAMERA_MOTIONS } from '../constants';
+
+interface Props {
+  params: VideoParams;
+  support: VideoParamSupport; // Only these fields and values are offered
+  onChange: (params: VideoParams) => void;
+}
+
+const fieldClass = "bg-black border border-green-900 text-green-500 px-2 py-1 focus:border-green-500 focus:outline-none font-mono text-xs";
+
+// Blank fields are removed rather than stored, so the provider (or the viewer's setting) decides
+const VideoParamsEditor: React.FC<Props> = ({ params, support, onChange }) => {
+  const has = (field: keyof VideoParams) => support.fields.includes(field);
+  const set = <K extends keyof VideoParams>(field: K, value: VideoParams[K] | '') => {
+    const next = { ...params };
+    if (value === '' || value === undefined || (typeof value === 'number' && isNaN(value))) delete next[field];
+    else next[field] = value as VideoParams[K];
+    onChange(next);
+  };
+
+  return (
+    <div className="grid grid-cols-2 gap-2">
+      {has('aspectRatio') && (
+        <select value={params.aspectRatio || ''} onChange={e => set('aspectRatio', e.target.value as VideoAspectRatio | '')} className={fieldClass}>
+          <option value="">Aspect: default</option>
+          {support.aspectRatios.map(r => <option key={r} value={r}>Aspect: {r}{r === '9:16' ? ' (vertical)' : ''}</option>)}
+        </select>
+      )}
+      {has('duration') && (support.durations.length > 0 ? (
+        <select value={params.duration ?? ''} onChange={e => set('duration', e.target.value === '' ? '' : Number(e.target.value))} className={fieldClass}>
+          <option value="">Length: default</option>
+          {support.durations.map(d => <option key={d} value={d}>Length: {d}s</option>)}
+        </select>
+      ) : (
+        <input type="number" min={1} max={30} value={params.duration ?? ''} onChange={e => set('duration', e.target.value === '' ? '' : Math.round(Number(e.target.value)))} placeholder="Length (s): model default" className={fieldClass} />
+      ))}
+      {has('resolution') && support.resolutions.length > 0 && (
+        <select value={params.resolution || ''} onChange={e => set('resolution', e.target.value)} className={fieldClass}>
+          <option value="">Resolution: default</option>
+          {support.resolutions.map(r => <option key={r} value={r}>Resolution: {r}</option>)}
+        </select>
+      )}
+      {has('cameraMotion') && (
+        <select value={params.cameraMotion || ''} onChange={e => set('cameraMotion', e.target.value as CameraMotion | '')} className={fieldClass}>
+          <option value="">Camera: model's choice</option>
+          {Object.keys(CAMERA_MOTIONS).map(m => <option key={m} value={m}>Camera: {m.replace('-', ' ')}</option>)}
+        </select>
+      )}
+      {has('seed') && (
+        <input type="number" min={0} value={params.seed ?? ''} onChange={e => set('seed', e.target.value === '' ? '' : Math.floor(Number(e.target.value)))} placeholder="Seed: random" className={fieldClass} />
+      )}
+      {has('negativePrompt') && (
+        <input type="text" value={params.negativePrompt || ''} onChange={e => set('negativePrompt', e.target.value)} placeholder="Negative prompt, e.g. text, watermark" className={`col-span-2 ${fieldClass}`} />
+      )}
+    </div>
+  );
+};
+
+export default VideoParamsEditor;
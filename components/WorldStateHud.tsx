@@ -0,0 +1,53 @@
+import React from 'react';
+import { WorldSchema, WorldState } from '../types';
+
+interface Props {
+  schema: WorldSchema;
+  state: WorldState;
+}
+
+const WorldStateHud: React.FC<Props> = ({ schema, state }) => {
+  const activeFlags = schema.flags.filter(f => state.flags[f.key]);
+
+  return (
+    <div className="absolute top-10 right-4 bg-black/80 border border-green-900 p-3 font-mono text-xs text-green-500 z-40 w-56 pointer-events-none shadow-[0_0_20px_rgba(0,255,0,0.1)]">
+      <h4 className="text-gray-500 uppercase tracking-widest border-b border-green-900/50 pb-1 mb-2">Status</h4>
+
+      {schema.stats.map(stat => {
+        const value = state.stats[stat.key] ?? stat.initial;
+        const bounded = typeof stat.max === 'number' && stat.max > (stat.min ?? 0);
+        const pct = bounded ? Math.round(((value - (stat.min ?? 0)) / (stat.max! - (stat.min ?? 0))) * 100) : null;
+        return (
+          <div key={stat.key} className="mb-1">
+            <div className="flex justify-between">
+              <span className="uppercase">{stat.label || stat.key}</span>
+              <span className="text-green-300">{value}{bounded && <span className="text-green-800">/{stat.max}</span>}</span>
+            </div>
+            {pct !== null && (
+              <div className="h-1 bg-green-900/30 mt-0.5">
+                <div className={`h-full ${pct <= 25 ? 'bg-red-600' : 'bg-green-600'}`} style={{ width: `${Math.max(0, Math.min(100, pct))}%` }} />
+              </div>
+            )}
+          </div>
+        );
+      })}
+
+      {(state.inventory.length > 0 || schema.inventory.length > 0) && (
+        <div className="mt-2">
+          <span className="text-gray-500 uppercase">Inventory</span>
+          <p className="text-green-400 break-words">{state.inventory.length > 0 ? state.inventory.join(', ') : 'EMPTY'}</p>
+        </div>
+      )}
+
+      {activeFlags.length > 0 && (
+        <div className="mt-2 flex flex-wrap gap-1">
+          {activeFlags.map(f => (
+            <span key={f.key} className="border border-green-800 px-1 uppercase text-[10px]">{f.label || f.key}</span>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default WorldStateHud;
@@ -1,4 +1,7 @@
+import { CameraMotion, ModelPrice, VideoAspectRatio } from './types';
 
+// Scene moods the writer tags beats with; the soundtrack picks its beds from these
+export const BEAT_MOODS = ['calm', 'tense', 'action', 'mystery', 'eerie', 'sad', 'joyful', 'wonder', 'romantic'];
 
 export const SYSTEM_INSTRUCTION = `
 You are the Showrunner and Scriptwriter for "The Tape Loop", an infinite, surreal TV show engine.
@@ -12,10 +15,18 @@ You must return a valid JSON object with this schema:
     { "id": "2", "text": "Short action 2" },
     { "id": "3", "text": "Short action 3" },
     { "id": "4", "text": "Short action 4" }
-  ]
+  ],
+  "mood": "The scene's atmosphere, one of: ${BEAT_MOODS.join(', ')}"
 }
 `;
 
+// Backstage jobs (chapter recaps, vetting write-ins) that want plain text rather than a beat
+export const EDITOR_SYSTEM_INSTRUCTION = `
+You are the story editor for "The Tape Loop", an interactive TV show.
+You handle backstage tasks for the scriptwriter: short factual recaps and checks on viewer input.
+Follow the TASK exactly and reply in the format it asks for.
+`;
+
 export const PLACEHOLDER_VIDEO = "https://media.istockphoto.com/id/1334253648/video/tv-static-noise-signal-glitch-effect-loop-background.mp4?s=mp4-640x640-is&k=20&c=1-YyX4J-fXfV29rG8sP_rT5HjQvWlqZq0Q0Q0Q0Q0=";
 
 export const GET_KEY_URL = "https://aistudio.google.com/app/apikey";
@@ -41,9 +52,94 @@ export const CONTENT_THEMES = [
   "Saturday Morning Cartoon", "Psychedelic"
 ];
 
+// Soundtrack mood for a show whose beats aren't tagged (first listed theme wins)
+export const THEME_MOODS: Record<string, string> = {
+  "Surrealist Mystery": 'mystery',
+  "Cyberpunk": 'tense',
+  "1980s Sitcom": 'joyful',
+  "Eldritch Horror": 'eerie',
+  "High Fantasy": 'wonder',
+  "Space Opera": 'wonder',
+  "Noir Detective": 'mystery',
+  "Soap Opera": 'romantic',
+  "Zombie Survival": 'tense',
+  "Abstract Art": 'calm',
+  "Mockumentary": 'joyful',
+  "Western": 'calm',
+  "Saturday Morning Cartoon": 'joyful',
+  "Psychedelic": 'wonder'
+};
+
 export const FAL_MODELS: Record<string, string> = {
   'Minimax (Balanced)': 'fal-ai/minimax/video-01',
+  'Minimax Subject Reference (Cast Faces)': 'fal-ai/minimax/video-01-subject-reference',
   'Luma Dream Machine (Cinematic)': 'fal-ai/luma-dream-machine',
   'Kling 1.6 (High Quality)': 'fal-ai/kling-video/v1.6/standard/image-to-video',
   'Fast SVD (Glitchy/Cheap)': 'fal-ai/fast-svd/text-to-video'
-};
\ No newline at end of file
+};
+
+// Text-to-image models for slideshow stills
+export const FAL_IMAGE_MODELS: Record<string, string> = {
+  'Flux Schnell (Cheapest)': 'fal-ai/flux/schnell',
+  'Flux Dev': 'fal-ai/flux/dev',
+  'Flux Pro 1.1': 'fal-ai/flux-pro/v1.1',
+  'Fast SDXL': 'fal-ai/fast-sdxl'
+};
+export const GEMINI_IMAGE_MODEL = 'gemini-2.5-flash-image';
+
+// What a stills step can paint with; 'none' keeps the last frame on screen
+export const STILLS_MODELS: Record<string, string> = {
+  ...Object.fromEntries(Object.entries(FAL_IMAGE_MODELS).map(([name, id]) => [`Fal.ai ${name}`, id])),
+  'Gemini Image': GEMINI_IMAGE_MODEL,
+  'Hold last frame (free)': 'none'
+};
+
+// Veo bills per second of footage; clips are this long unless VideoParams.duration says otherwise
+export const VEO_CLIP_SECONDS = 8;
+
+export const VIDEO_ASPECT_RATIOS: VideoAspectRatio[] = ['16:9', '9:16', '1:1'];
+
+// How each camera move is written into the shot
+export const CAMERA_MOTIONS: Record<CameraMotion, string> = {
+  'static': 'static locked-off camera',
+  'pan-left': 'slow camera pan to the left',
+  'pan-right': 'slow camera pan to the right',
+  'tilt-up': 'camera tilts up',
+  'tilt-down': 'camera tilts down',
+  'zoom-in': 'slow push-in zoom',
+  'zoom-out': 'slow pull-back zoom',
+  'orbit': 'camera orbits around the subject',
+  'handheld': 'handheld camera with slight shake'
+};
+
+// Rough list prices (USD) for cost estimates. Keys match a model id exactly or as a prefix;
+// the longest match wins. OpenRouter models use the live registry pricing instead.
+// Override or extend these in SYSTEM > Usage.
+export const DEFAULT_PRICE_TABLE: Record<string, ModelPrice> = {
+  'gemini-3-pro': { inputPerMTok: 2, outputPerMTok: 12 },
+  'gemini-2.5-pro': { inputPerMTok: 1.25, outputPerMTok: 10 },
+  'gemini-2.5-flash': { inputPerMTok: 0.3, outputPerMTok: 2.5 },
+  'gemini-2.5-flash-preview-tts': { inputPerMTok: 0.5, outputPerMTok: 10 },
+  'gemini-2.0-flash': { inputPerMTok: 0.1, outputPerMTok: 0.4 },
+  'veo-3.1-fast-generate': { perSecond: 0.15 },
+  'veo-3.1-generate': { perSecond: 0.4 },
+  'fal-ai/minimax/video-01': { perJob: 0.5 },
+  'fal-ai/luma-dream-machine': { perJob: 0.5 },
+  'fal-ai/kling-video': { perJob: 0.28 },
+  'fal-ai/fast-svd': { perJob: 0.02 },
+  'fal-ai/flux/schnell': { perJob: 0.003 },
+  'fal-ai/flux/dev': { perJob: 0.025 },
+  'fal-ai/flux-pro': { perJob: 0.04 },
+  'fal-ai/fast-sdxl': { perJob: 0.003 },
+  // Image output is billed as tokens (~1290 per image)
+  'gemini-2.5-flash-image': { inputPerMTok: 0.3, outputPerMTok: 30 },
+  // OpenAI speech bills per character; the narrator meters characters as input tokens
+  'tts-1': { inputPerMTok: 15 },
+  'tts-1-hd': { inputPerMTok: 30 }
+};
+
+// Narrator defaults per cloud provider
+export const GEMINI_TTS_MODEL = 'gemini-2.5-flash-preview-tts';
+export const GEMINI_TTS_VOICES = ['Kore', 'Puck', 'Charon', 'Fenrir', 'Aoede', 'Leda', 'Orus', 'Zephyr'];
+export const OPENAI_TTS_MODEL = 'tts-1';
+export const OPENAI_TTS_VOICES = ['alloy', 'echo', 'fable', 'onyx', 'nova', 'shimmer'];
\ No newline at end of file
@@ -2,14 +2,34 @@ import React, { useState, useEffect, DragEvent } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { GoogleGenAI } from '@google/genai';
 import CRTContainer from '../components/CRTContainer';
-import { readTapeData } from '../utils/tapeUtils';
-import { TapeFileSchema, StoredTape, AppSettings, OpenRouterModel } from '../types';
+import VideoChainEditor from '../components/VideoChainEditor';
+import VideoParamsEditor from '../components/VideoParamsEditor';
+import { VIDEO_PROVIDERS, getVideoProvider } from '../services/videoProviders';
+import SoundtrackLibrary from '../components/SoundtrackLibrary';
+import { readTapeData, createTapeBlob } from '../utils/tapeUtils';
+import { normalizeCardData, buildCardChunks } from '../utils/characterCard';
+import { migrateTape, UNSUPPORTED_VERSION_PREFIX } from '../utils/tapeMigrations';
+import { validateTape, formatIssue, TapeIssue } from '../utils/tapeValidator';
+import { TapeFileSchema, StoredTape, AppSettings, OpenRouterModel, NarrativeProviderId, NarratorProviderId, RenderMode, VideoProviderId, VoteTieBreak, ProxyStatus, ModelPrice, UsageSummary } from '../types';
 import { getLibrary, saveTapeToLibrary, deleteTapeFromLibrary, getSettings, saveSettings, DEFAULT_SETTINGS } from '../services/storageService';
-import { ANIMATION_STYLES, VIDEO_MODELS, GET_KEY_URL, FAL_MODELS } from '../constants';
+import { ANIMATION_STYLES, VIDEO_MODELS, GET_KEY_URL, FAL_MODELS, DEFAULT_PRICE_TABLE, STILLS_MODELS } from '../constants';
 import { fetchOpenRouterModels } from '../services/openRouterService';
+import { NARRATIVE_PROVIDERS, isProviderConfigured } from '../services/narrativeProviders';
+import { NARRATOR_PROVIDERS, getNarratorProvider, canRecordNarration } from '../services/narratorService';
+import { getProxyStatus } from '../services/proxyService';
+import { getUsageRecords, summarizeUsage, clearUsage, formatCost } from '../services/usageService';
+import { getClipUsage, purgeClips, purgeAllClips, formatBytes, ClipUsage } from '../services/clipCache';
+import { purgeKeyframes, purgeAllKeyframes } from '../services/continuityService';
 
 // --- Helpers ---
 
+interface ImportReport {
+  fileName: string;
+  status: 'imported' | 'rejected';
+  issues: TapeIssue[];
+  error?: string;
+}
+
 const blobToBase64 = (blob: Blob): Promise<string> => {
   return new Promise((resolve, reject) => {
     const reader = new FileReader();
@@ -69,40 +89,6 @@ const generatePlaceholderImage = (text: string): string => {
   return canvas.toDataURL('image/png').split(',')[1];
 };
 
-// Helper to normalize generic card JSON into our Schema
-const normalizeCardData = (json: any): TapeFileSchema => {
-    // Supports Standard Tavern/V2 Card JSON structure
-    const charName = json.data?.name || json.character?.name || json.name || "Unknown";
-    
-    // Extract rich context
-    const scenario = json.data?.scenario || json.scenario || json.character?.scenario || "A mysterious sequence of events.";
-    const personality = json.data?.description || json.personality || json.description || json.character?.description || "Unknown entity.";
-    const firstMes = json.data?.first_mes || json.first_mes || json.initial_prompt || `The story of ${charName} begins.`;
-
-    // Construct a 'Context Zero' entry.
-    // This specific format allows us to detect it later and prepend it to prompts.
-    const contextEntry = `SERIES CONTEXT:\nCharacter: ${charName}\nPersonality/Description: ${personality}\nScenario/Theme: ${scenario}`;
-    
-    return {
-        meta: { version: "1.0", characterName: charName, createdAt: new Date().toISOString() },
-        engineState: {
-            // Pushing context first, then the actual start message
-            history: [contextEntry, firstMes], 
-            currentBeat: {
-                narrative: firstMes,
-                visualPrompt: `A cinematic shot of ${charName} in this setting: ${scenario}. ${personality}`,
-                choices: [
-                    { id: "1", text: "Look around" },
-                    { id: "2", text: "Move forward" },
-                    { id: "3", text: "Check inventory" },
-                    { id: "4", text: "Wait" }
-                ]
-            },
-            loadingStage: "CARD IMPORT"
-        }
-    };
-};
-
 const Lobby: React.FC = () => {
   const navigate = useNavigate();
   
@@ -122,6 +108,21 @@ const Lobby: React.FC = () => {
   const [isLoading, setIsLoading] = useState(true);
   const [apiStatus, setApiStatus] = useState<'idle' | 'testing' | 'success' | 'error'>('idle');
   const [copyStatus, setCopyStatus] = useState<string | null>(null);
+  const [importReports, setImportReports] = useState<ImportReport[]>([]);
+  const [clipUsage, setClipUsage] = useState<Record<string, ClipUsage>>({});
+  const [proxyStatus, setProxyStatus] = useState<ProxyStatus | null>(null);
+  const [usageTotals, setUsageTotals] = useState<UsageSummary | null>(null);
+  const [priceDraft, setPriceDraft] = useState<string | null>(null); // Price table JSON being edited
+  const [priceError, setPriceError] = useState<string | null>(null);
+  const [narratorVoices, setNarratorVoices] = useState<string[]>([]);
+  const [paramsProvider, setParamsProvider] = useState<VideoProviderId>('veo'); // Provider shown in VIDEO PARAMETERS
+
+  // Voice names for the selected narrator (Web Speech lists whatever the OS has installed)
+  useEffect(() => {
+    getNarratorProvider(settings.narratorProvider).listVoices()
+      .then(setNarratorVoices)
+      .catch(() => setNarratorVoices([]));
+  }, [settings.narratorProvider]);
 
   // Load Data on Mount
   useEffect(() => {
@@ -132,12 +133,25 @@ const Lobby: React.FC = () => {
         // CHECK FOR MAGIC LINK (URL Key)
         const urlParams = new URLSearchParams(window.location.search);
         const magicKey = urlParams.get('key');
+        const magicProvider = urlParams.get('provider');
+        const magicProxy = urlParams.get('proxy') === '1';
         
         let activeSettings = prefs;
 
-        if (magicKey) {
+        if (magicProxy) {
+           // Keyless link from a proxy-mode host
+           activeSettings = { ...prefs, proxyMode: true };
+           if (magicProvider === 'gemini' || magicProvider === 'openrouter') {
+              activeSettings.narrativeProvider = magicProvider;
+           }
+           await savePreferences(activeSettings);
+           window.history.replaceState(null, '', window.location.pathname + window.location.hash);
+        } else if (magicKey) {
            // Import key from URL
            activeSettings = { ...prefs, apiKey: magicKey };
+           if (magicProvider === 'gemini' || magicProvider === 'openrouter') {
+              activeSettings.narrativeProvider = magicProvider;
+           }
            await savePreferences(activeSettings);
            
            // Clean URL
@@ -150,12 +164,15 @@ const Lobby: React.FC = () => {
 
         setLibrary(libs);
         setSettings(activeSettings);
+        refreshClipUsage();
+        refreshUsageTotals();
+        if (activeSettings.proxyMode) refreshProxyStatus();
         
         // Check API key status if exists
-        if (activeSettings.apiKey) {
+        if (isProviderConfigured(activeSettings)) {
             setApiStatus('idle'); 
             // If OpenRouter, pre-fetch models
-            if (activeSettings.apiKey.startsWith('sk-or-')) {
+            if (activeSettings.narrativeProvider === 'openrouter') {
                loadOpenRouterModels();
             }
         } else {
@@ -175,6 +192,62 @@ const Lobby: React.FC = () => {
 
   // --- Settings Logic ---
 
+  const refreshClipUsage = () => {
+    getClipUsage().then(setClipUsage).catch(e => console.warn("[ClipCache] Usage scan failed", e));
+  };
+
+  const refreshUsageTotals = () => {
+    getUsageRecords().then(records => setUsageTotals(summarizeUsage(records))).catch(e => console.warn("[Usage] Load failed", e));
+  };
+
+  const clearAllUsage = async () => {
+    if (!confirm("Clear the usage history for every tape?")) return;
+    await clearUsage();
+    refreshUsageTotals();
+  };
+
+  // Only the overrides are stored; the built-in table keeps getting updated prices
+  const savePriceTable = () => {
+    if (priceDraft === null) return;
+    try {
+      const parsed = priceDraft.trim() ? JSON.parse(priceDraft) : {};
+      if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) throw new Error("Expected an object keyed by model id");
+      const priceTable: Record<string, ModelPrice> = {};
+      Object.entries(parsed).forEach(([model, price]: [string, any]) => {
+        if (!price || typeof price !== 'object') throw new Error(`"${model}" needs an object of prices`);
+        const entry: ModelPrice = {};
+        (['inputPerMTok', 'outputPerMTok', 'perSecond', 'perJob'] as const).forEach(field => {
+          if (price[field] === undefined) return;
+          if (typeof price[field] !== 'number' || price[field] < 0) throw new Error(`"${model}.${field}" must be a non-negative number`);
+          entry[field] = price[field];
+        });
+        priceTable[model] = entry;
+      });
+      savePreferences({ ...settings, priceTable });
+      setPriceDraft(null);
+      setPriceError(null);
+    } catch (e: any) {
+      setPriceError(e.message);
+    }
+  };
+
+  const purgeTapeClips = async (e: React.MouseEvent, tape: StoredTape) => {
+    e.stopPropagation();
+    if (confirm(`Delete cached footage for "${tape.characterName}"? The tape itself is kept.`)) {
+      await purgeClips(tape.id);
+      await purgeKeyframes(tape.id);
+      refreshClipUsage();
+    }
+  };
+
+  const purgeEveryClip = async () => {
+    if (confirm("Delete ALL cached footage? Tapes are kept, but clips will need to be generated again.")) {
+      await purgeAllClips();
+      await purgeAllKeyframes();
+      refreshClipUsage();
+    }
+  };
+
   const loadOpenRouterModels = async () => {
     if (availableModels.length > 0) return; // Already loaded
     setIsFetchingModels(true);
@@ -192,18 +265,50 @@ const Lobby: React.FC = () => {
       setSettings(newSettings);
       await saveSettings(newSettings);
       
-      if (newSettings.apiKey.startsWith('sk-or-') && availableModels.length === 0) {
+      if (newSettings.narrativeProvider === 'openrouter' && availableModels.length === 0) {
         loadOpenRouterModels();
       }
   };
 
+  const refreshProxyStatus = async (): Promise<ProxyStatus | null> => {
+    try {
+      const status = await getProxyStatus(true);
+      setProxyStatus(status);
+      return status;
+    } catch (e) {
+      console.warn("[Proxy] Status check failed", e);
+      setProxyStatus(null);
+      return null;
+    }
+  };
+
   const testApiConnection = async () => {
-    if (!settings.apiKey || settings.apiKey.trim() === '') return;
+    if (!isProviderConfigured(settings)) return;
 
     setApiStatus('testing');
     try {
-      // Simple heuristic check for OpenRouter
-      if (settings.apiKey.startsWith('sk-or-')) {
+      if (settings.proxyMode && (settings.narrativeProvider === 'gemini' || settings.narrativeProvider === 'openrouter')) {
+        // The keys live on the server; just confirm it holds the one we need
+        const status = await refreshProxyStatus();
+        if (!status) throw new Error("Proxy server unreachable (npm start)");
+        if (!status[settings.narrativeProvider]) throw new Error(`Server has no ${settings.narrativeProvider === 'gemini' ? 'GEMINI_API_KEY' : 'OPENROUTER_API_KEY'}`);
+        setApiStatus('success');
+        setError(null);
+        savePreferences(settings);
+        if (settings.narrativeProvider === 'openrouter') loadOpenRouterModels();
+      } else if (settings.narrativeProvider === 'openai-compatible') {
+        // Most servers (llama.cpp, vLLM, Ollama) list their models here
+        const res = await fetch(`${settings.customBaseUrl.replace(/\/+$/, '')}/models`, {
+            headers: settings.customApiKey ? { Authorization: `Bearer ${settings.customApiKey}` } : {}
+        });
+        if (res.ok) {
+            setApiStatus('success');
+            setError(null);
+            savePreferences(settings);
+        } else {
+            throw new Error(`Endpoint Error: ${res.status}`);
+        }
+      } else if (settings.narrativeProvider === 'openrouter') {
         const res = await fetch("https://openrouter.ai/api/v1/auth/key", {
             headers: { Authorization: `Bearer ${settings.apiKey}` }
         });
@@ -237,8 +342,10 @@ const Lobby: React.FC = () => {
   };
 
   const copyMagicLink = () => {
-    if (!settings.apiKey) return;
-    const link = `${window.location.origin}${window.location.pathname}?key=${settings.apiKey}`;
+    if (!settings.apiKey && !settings.proxyMode) return;
+    // Proxy links carry no key; the server signs every call
+    const credentials = settings.proxyMode ? 'proxy=1' : `key=${settings.apiKey}`;
+    const link = `${window.location.origin}${window.location.pathname}?${credentials}&provider=${settings.narrativeProvider}`;
     navigator.clipboard.writeText(link);
     setCopyStatus("LINK COPIED TO CLIPBOARD");
     setTimeout(() => setCopyStatus(null), 3000);
@@ -275,7 +382,10 @@ const Lobby: React.FC = () => {
         return;
     }
 
+    const reports: ImportReport[] = [];
+
     for (const file of files) {
+      let issues: TapeIssue[] = [];
       try {
         let normalizedData: TapeFileSchema;
         let base64Image: string;
@@ -326,6 +436,17 @@ const Lobby: React.FC = () => {
             }
         }
         
+        // Check structure before trusting it; recoverable problems are repaired in place
+        const validation = validateTape(normalizedData);
+        issues = validation.issues;
+        if (!validation.ok || !validation.tape) {
+            reports.push({ fileName: file.name, status: 'rejected', issues });
+            continue;
+        }
+
+        // Everything goes through the same upgrade path, whatever format it arrived in
+        normalizedData = migrateTape(validation.tape);
+
         const newTape: StoredTape = {
             id: `tape_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
             characterName: normalizedData.meta.characterName || "Unknown",
@@ -336,23 +457,58 @@ const Lobby: React.FC = () => {
 
         await saveTapeToLibrary(newTape);
         setLibrary(prev => [newTape, ...prev]);
+        if (issues.length > 0) {
+            reports.push({ fileName: file.name, status: 'imported', issues });
+        }
 
-      } catch (err) {
+      } catch (err: any) {
         console.error("Import failed", err);
-        setError("Data corrupted.");
+        const message = err.message?.startsWith(UNSUPPORTED_VERSION_PREFIX) ? err.message : "Data corrupted.";
+        setError(message);
+        reports.push({ fileName: file.name, status: 'rejected', issues, error: err.message || message });
       }
     }
+
+    if (reports.length > 0) {
+        console.warn("[Import] Diagnostics:", reports);
+        setImportReports(reports);
+        if (reports.some(r => r.status === 'rejected')) setError("IMPORT FAILED: SEE DIAGNOSTICS");
+    }
   };
 
   const playTape = (tape: StoredTape) => {
-    navigate('/tv', { state: { tapeData: tape.data, tapeImgBase64: tape.imgBase64 } });
+    navigate('/tv', { state: { tapeData: tape.data, tapeImgBase64: tape.imgBase64, tapeId: tape.id } });
+  };
+
+  // Writes the tape PNG with 'chara' (V2) and 'ccv3' (V3) chunks next to our own data,
+  // so the same file loads here and in character card frontends.
+  const exportCard = async (e: React.MouseEvent, tape: StoredTape) => {
+      e.stopPropagation();
+      try {
+          const res = await fetch(`data:image/png;base64,${tape.imgBase64}`);
+          const imageBlob = await res.blob();
+          const cardBlob = await createTapeBlob(imageBlob, tape.data, { extraChunks: buildCardChunks(tape.data) });
+
+          const url = URL.createObjectURL(cardBlob);
+          const a = document.createElement('a');
+          a.href = url;
+          a.download = `${tape.characterName.replace(/\s+/g, '_')}_CARD.png`;
+          a.click();
+          URL.revokeObjectURL(url);
+      } catch (err: any) {
+          console.error("Card export failed", err);
+          setError(`Card export failed: ${err.message}`);
+      }
   };
 
   const deleteTape = async (e: React.MouseEvent, id: string) => {
       e.stopPropagation();
       if(confirm("Erase this tape?")) {
           await deleteTapeFromLibrary(id);
+          await purgeClips(id);
+          await purgeKeyframes(id);
           setLibrary(prev => prev.filter(t => t.id !== id));
+          refreshClipUsage();
       }
   };
 
@@ -366,6 +522,12 @@ const Lobby: React.FC = () => {
       m.name.toLowerCase().includes(modelSearch.toLowerCase())
   );
 
+  // Footage totals for the SYSTEM tab; anything not under a library id came from an unsaved session
+  const libraryIds = new Set(library.map(t => t.id));
+  const cachedClipCount = Object.values(clipUsage).reduce((sum, u) => sum + u.count, 0);
+  const cachedBytes = Object.values(clipUsage).reduce((sum, u) => sum + u.bytes, 0);
+  const unsavedBytes = Object.entries(clipUsage).filter(([id]) => !libraryIds.has(id)).reduce((sum, [, u]) => sum + u.bytes, 0);
+
   return (
     <div className="min-h-screen w-full bg-[#050505]" onDragOver={onDragOver} onDragLeave={onDragLeave} onDrop={onDrop}>
       <CRTContainer>
@@ -381,7 +543,7 @@ const Lobby: React.FC = () => {
             <div className="flex gap-2">
                 <button 
                     onClick={() => setActiveTab('RENTAL')}
-                    disabled={!settings.apiKey}
+                    disabled={!isProviderConfigured(settings)}
                     className={`px-4 py-2 font-mono text-xl uppercase tracking-widest transition-colors ${activeTab === 'RENTAL' ? 'bg-green-900 text-green-100' : 'bg-black text-green-800 hover:text-green-500 border border-green-900'} disabled:opacity-50 disabled:cursor-not-allowed`}
                 >
                     Rental
@@ -394,7 +556,7 @@ const Lobby: React.FC = () => {
                 </button>
                 <button 
                     onClick={() => setActiveTab('SYSTEM')}
-                    className={`px-4 py-2 font-mono text-xl uppercase tracking-widest transition-colors ${activeTab === 'SYSTEM' ? 'bg-green-900 text-green-100' : 'bg-black text-green-800 hover:text-green-500 border border-green-900'} ${!settings.apiKey ? 'animate-pulse text-green-300 border-green-300' : ''}`}
+                    className={`px-4 py-2 font-mono text-xl uppercase tracking-widest transition-colors ${activeTab === 'SYSTEM' ? 'bg-green-900 text-green-100' : 'bg-black text-green-800 hover:text-green-500 border border-green-900'} ${!isProviderConfigured(settings) ? 'animate-pulse text-green-300 border-green-300' : ''}`}
                 >
                     System
                 </button>
@@ -431,7 +593,15 @@ const Lobby: React.FC = () => {
                               <p className="text-green-500 text-lg font-bold truncate font-mono">{tape.characterName}</p>
                               <div className="flex justify-between items-center mt-1">
                                 <p className="text-gray-500 text-[10px] uppercase tracking-wider truncate">{new Date(tape.timestamp).toLocaleDateString()}</p>
-                                <button onClick={(e) => deleteTape(e, tape.id)} className="text-gray-700 hover:text-red-500 text-[10px] uppercase hover:underline">Erase</button>
+                                <div className="flex gap-2">
+                                  {clipUsage[tape.id] && (
+                                    <button onClick={(e) => purgeTapeClips(e, tape)} className="text-gray-700 hover:text-yellow-500 text-[10px] uppercase hover:underline" title="Purge cached footage">
+                                      {clipUsage[tape.id].count} clips · {formatBytes(clipUsage[tape.id].bytes)}
+                                    </button>
+                                  )}
+                                  <button onClick={(e) => exportCard(e, tape)} className="text-gray-700 hover:text-green-500 text-[10px] uppercase hover:underline" title="Export as Character Card">Card</button>
+                                  <button onClick={(e) => deleteTape(e, tape.id)} className="text-gray-700 hover:text-red-500 text-[10px] uppercase hover:underline">Erase</button>
+                                </div>
                               </div>
                             </div>
                         </div>
@@ -447,8 +617,130 @@ const Lobby: React.FC = () => {
                     <div className="mb-8 border border-green-900 p-6 bg-black/50">
                         <h2 className="text-xl text-green-500 mb-4 uppercase border-b border-green-900/50 pb-2">Authorization</h2>
                         <div className="flex flex-col gap-2">
+                            {/* NARRATIVE PROVIDER */}
+                            <label className="text-green-800 text-sm">SCRIPT WRITER (NARRATIVE PROVIDER)</label>
+                            <select 
+                                value={settings.narrativeProvider}
+                                onChange={(e) => {
+                                    const narrativeProvider = e.target.value as NarrativeProviderId;
+                                    // Going offline should take the video side with it; it can be switched back below
+                                    const testPatternVideo = narrativeProvider === 'test-pattern' ? true : settings.testPatternVideo;
+                                    savePreferences({...settings, narrativeProvider, testPatternVideo});
+                                    setApiStatus('idle');
+                                }}
+                                className="bg-black border border-green-900 text-green-500 px-4 py-2 mb-4 focus:border-green-500 focus:outline-none font-mono uppercase"
+                            >
+                                {NARRATIVE_PROVIDERS.map(p => (
+                                    <option key={p.id} value={p.id}>{p.label}</option>
+                                ))}
+                            </select>
+
+                            {/* SELF-HOSTED ENDPOINT */}
+                            {settings.narrativeProvider === 'openai-compatible' && (
+                                <div className="flex flex-col gap-2 mb-4 pb-4 border-b border-green-900/30">
+                                    <label className="text-green-800 text-sm">ENDPOINT BASE URL</label>
+                                    <input 
+                                        type="text" 
+                                        value={settings.customBaseUrl}
+                                        onChange={(e) => {
+                                            setSettings({...settings, customBaseUrl: e.target.value});
+                                            setApiStatus('idle');
+                                        }}
+                                        placeholder="http://localhost:8080/v1"
+                                        className="bg-black border border-green-900 text-green-500 px-4 py-2 focus:border-green-500 focus:outline-none font-mono"
+                                    />
+                                    <label className="text-green-800 text-sm">MODEL ID</label>
+                                    <input 
+                                        type="text" 
+                                        value={settings.customModel}
+                                        onChange={(e) => setSettings({...settings, customModel: e.target.value})}
+                                        placeholder="llama3.1:8b"
+                                        className="bg-black border border-green-900 text-green-500 px-4 py-2 focus:border-green-500 focus:outline-none font-mono"
+                                    />
+                                    <label className="text-green-800 text-sm">ENDPOINT KEY (OPTIONAL)</label>
+                                    <input 
+                                        type="password" 
+                                        value={settings.customApiKey || ''}
+                                        onChange={(e) => setSettings({...settings, customApiKey: e.target.value})}
+                                        placeholder="Leave blank for local servers"
+                                        className="bg-black border border-green-900 text-green-500 px-4 py-2 focus:border-green-500 focus:outline-none font-mono"
+                                    />
+                                    <div className="flex gap-6 mt-2 text-sm text-green-700">
+                                        <label className="flex items-center gap-2 cursor-pointer">
+                                            <input 
+                                                type="checkbox" 
+                                                checked={settings.customVision}
+                                                onChange={(e) => savePreferences({...settings, customVision: e.target.checked})}
+                                                className="accent-green-500"
+                                            />
+                                            VISION (SEND LAST FRAME)
+                                        </label>
+                                        <label className="flex items-center gap-2 cursor-pointer">
+                                            <input 
+                                                type="checkbox" 
+                                                checked={settings.customJsonMode}
+                                                onChange={(e) => savePreferences({...settings, customJsonMode: e.target.checked})}
+                                                className="accent-green-500"
+                                            />
+                                            JSON MODE
+                                        </label>
+                                    </div>
+                                    <div className="flex justify-between items-center mt-2">
+                                        <p className="text-xs text-gray-600">llama.cpp server, vLLM, Ollama (/v1) or any OpenAI-compatible API.</p>
+                                        <button 
+                                            onClick={testApiConnection}
+                                            disabled={apiStatus === 'testing'}
+                                            className="bg-green-900 text-black px-4 py-2 hover:bg-green-500 font-bold uppercase disabled:opacity-50"
+                                        >
+                                            {apiStatus === 'testing' ? '...' : 'Verify'}
+                                        </button>
+                                    </div>
+                                </div>
+                            )}
+
+                            {/* GEMINI MODEL */}
+                            {settings.narrativeProvider === 'gemini' && (
+                                <div className="flex flex-col gap-2 mb-4">
+                                    <label className="text-green-800 text-sm">GEMINI MODEL</label>
+                                    <input 
+                                        type="text" 
+                                        value={settings.geminiModel}
+                                        onChange={(e) => setSettings({...settings, geminiModel: e.target.value})}
+                                        onBlur={() => savePreferences(settings)}
+                                        placeholder="gemini-3-pro-preview"
+                                        className="bg-black border border-green-900 text-green-500 px-4 py-2 focus:border-green-500 focus:outline-none font-mono"
+                                    />
+                                </div>
+                            )}
+
+                            {/* SERVER PROXY */}
+                            <label className="flex items-center gap-2 cursor-pointer text-green-800 text-sm mb-2">
+                                <input 
+                                    type="checkbox" 
+                                    checked={settings.proxyMode}
+                                    onChange={(e) => {
+                                        savePreferences({...settings, proxyMode: e.target.checked});
+                                        setApiStatus('idle');
+                                        if (e.target.checked) refreshProxyStatus();
+                                    }}
+                                    className="accent-green-500"
+                                />
+                                USE SERVER-HELD KEYS (PROXY MODE)
+                            </label>
+                            {settings.proxyMode && (
+                                <p className="text-xs text-gray-600 mb-4">
+                                    {proxyStatus
+                                        ? <>Server keys: GEMINI {proxyStatus.gemini ? '✓' : '✗'} / OPENROUTER {proxyStatus.openrouter ? '✓' : '✗'} / FAL {proxyStatus.fal ? '✓' : '✗'}. Nothing below is sent from this browser.</>
+                                        : <span className="text-yellow-600">Proxy server not reachable. Run the bundled server (npm start) with GEMINI_API_KEY, OPENROUTER_API_KEY and/or FAL_KEY set.</span>}
+                                </p>
+                            )}
+
                             {/* PRIMARY API KEY */}
-                            <label className="text-green-800 text-sm">API KEY (GEMINI OR OPENROUTER)</label>
+                            {!settings.proxyMode && <>
+                            <label className="text-green-800 text-sm">
+                                {settings.narrativeProvider === 'openrouter' ? 'API KEY (OPENROUTER)' : 'API KEY (GEMINI)'}
+                                {(settings.narrativeProvider === 'openai-compatible' || settings.narrativeProvider === 'test-pattern') && ' - USED FOR VEO VIDEO ONLY'}
+                            </label>
                             <div className="flex gap-2">
                                 <input 
                                     type="password" 
@@ -483,9 +775,22 @@ const Lobby: React.FC = () => {
                                 />
                             </div>
                             <p className="text-xs text-gray-600">Enter Fal key to use Minimax/Luma models.</p>
+                            </>}
+
+                            {settings.proxyMode && (
+                                <div className="flex justify-end">
+                                    <button 
+                                        onClick={testApiConnection}
+                                        disabled={apiStatus === 'testing' || !isProviderConfigured(settings)}
+                                        className="bg-green-900 text-black px-4 py-2 hover:bg-green-500 font-bold uppercase disabled:opacity-50"
+                                    >
+                                        {apiStatus === 'testing' ? '...' : 'Verify'}
+                                    </button>
+                                </div>
+                            )}
 
                             {/* FAL MODEL SELECTOR - NEW ADDITION */}
-                            {settings.falKey && (
+                            {(settings.proxyMode ? proxyStatus?.fal : settings.falKey) && (
                                 <div className="mt-4 pt-4 border-t border-green-900/30">
                                     <label className="text-green-800 text-sm">VIDEO MODEL (CHANNEL)</label>
                                     <select 
@@ -505,7 +810,7 @@ const Lobby: React.FC = () => {
                                 <p className="text-xs text-gray-600">
                                     {apiStatus === 'success' && <span className="text-green-500">✓ Connection Established</span>}
                                     {apiStatus === 'error' && <span className="text-red-500">✗ Connection Failed</span>}
-                                    {apiStatus === 'idle' && "Supports Google Gemini or OpenRouter (sk-or-...) keys."}
+                                    {apiStatus === 'idle' && (settings.narrativeProvider === 'openrouter' ? "OpenRouter keys start with sk-or-..." : "Google AI Studio key.")}
                                 </p>
                                 <a 
                                     href={GET_KEY_URL} 
@@ -520,7 +825,7 @@ const Lobby: React.FC = () => {
                     </div>
 
                     {/* OPENROUTER MODEL CONFIG */}
-                    {settings.apiKey.startsWith('sk-or-') && (
+                    {settings.narrativeProvider === 'openrouter' && (
                         <div className="mb-8 border border-green-900 p-6 bg-black/50">
                             <div className="flex justify-between items-center mb-4 border-b border-green-900/50 pb-2">
                               <h2 className="text-xl text-green-500 uppercase">OpenRouter Model</h2>
@@ -595,12 +900,36 @@ const Lobby: React.FC = () => {
                         <div className="flex flex-col gap-6">
                             {/* Visual Style Selector Removed as requested */}
 
+                            {/* RENDER MODE */}
+                            <div className="flex flex-col gap-2">
+                                <label className="text-green-800 text-sm">RENDER MODE</label>
+                                <div className="flex gap-4">
+                                    <select
+                                        value={settings.renderMode}
+                                        onChange={(e) => savePreferences({...settings, renderMode: e.target.value as RenderMode})}
+                                        className="flex-1 bg-black border border-green-900 text-green-500 px-2 py-2 focus:border-green-500 focus:outline-none font-mono uppercase"
+                                    >
+                                        <option value="video">Video (provider chain)</option>
+                                        <option value="slideshow">Slideshow (one still per scene)</option>
+                                    </select>
+                                    <select
+                                        value={settings.stillsModel}
+                                        onChange={(e) => savePreferences({...settings, stillsModel: e.target.value})}
+                                        className="flex-1 bg-black border border-green-900 text-green-500 px-2 py-2 focus:border-green-500 focus:outline-none font-mono uppercase"
+                                    >
+                                        <option value="">Stills: Automatic</option>
+                                        {Object.entries(STILLS_MODELS).map(([name, id]) => <option key={id} value={id}>Stills: {name}</option>)}
+                                    </select>
+                                </div>
+                                <p className="text-xs text-gray-600">Slideshow paints each scene as a still with slow pan and zoom instead of filming it: a few cents or less per scene. The stills model is also used when the video chain falls back to stills.</p>
+                            </div>
+
                             <div className="flex flex-col gap-2">
                                 <label className="text-green-800 text-sm">GENERATION MODEL (GOOGLE)</label>
                                 <select 
                                     value={settings.videoModel}
                                     onChange={(e) => savePreferences({...settings, videoModel: e.target.value})}
-                                    disabled={settings.apiKey.startsWith('sk-or-')}
+                                    disabled={settings.narrativeProvider === 'openrouter'}
                                     className="bg-black border border-green-900 text-green-500 px-4 py-2 focus:border-green-500 focus:outline-none font-mono uppercase disabled:opacity-50"
                                 >
                                     {Object.keys(VIDEO_MODELS).map(key => (
@@ -609,13 +938,361 @@ const Lobby: React.FC = () => {
                                 </select>
                                 <p className="text-xs text-gray-600">
                                     Fast (Preview) generates 720p quickly. Quality takes longer.
-                                    {settings.apiKey.startsWith('sk-or-') && <br/>}
-                                    {settings.apiKey.startsWith('sk-or-') && <span className="text-yellow-600">Using OpenRouter? This setting is ignored in favor of the Model ID above.</span>}
+                                    {settings.narrativeProvider === 'openrouter' && <br/>}
+                                    {settings.narrativeProvider === 'openrouter' && <span className="text-yellow-600">Using OpenRouter? This setting is ignored in favor of the Model ID above.</span>}
+                                </p>
+                            </div>
+
+                            <div className="flex flex-col gap-2">
+                                <label className="flex items-center gap-2 cursor-pointer text-green-800 text-sm">
+                                    <input 
+                                        type="checkbox" 
+                                        checked={settings.testPatternVideo}
+                                        onChange={(e) => savePreferences({...settings, testPatternVideo: e.target.checked})}
+                                        className="accent-green-500"
+                                    />
+                                    TEST PATTERN VIDEO (OFFLINE)
+                                </label>
+                                <p className="text-xs text-gray-600">Renders local colour-bar clips with the visual prompt overlaid. No network, no quota.</p>
+                            </div>
+
+                            {/* VIDEO FALLBACK CHAIN */}
+                            <div className="flex flex-col gap-2 pt-4 border-t border-green-900/30">
+                                <label className="text-green-800 text-sm">VIDEO PROVIDER CHAIN</label>
+                                <VideoChainEditor
+                                    chain={settings.videoChain}
+                                    onChange={(videoChain) => savePreferences({...settings, videoChain})}
+                                />
+                                <p className="text-xs text-gray-600">Tried top to bottom. Rejections, timeouts and quota errors fall through to the next step; end with Stills so a scene always plays.</p>
+                            </div>
+
+                            {/* VIDEO PARAMETERS */}
+                            <div className="flex flex-col gap-2 pt-4 border-t border-green-900/30">
+                                <div className="flex justify-between items-center">
+                                    <label className="text-green-800 text-sm">VIDEO PARAMETERS</label>
+                                    <select value={paramsProvider} onChange={e => setParamsProvider(e.target.value as VideoProviderId)} className="bg-black border border-green-900 text-green-500 px-2 py-1 focus:border-green-500 focus:outline-none font-mono text-xs uppercase">
+                                        {VIDEO_PROVIDERS.map(p => <option key={p.id} value={p.id}>{p.label}</option>)}
+                                    </select>
+                                </div>
+                                <VideoParamsEditor
+                                    params={settings.videoParams[paramsProvider] || {}}
+                                    support={getVideoProvider(paramsProvider)!.params}
+                                    onChange={(params) => savePreferences({...settings, videoParams: {...settings.videoParams, [paramsProvider]: params}})}
+                                />
+                                <p className="text-xs text-gray-600">Per provider; blank uses the model's default. A tape's own framing (e.g. vertical 9:16) wins over these.</p>
+                            </div>
+
+                            {/* NARRATOR */}
+                            <div className="flex flex-col gap-2 pt-4 border-t border-green-900/30">
+                                <label className="flex items-center gap-2 cursor-pointer text-green-800 text-sm">
+                                    <input 
+                                        type="checkbox" 
+                                        checked={settings.narratorEnabled}
+                                        onChange={(e) => savePreferences({...settings, narratorEnabled: e.target.checked})}
+                                        className="accent-green-500"
+                                    />
+                                    NARRATOR (READ EACH SCENE ALOUD)
+                                </label>
+                                <div className="flex flex-col gap-3 pl-6">
+                                    <div className="flex gap-4">
+                                        <label className="flex flex-col gap-1 text-green-800 text-xs flex-1">
+                                            VOICE ENGINE
+                                            <select
+                                                value={settings.narratorProvider}
+                                                onChange={(e) => savePreferences({...settings, narratorProvider: e.target.value as NarratorProviderId, narratorModel: '', narratorVoice: ''})}
+                                                className="bg-black border border-green-900 text-green-500 px-2 py-1 focus:border-green-500 focus:outline-none font-mono uppercase"
+                                            >
+                                                {NARRATOR_PROVIDERS.map(p => <option key={p.id} value={p.id}>{p.label}</option>)}
+                                            </select>
+                                        </label>
+                                        <label className="flex flex-col gap-1 text-green-800 text-xs flex-1">
+                                            VOICE
+                                            <select
+                                                value={settings.narratorVoice}
+                                                onChange={(e) => savePreferences({...settings, narratorVoice: e.target.value})}
+                                                className="bg-black border border-green-900 text-green-500 px-2 py-1 focus:border-green-500 focus:outline-none font-mono"
+                                            >
+                                                <option value="">(Default)</option>
+                                                {narratorVoices.map(v => <option key={v} value={v}>{v}</option>)}
+                                            </select>
+                                        </label>
+                                    </div>
+                                    {settings.narratorProvider !== 'web-speech' && (
+                                        <label className="flex flex-col gap-1 text-green-800 text-xs">
+                                            TTS MODEL
+                                            <input 
+                                                type="text"
+                                                value={settings.narratorModel}
+                                                placeholder={getNarratorProvider(settings.narratorProvider).defaultModel}
+                                                onChange={(e) => savePreferences({...settings, narratorModel: e.target.value.trim()})}
+                                                className="bg-black border border-green-900 text-green-500 px-2 py-1 focus:border-green-500 focus:outline-none font-mono"
+                                            />
+                                        </label>
+                                    )}
+                                    <div className="flex gap-4">
+                                        <label className="flex flex-col gap-1 text-green-800 text-xs flex-1">
+                                            RATE
+                                            <input 
+                                                type="number" min={0.5} max={2} step={0.1}
+                                                value={settings.narratorRate}
+                                                onChange={(e) => savePreferences({...settings, narratorRate: Math.max(0.5, Math.min(2, Number(e.target.value) || 1))})}
+                                                className="bg-black border border-green-900 text-green-500 px-2 py-1 focus:border-green-500 focus:outline-none font-mono"
+                                            />
+                                        </label>
+                                        <label className="flex flex-col gap-1 text-green-800 text-xs flex-1">
+                                            PITCH
+                                            <input 
+                                                type="number" min={0} max={2} step={0.1}
+                                                value={settings.narratorPitch}
+                                                disabled={settings.narratorProvider !== 'web-speech'}
+                                                onChange={(e) => savePreferences({...settings, narratorPitch: Math.max(0, Math.min(2, Number(e.target.value) || 0))})}
+                                                className="bg-black border border-green-900 text-green-500 px-2 py-1 focus:border-green-500 focus:outline-none font-mono disabled:opacity-50"
+                                            />
+                                        </label>
+                                    </div>
+                                </div>
+                                <p className="text-xs text-gray-600">
+                                    The browser voice works offline. Gemini TTS uses your Gemini key; the OpenAI-compatible engine posts to /audio/speech using the OpenAI-compatible base URL and key. Tapes may set their own narrator.
+                                    {settings.narratorEnabled && !canRecordNarration(settings) && <br/>}
+                                    {settings.narratorEnabled && !canRecordNarration(settings) && <span className="text-yellow-600">The browser voice can't be recorded, so episode exports will have no narration.</span>}
                                 </p>
                             </div>
+
+                            {/* SOUNDTRACK */}
+                            <div className="flex flex-col gap-2 pt-4 border-t border-green-900/30">
+                                <label className="flex items-center gap-2 cursor-pointer text-green-800 text-sm">
+                                    <input 
+                                        type="checkbox" 
+                                        checked={settings.soundtrackEnabled}
+                                        onChange={(e) => savePreferences({...settings, soundtrackEnabled: e.target.checked})}
+                                        className="accent-green-500"
+                                    />
+                                    SOUNDTRACK (MUSIC AND AMBIENCE BEDS)
+                                </label>
+                                <div className="flex flex-col gap-3 pl-6">
+                                    <div className="flex gap-4">
+                                        <label className="flex flex-col gap-1 text-green-800 text-xs flex-1">
+                                            MUSIC VOLUME
+                                            <input 
+                                                type="range" min={0} max={1} step={0.05}
+                                                value={settings.musicVolume}
+                                                onChange={(e) => savePreferences({...settings, musicVolume: Number(e.target.value)})}
+                                                className="accent-green-500"
+                                            />
+                                        </label>
+                                        <label className="flex flex-col gap-1 text-green-800 text-xs flex-1">
+                                            AMBIENCE VOLUME
+                                            <input 
+                                                type="range" min={0} max={1} step={0.05}
+                                                value={settings.ambienceVolume}
+                                                onChange={(e) => savePreferences({...settings, ambienceVolume: Number(e.target.value)})}
+                                                className="accent-green-500"
+                                            />
+                                        </label>
+                                    </div>
+                                    <SoundtrackLibrary />
+                                </div>
+                                <p className="text-xs text-gray-600">Beds follow each scene's mood, falling back to the show's themes. Uploads tagged with a mood replace the built-in synth for it; they stay in this browser.</p>
+                            </div>
+
+                            {/* PRE-ROLL */}
+                            <div className="flex flex-col gap-2 pt-4 border-t border-green-900/30">
+                                <label className="flex items-center gap-2 cursor-pointer text-green-800 text-sm">
+                                    <input 
+                                        type="checkbox" 
+                                        checked={settings.preRollEnabled}
+                                        onChange={(e) => savePreferences({...settings, preRollEnabled: e.target.checked})}
+                                        className="accent-green-500"
+                                    />
+                                    PRE-ROLL (WRITE AHEAD WHILE WATCHING)
+                                </label>
+                                {settings.preRollEnabled && (
+                                    <div className="flex flex-col gap-3 pl-6">
+                                        <div className="flex gap-4">
+                                            <label className="flex flex-col gap-1 text-green-800 text-xs flex-1">
+                                                CHOICES PER SCENE
+                                                <input 
+                                                    type="number" min={1} max={4}
+                                                    value={settings.preRollBudget}
+                                                    onChange={(e) => savePreferences({...settings, preRollBudget: Math.max(1, Math.min(4, Number(e.target.value) || 1))})}
+                                                    className="bg-black border border-green-900 text-green-500 px-2 py-1 focus:border-green-500 focus:outline-none font-mono"
+                                                />
+                                            </label>
+                                            <label className="flex flex-col gap-1 text-green-800 text-xs flex-1">
+                                                AT ONCE
+                                                <input 
+                                                    type="number" min={1} max={4}
+                                                    value={settings.preRollConcurrency}
+                                                    onChange={(e) => savePreferences({...settings, preRollConcurrency: Math.max(1, Math.min(4, Number(e.target.value) || 1))})}
+                                                    className="bg-black border border-green-900 text-green-500 px-2 py-1 focus:border-green-500 focus:outline-none font-mono"
+                                                />
+                                            </label>
+                                        </div>
+                                        <label className="flex items-center gap-2 cursor-pointer text-green-800 text-xs">
+                                            <input 
+                                                type="checkbox" 
+                                                checked={settings.preRollVideo}
+                                                onChange={(e) => savePreferences({...settings, preRollVideo: e.target.checked})}
+                                                className="accent-green-500"
+                                            />
+                                            ALSO FILM PRE-ROLLED SCENES
+                                        </label>
+                                        <label className="flex items-center gap-2 cursor-pointer text-green-800 text-xs">
+                                            <input 
+                                                type="checkbox" 
+                                                checked={settings.preRollKeepAlternates}
+                                                onChange={(e) => savePreferences({...settings, preRollKeepAlternates: e.target.checked})}
+                                                className="accent-green-500"
+                                            />
+                                            KEEP UNPICKED SCENES IN THE TIMELINE
+                                        </label>
+                                    </div>
+                                )}
+                                <p className="text-xs text-gray-600">Picks that were pre-rolled play instantly. Each pre-rolled scene costs a script call{settings.preRollVideo ? ' and a video clip' : ''}, whether or not it is picked.</p>
+                            </div>
+
+                            {/* MEMORY */}
+                            <div className="flex flex-col gap-2 pt-4 border-t border-green-900/30">
+                                <label className="flex items-center gap-2 cursor-pointer text-green-800 text-sm">
+                                    <input 
+                                        type="checkbox" 
+                                        checked={settings.memoryEnabled}
+                                        onChange={(e) => savePreferences({...settings, memoryEnabled: e.target.checked})}
+                                        className="accent-green-500"
+                                    />
+                                    LONG-TERM MEMORY (CHAPTER SUMMARIES)
+                                </label>
+                                <div className="flex gap-4 pl-6">
+                                    <label className="flex flex-col gap-1 text-green-800 text-xs flex-1">
+                                        BEATS PER CHAPTER
+                                        <input 
+                                            type="number" min={3} max={50}
+                                            value={settings.memoryChapterSize}
+                                            disabled={!settings.memoryEnabled}
+                                            onChange={(e) => savePreferences({...settings, memoryChapterSize: Math.max(3, Math.min(50, Number(e.target.value) || 10))})}
+                                            className="bg-black border border-green-900 text-green-500 px-2 py-1 focus:border-green-500 focus:outline-none font-mono disabled:opacity-50"
+                                        />
+                                    </label>
+                                    <label className="flex flex-col gap-1 text-green-800 text-xs flex-1">
+                                        CONTEXT BUDGET (TOKENS)
+                                        <input 
+                                            type="number" min={500} step={500}
+                                            value={settings.memoryTokenBudget}
+                                            onChange={(e) => savePreferences({...settings, memoryTokenBudget: Math.max(500, Number(e.target.value) || 3000)})}
+                                            className="bg-black border border-green-900 text-green-500 px-2 py-1 focus:border-green-500 focus:outline-none font-mono"
+                                        />
+                                    </label>
+                                </div>
+                                <p className="text-xs text-gray-600">Older beats are condensed into chapters (one extra script call per chapter). Pinned facts, chapters and recent beats are sent within the budget; the last 5 beats always go.</p>
+                            </div>
+
+                            {/* WRITE-INS */}
+                            <div className="flex flex-col gap-2 pt-4 border-t border-green-900/30">
+                                <label className="flex items-center gap-2 cursor-pointer text-green-800 text-sm">
+                                    <input 
+                                        type="checkbox" 
+                                        checked={settings.writeInModeration}
+                                        onChange={(e) => savePreferences({...settings, writeInModeration: e.target.checked})}
+                                        className="accent-green-500"
+                                    />
+                                    MODERATE TYPED ACTIONS
+                                </label>
+                                <p className="text-xs text-gray-600">Typed (write-in) actions are checked by the script writer against content limits and the tape's rules before they play. One extra script call per write-in.</p>
+                            </div>
+
+                            {/* AUDIENCE VOTING */}
+                            <div className="flex flex-col gap-2 pt-4 border-t border-green-900/30">
+                                <span className="text-green-800 text-sm">AUDIENCE VOTING</span>
+                                <div className="flex gap-4">
+                                    <label className="flex flex-col gap-1 text-green-800 text-xs flex-1">
+                                        VOTING WINDOW (SECONDS)
+                                        <input 
+                                            type="number" min={5} max={120}
+                                            value={settings.votingDurationSec}
+                                            onChange={(e) => savePreferences({...settings, votingDurationSec: Math.max(5, Math.min(120, Number(e.target.value) || 20))})}
+                                            className="bg-black border border-green-900 text-green-500 px-2 py-1 focus:border-green-500 focus:outline-none font-mono"
+                                        />
+                                    </label>
+                                    <label className="flex flex-col gap-1 text-green-800 text-xs flex-1">
+                                        ON A TIE
+                                        <select 
+                                            value={settings.votingTieBreak}
+                                            onChange={(e) => savePreferences({...settings, votingTieBreak: e.target.value as VoteTieBreak})}
+                                            className="bg-black border border-green-900 text-green-500 px-2 py-1 focus:border-green-500 focus:outline-none font-mono"
+                                        >
+                                            <option value="random">RANDOM DRAW</option>
+                                            <option value="first">FIRST LISTED CHOICE</option>
+                                            <option value="host">HOST DECIDES</option>
+                                        </select>
+                                    </label>
+                                </div>
+                                <p className="text-xs text-gray-600">Press AUDIENCE on the TV to open a room. Viewers join from their phones with the code on screen and vote on each beat. Needs the bundled server (npm start), not a static host.</p>
+                            </div>
                         </div>
                     </div>
                     
+                    {/* CLIP CACHE */}
+                    <div className="mb-8 border border-green-900 p-6 bg-black/50">
+                        <h2 className="text-xl text-green-500 mb-4 uppercase border-b border-green-900/50 pb-2">Footage Cache</h2>
+                        <div className="flex flex-col gap-2">
+                            <p className="text-green-800 text-sm">
+                                {cachedClipCount} clips stored ({formatBytes(cachedBytes)}){unsavedBytes > 0 && `, ${formatBytes(unsavedBytes)} from unsaved sessions`}.
+                            </p>
+                            <p className="text-xs text-gray-600">Finished clips are kept in this browser so tapes replay without regenerating. Per-tape usage is shown on each cassette.</p>
+                            <button 
+                                onClick={purgeEveryClip}
+                                disabled={cachedClipCount === 0}
+                                className="mt-2 border border-red-900 text-red-700 py-2 hover:bg-red-900/20 hover:text-red-500 uppercase tracking-widest text-sm transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                            >
+                                Purge All Footage
+                            </button>
+                        </div>
+                    </div>
+
+                    {/* USAGE */}
+                    <div className="mb-8 border border-green-900 p-6 bg-black/50">
+                        <h2 className="text-xl text-green-500 mb-4 uppercase border-b border-green-900/50 pb-2">Usage</h2>
+                        <div className="flex flex-col gap-2">
+                            <p className="text-green-800 text-sm">
+                                {usageTotals
+                                    ? <>Estimated spend: {formatCost(usageTotals.cost)} over {usageTotals.calls} calls ({usageTotals.retries} retries, {usageTotals.videoSeconds}s Veo, {usageTotals.jobs} Fal jobs){usageTotals.unpriced > 0 && `, ${usageTotals.unpriced} unpriced`}.</>
+                                    : 'No usage recorded yet.'}
+                            </p>
+                            <label className="flex flex-col gap-1 text-green-800 text-xs">
+                                SPEND CAP PER TAPE (USD, 0 = OFF)
+                                <input 
+                                    type="number" min={0} step={0.5}
+                                    value={settings.spendCap}
+                                    onChange={(e) => savePreferences({...settings, spendCap: Math.max(0, Number(e.target.value) || 0)})}
+                                    className="bg-black border border-green-900 text-green-500 px-2 py-1 focus:border-green-500 focus:outline-none font-mono w-32"
+                                />
+                            </label>
+                            <label className="flex flex-col gap-1 text-green-800 text-xs mt-2">
+                                PRICE OVERRIDES (JSON, USD)
+                                <textarea 
+                                    value={priceDraft ?? JSON.stringify(settings.priceTable, null, 2)}
+                                    onChange={(e) => { setPriceDraft(e.target.value); setPriceError(null); }}
+                                    onBlur={savePriceTable}
+                                    rows={4}
+                                    placeholder={'{ "my-local-model": { "inputPerMTok": 0, "outputPerMTok": 0 } }'}
+                                    className="bg-black border border-green-900 text-green-500 px-2 py-1 focus:border-green-500 focus:outline-none font-mono text-xs"
+                                />
+                            </label>
+                            {priceError && <p className="text-xs text-red-500">{priceError}</p>}
+                            <p className="text-xs text-gray-600">
+                                Costs are estimates. Keys match a model id or its prefix; fields are inputPerMTok, outputPerMTok, perSecond (video) and perJob.
+                                Built in: {Object.keys(DEFAULT_PRICE_TABLE).join(', ')}. OpenRouter uses its live pricing. The loop pauses when a tape reaches the cap.
+                            </p>
+                            <button 
+                                onClick={clearAllUsage}
+                                disabled={!usageTotals || usageTotals.calls === 0}
+                                className="mt-2 border border-red-900 text-red-700 py-2 hover:bg-red-900/20 hover:text-red-500 uppercase tracking-widest text-sm transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                            >
+                                Clear Usage History
+                            </button>
+                        </div>
+                    </div>
+
                     {/* REMOTE ACCESS */}
                     <div className="mb-8 border border-green-900 p-6 bg-black/50 relative overflow-hidden">
                         <div className="absolute -right-4 -top-4 bg-green-900 text-black text-xs font-bold px-8 py-1 rotate-45">
@@ -623,15 +1300,16 @@ const Lobby: React.FC = () => {
                         </div>
                         <h2 className="text-xl text-green-500 mb-4 uppercase border-b border-green-900/50 pb-2">Remote Access</h2>
                         <p className="text-green-800 text-sm mb-4">
-                           Generate a "Magic Link" to share this app with your API credentials pre-loaded. 
-                           Anyone with this link can use your key.
+                           {settings.proxyMode
+                               ? 'Generate a "Magic Link" that opens this app in proxy mode. It carries no key; calls are signed by the server.'
+                               : 'Generate a "Magic Link" to share this app with your API credentials pre-loaded. Anyone with this link can use your key.'}
                         </p>
                         <button 
                            onClick={copyMagicLink}
-                           disabled={!settings.apiKey}
+                           disabled={!settings.apiKey && !settings.proxyMode}
                            className="w-full border border-dashed border-green-500 text-green-500 py-3 hover:bg-green-900/30 uppercase tracking-widest font-bold transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
                         >
-                           {copyStatus || (settings.apiKey ? "Copy Magic Link" : "Enter Key First")}
+                           {copyStatus || (settings.apiKey || settings.proxyMode ? "Copy Magic Link" : "Enter Key First")}
                         </button>
                     </div>
 
@@ -647,9 +1325,34 @@ const Lobby: React.FC = () => {
           <div className="mt-4 pt-2 border-t border-gray-900 text-gray-600 text-xs flex justify-between font-mono">
             <span>INVENTORY: {library ? library.length : 0}</span>
             {error && <span className="text-red-500 blink font-bold">{error}</span>}
-            {!settings.apiKey ? <span className="text-yellow-600 animate-pulse">⚠ INSERT KEY IN SYSTEM TAB</span> : <span className="text-green-900">SYSTEM READY</span>}
+            {!isProviderConfigured(settings) ? <span className="text-yellow-600 animate-pulse">⚠ INSERT KEY IN SYSTEM TAB</span> : <span className="text-green-900">SYSTEM READY</span>}
           </div>
 
+          {/* Import Diagnostics */}
+          {importReports.length > 0 && (
+             <div className="absolute inset-x-6 top-24 bottom-16 bg-black/95 z-40 border border-green-500 p-4 font-mono text-xs overflow-y-auto shadow-[0_0_50px_rgba(0,255,0,0.2)]">
+                <div className="flex justify-between border-b border-green-900 pb-2 mb-3">
+                   <strong className="text-green-500 text-sm tracking-widest">IMPORT DIAGNOSTICS</strong>
+                   <button onClick={() => setImportReports([])} className="text-red-500 hover:text-red-400">[DISMISS]</button>
+                </div>
+                {importReports.map((report, i) => (
+                   <div key={i} className="mb-4">
+                      <p className={report.status === 'rejected' ? 'text-red-500' : 'text-green-500'}>
+                         {report.status === 'rejected' ? '✗ REJECTED' : '✓ IMPORTED WITH REPAIRS'}: {report.fileName}
+                      </p>
+                      {report.error && <p className="text-red-400 pl-4">{report.error}</p>}
+                      <ul className="pl-4 mt-1 space-y-0.5">
+                         {report.issues.map((issue, j) => (
+                            <li key={j} className={issue.repaired ? 'text-yellow-600' : issue.severity === 'error' ? 'text-red-400' : 'text-gray-500'}>
+                               {issue.severity === 'error' && !issue.repaired ? '!!' : '--'} {formatIssue(issue)}
+                            </li>
+                         ))}
+                      </ul>
+                   </div>
+                ))}
+             </div>
+          )}
+
           {isDragging && (
              <div className="absolute inset-0 bg-black/90 z-50 flex items-center justify-center border-4 border-green-500 border-dashed m-4">
                 <p className="text-green-500 text-2xl tracking-widest animate-pulse">DROP FILE TO IMPORT</p>
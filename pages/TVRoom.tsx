@@ -5,19 +5,46 @@ import TapeDeck, { TapeDeckHandle } from '../components/TapeDeck';
 import ControlPanel from '../components/ControlPanel';
 import NarrativeLog from '../components/NarrativeLog';
 import GenesisWizard from '../components/GenesisWizard';
-import { GameState, StoryBeat, TapeFileSchema, AppSettings } from '../types';
-import { generateStoryBeat, generateVideoClip, generateGenesisBeat } from '../services/geminiService';
+import TimelineTree from '../components/TimelineTree';
+import WorldStateHud from '../components/WorldStateHud';
+import MemoryPanel from '../components/MemoryPanel';
+import AudiencePanel from '../components/AudiencePanel';
+import UsagePanel from '../components/UsagePanel';
+import { GameState, StoryBeat, TapeFileSchema, AppSettings, Timeline, TimelineNode, WorldState, ChoiceKind, VoteRoomSession, VoteRoomState, UsageRecord, GenerationJob, SoundBed, ResumableJob } from '../types';
+import { generateVideoClip, resumeVideoClip, getFootageStatus, toBeatFootage } from '../services/videoProviders';
+import { generateStoryBeat, generateGenesisBeat, generateChapterSummary, moderateWriteIn } from '../services/narrativeProviders';
 import { createTapeBlob, readTapeData } from '../utils/tapeUtils';
-import { getSettings, DEFAULT_SETTINGS } from '../services/storageService';
+import { createTimeline, createNodeId, appendBeat, setHead, setNodeFrame, setNodeFootage, getBranchHistory, getPath, getChildren, loadTimeline } from '../utils/timelineUtils';
+import { migrateTape, CURRENT_TAPE_VERSION, UNSUPPORTED_VERSION_PREFIX } from '../utils/tapeMigrations';
+import { validateTape, formatIssue } from '../utils/tapeValidator';
+import { getWorldStateAt, applyStateDelta, hasWorldSchema } from '../utils/worldState';
+import { buildMemoryContext, findUnsummarizedChapter, addChapter, setPinnedFacts } from '../utils/memory';
+import { buildShot } from '../utils/cast';
+import { checkWriteIn, getWriteInPolicy } from '../utils/writeIns';
+import { getSettings, saveSettings, saveFrame, getFrame, saveTapeToLibrary, DEFAULT_SETTINGS } from '../services/storageService';
+import { setUsageTape, getUsageRecords, subscribeToUsage, clearUsage } from '../services/usageService';
+import { fetchOpenRouterModels } from '../services/openRouterService';
+import { startPreRoll, PreRollSession, PreRollProgress, PreRollTake } from '../services/preRollService';
+import { cacheClip, getCachedClipUrl, hasCachedClip, isCachedClipUrl, createSessionTapeId, isSessionTapeId } from '../services/clipCache';
+import { pickBestClipFrame, scoreStill, rememberKeyframe, getKeyframes, findBranchKeyframe, MIN_USABLE_SCORE, ScoredFrame } from '../services/continuityService';
+import { exportEpisode, EpisodeScene } from '../services/episodeExport';
+import { createVoteRoom, closeVoteRoom, openVoteRound, cancelVoteRound, subscribeToRoom } from '../services/votingService';
+import { speakNarration, synthesizeNarration, canRecordNarration } from '../services/narratorService';
+import { listBeds, pickBed, resolveMood, getShowThemes } from '../services/soundtrackService';
+import { createSoundtrackPlayer, SoundtrackPlayer } from '../services/soundtrackPlayer';
+import { startJob, cancelJobsFor, subscribeToJobs, getJobs, isCancelled, getResumableJobs, dropResumableJob } from '../services/jobManager';
 import { ANIMATION_STYLES, PLACEHOLDER_VIDEO } from '../constants';
 
+// Let the new clip start before grabbing the still that pre-roll hands to the models
+const PRE_ROLL_DELAY_MS = 1500;
+
 const INITIAL_STATE: GameState = {
   videoUrl: null,
   currentBeat: null,
   lastFrameBase64: null,
   isLoading: false,
   loadingStage: 'IDLE',
-  history: [],
+  timeline: createTimeline(),
 };
 
 const base64ToBlob = (base64: string, type = 'image/png') => {
@@ -30,6 +57,15 @@ const base64ToBlob = (base64: string, type = 'image/png') => {
   return new Blob([arr], { type });
 };
 
+const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = fileName;
+  a.click();
+  URL.revokeObjectURL(url);
+};
+
 const TVRoom: React.FC = () => {
   const location = useLocation();
   const navigate = useNavigate();
@@ -37,11 +73,45 @@ const TVRoom: React.FC = () => {
   
   const [settings, setSettings] = useState<AppSettings>(DEFAULT_SETTINGS);
   const [showDebug, setShowDebug] = useState(false);
+  const [showTimeline, setShowTimeline] = useState(false);
+  const [showMemory, setShowMemory] = useState(false);
+  const [summarizingId, setSummarizingId] = useState<string | null>(null); // First beat of the chapter being summarised
+  const [writeInError, setWriteInError] = useState<string | null>(null);
+  // Moderation round-trip in flight; the ref blocks picks fired before the state re-renders
+  const [checkingWriteIn, setCheckingWriteIn] = useState(false);
+  const checkingWriteInRef = useRef(false);
+  const [audience, setAudience] = useState<VoteRoomSession | null>(null);
+  const [audienceRoom, setAudienceRoom] = useState<VoteRoomState | null>(null);
+  const audienceRef = useRef<VoteRoomSession | null>(null);
+  const voteHeadRef = useRef<string | null>(null);  // Beat the current/last round was opened for
+  const voteRoundRef = useRef<string | null>(null); // Round we opened and still have to act on
+  // Library id when opened from the Lobby; footage for unsaved sessions is cached under a session id
+  const [tapeId, setTapeId] = useState<string>(() => location.state?.tapeId || createSessionTapeId());
+  const preRollRef = useRef<PreRollSession | null>(null);
+  const [preRollProgress, setPreRollProgress] = useState<PreRollProgress | null>(null);
+  const [exportProgress, setExportProgress] = useState<string | null>(null);
+  const [isNarrating, setIsNarrating] = useState(false);
+  const [soundBeds, setSoundBeds] = useState<SoundBed[]>([]);
+  const soundtrackRef = useRef<SoundtrackPlayer | null>(null);
+  // Best closing frame of the clip on screen, once it's been sampled
+  const continuityRef = useRef<(ScoredFrame & { nodeId: string }) | null>(null);
+  const [usageRecords, setUsageRecords] = useState<UsageRecord[]>([]);
+  const [jobs, setJobs] = useState<GenerationJob[]>([]);
+  const jobOwnerRef = useRef<string>('');
+  const resumeCheckedRef = useRef(false);
+
+  // The tape as loaded (already migrated). Eject writes on top of it so fields from other builds survive.
+  const [sourceTape, setSourceTape] = useState<TapeFileSchema | null>(() => {
+    if (location.state && location.state.tapeData) {
+        return migrateTape(location.state.tapeData);
+    }
+    return null;
+  });
 
   // Initialize State
   const [gameState, setGameState] = useState<GameState>(() => {
-    if (location.state && location.state.tapeData) {
-        const data = location.state.tapeData as TapeFileSchema;
+    if (sourceTape) {
+        const data = sourceTape;
         const preloadedBase64 = location.state.tapeImgBase64 || null;
         
         // Preserve import stage if present (e.g. 'CARD IMPORT') so we know if it's a fresh card
@@ -50,7 +120,7 @@ const TVRoom: React.FC = () => {
         return {
             ...INITIAL_STATE,
             currentBeat: data.engineState.currentBeat,
-            history: data.engineState.history,
+            timeline: loadTimeline(data.engineState),
             lastFrameBase64: preloadedBase64,
             loadingStage: incomingStage,
         };
@@ -68,6 +138,20 @@ const TVRoom: React.FC = () => {
   const [isGeneratingGenesis, setIsGeneratingGenesis] = useState(false);
   const [isDragging, setIsDragging] = useState(false);
 
+  // Tapes that declare a world schema get their stats/inventory/flags tracked by the engine
+  const worldSchema = hasWorldSchema(sourceTape?.meta?.worldSchema) ? sourceTape!.meta.worldSchema! : null;
+  const worldAt = (timeline: Timeline, nodeId: string | null): WorldState | null => {
+    return worldSchema ? getWorldStateAt(timeline, nodeId, worldSchema) : null;
+  };
+  const currentWorld = worldAt(gameState.timeline, gameState.timeline.headId);
+  const lorebook = sourceTape?.meta?.lorebook || [];
+  const cast = sourceTape?.meta?.cast || [];
+  const writeInPolicy = getWriteInPolicy(sourceTape?.meta?.writeIns);
+
+  // Pinned facts + chapter summaries + recent beats, trimmed to the token budget
+  const memoryAt = (timeline: Timeline, nodeId: string | null) => buildMemoryContext(timeline, nodeId, settings.memoryTokenBudget);
+  const summaryFailedRef = useRef<string | null>(null);
+
   // Determine if we need to show wizard
   useEffect(() => {
     if (!gameState.currentBeat && !gameState.isLoading && !location.state?.tapeData) {
@@ -84,8 +168,8 @@ const TVRoom: React.FC = () => {
           // 2. Check if Tape has specific style override
           let activeSettings = { ...globalSettings };
           
-          if (location.state && location.state.tapeData) {
-             const meta = (location.state.tapeData as TapeFileSchema).meta;
+          if (sourceTape) {
+             const meta = sourceTape.meta;
              if (meta.visualStyle && ANIMATION_STYLES[meta.visualStyle]) {
                  console.log(`[System] Tape overrides style to: ${meta.visualStyle}`);
                  activeSettings.visualStyle = meta.visualStyle;
@@ -93,11 +177,452 @@ const TVRoom: React.FC = () => {
           }
 
           setSettings(activeSettings);
+
+          // OpenRouter costs come from the registry's live pricing
+          if (activeSettings.narrativeProvider === 'openrouter') fetchOpenRouterModels();
       };
       
       init();
   }, []);
 
+  // --- USAGE ---
+  // Calls are charged to the tape on screen; the loop pauses once it reaches the spend cap
+
+  useEffect(() => {
+      setUsageTape(tapeId);
+      let stale = false;
+      getUsageRecords(tapeId).then(records => { if (!stale) setUsageRecords(records); });
+      const unsubscribe = subscribeToUsage(record => {
+          // A resumed job replaces its earlier record
+          if (record.tapeId === tapeId) setUsageRecords(prev => [...prev.filter(r => r.id !== record.id), record]);
+      });
+      return () => {
+          stale = true;
+          unsubscribe();
+          setUsageTape(null);
+      };
+  }, [tapeId]);
+
+  const tapeSpend = usageRecords.reduce((sum, r) => sum + r.cost, 0);
+  const overSpendCap = settings.spendCap > 0 && tapeSpend >= settings.spendCap;
+
+  useEffect(() => {
+      if (overSpendCap) {
+          console.warn(`[Usage] Spend cap of $${settings.spendCap} reached for this tape. Pausing.`);
+          cancelPreRoll();
+      }
+  }, [overSpendCap]);
+
+  const handleSpendCapChange = async (spendCap: number) => {
+      // Saved globally; the rest of `settings` may carry this tape's style override
+      setSettings(prev => ({ ...prev, spendCap }));
+      await saveSettings({ ...(await getSettings()), spendCap });
+  };
+
+  const handleClearUsage = async () => {
+      await clearUsage(tapeId);
+      setUsageRecords([]);
+  };
+
+  // --- GENERATION JOBS ---
+  // Script and filming calls run as jobs owned by this tape so they can be cancelled together
+
+  const jobOwner = `tv:${tapeId}`;
+
+  useEffect(() => {
+      jobOwnerRef.current = jobOwner;
+      const mine = (all: GenerationJob[]) => all.filter(j => j.owner === jobOwner);
+      setJobs(mine(getJobs()));
+      return subscribeToJobs(all => setJobs(mine(all)));
+  }, [jobOwner]);
+
+  const activeJob = [...jobs].reverse().find(j => j.status === 'running') || null;
+
+  const handleCancelGeneration = () => {
+      console.log("[System] Viewer cancelled generation");
+      cancelJobsFor(jobOwner);
+  };
+
+  // The timeline with a pending job's branch in it: library tapes reopen at their last save, so the
+  // job's parent may only exist in the snapshot it was filed with. Null when it can't be placed.
+  const withPendingBranch = (timeline: Timeline, pending: ResumableJob): Timeline | null => {
+      if (!pending.parentId) return null;
+      if (timeline.nodes[pending.parentId]) return timeline;
+      if (!pending.timeline?.nodes[pending.parentId]) return null;
+      return { ...pending.timeline, nodes: { ...pending.timeline.nodes, ...timeline.nodes }, headId: timeline.headId };
+  };
+
+  // Session tapes aren't in the library, so after a reload the only copy is the one filed with a pending job.
+  // Bring the session back; the effect below then resumes its filming.
+  useEffect(() => {
+      if (location.state?.tapeData) return;
+      getResumableJobs().then(async pending => {
+          const session = pending.filter(j => isSessionTapeId(j.tapeId) && j.parentId && j.timeline?.nodes[j.parentId]).pop();
+          if (!session || resumeCheckedRef.current) return;
+          const parent = session.timeline!.nodes[session.parentId!];
+          const frame = parent.frameRef ? await getFrame(parent.frameRef) : null;
+          if (resumeCheckedRef.current) return;
+
+          console.log(`[Jobs] Restoring session ${session.tapeId} to resume its filming`);
+          setTapeId(session.tapeId);
+          setSourceTape(session.sourceTape || null);
+          setGameState(prev => ({
+              ...prev,
+              currentBeat: parent.beat,
+              lastFrameBase64: frame || prev.lastFrameBase64,
+              timeline: setHead(session.timeline!, parent.id),
+              loadingStage: 'SESSION RESTORED'
+          }));
+          setShowWizard(false);
+          setIsStarted(true);
+      }).catch(e => console.warn("[Jobs] Could not read resumable jobs", e));
+  }, []);
+
+  // Clips that were still filming when the page closed get picked up where they left off.
+  // The newest goes on screen; older ones land on their own branches.
+  useEffect(() => {
+      if (!isStarted || gameState.isLoading || resumeCheckedRef.current) return;
+      resumeCheckedRef.current = true;
+      const opened = gameState.timeline;
+
+      getResumableJobs(tapeId).then(async pending => {
+          const placeable = pending.filter(j => withPendingBranch(opened, j));
+          // Only records whose beat is gone from every copy of the timeline are given up on
+          await Promise.all(pending.filter(j => !placeable.includes(j)).map(j => dropResumableJob(j.jobId)));
+          if (placeable.length === 0) return;
+          const onScreen = placeable[placeable.length - 1];
+
+          setGameState(prev => {
+              const timeline = withPendingBranch(prev.timeline, onScreen) || prev.timeline;
+              return {
+                  ...prev,
+                  currentBeat: timeline.nodes[onScreen.parentId!]?.beat || prev.currentBeat,
+                  isLoading: true,
+                  videoUrl: null,
+                  loadingStage: 'RESUMING FILMING...',
+                  timeline: setHead(timeline, onScreen.parentId!)
+              };
+          });
+
+          await Promise.all(placeable.map(async match => {
+              await dropResumableJob(match.jobId);
+              const { jobId, token, createdAt, ...filming } = match;
+              const shown = match === onScreen;
+
+              console.log(`[Jobs] Resuming ${token.provider} clip for "${match.choice || 'pilot'}"`);
+              try {
+                  const clip = await startJob('video', 'Filming (resumed)', job => resumeVideoClip(token, job), {
+                      owner: jobOwner,
+                      resumable: filming
+                  }).promise;
+                  const beat = { ...match.beat, footage: toBeatFootage(clip) };
+                  setGameState(prev => {
+                      const base = withPendingBranch(prev.timeline, match) || prev.timeline;
+                      const parentWorld = worldAt(base, match.parentId);
+                      const world = worldSchema && parentWorld ? applyStateDelta(parentWorld, beat.stateDelta, worldSchema) : undefined;
+                      const timeline = appendBeat(base, match.parentId, beat, match.choice, world, match.choiceKind).timeline;
+                      if (!shown) {
+                          return { ...prev, timeline: prev.timeline.headId ? setHead(timeline, prev.timeline.headId) : timeline };
+                      }
+                      return {
+                          ...prev,
+                          currentBeat: beat,
+                          videoUrl: clip.url,
+                          isLoading: false,
+                          loadingStage: 'PLAYBACK (RESUMED)',
+                          timeline
+                      };
+                  });
+              } catch (e: any) {
+                  if (!isCancelled(e)) console.warn("[Jobs] Resume failed", e);
+                  if (shown) setGameState(prev => ({ ...prev, isLoading: false, loadingStage: isCancelled(e) ? 'CANCELLED' : 'RESUME FAILED' }));
+              }
+          }));
+      }).catch(e => console.warn("[Jobs] Could not read resumable jobs", e));
+  }, [isStarted, gameState.isLoading, tapeId]);
+
+  // --- CLIP CACHE ---
+
+  // Keep every freshly generated clip; remote links expire
+  useEffect(() => {
+      const headId = gameState.timeline.headId;
+      const url = gameState.videoUrl;
+      if (!headId || !url || isCachedClipUrl(url)) return;
+      hasCachedClip(tapeId, headId).then(cached => {
+          if (!cached) cacheClip(tapeId, headId, url);
+      });
+  }, [gameState.videoUrl]);
+
+  // Nothing playing for this beat (tape just opened, rewound)? Use the cached clip if we have one
+  useEffect(() => {
+      const headId = gameState.timeline.headId;
+      if (!headId || gameState.videoUrl || gameState.isLoading) return;
+      let stale = false;
+      getCachedClipUrl(tapeId, headId).then(url => {
+          if (!url || stale) return;
+          console.log(`[ClipCache] Playing cached clip for ${headId}`);
+          setGameState(prev => (prev.timeline.headId === headId && !prev.videoUrl && !prev.isLoading)
+              ? { ...prev, videoUrl: url }
+              : prev);
+      });
+      return () => { stale = true; };
+  }, [gameState.timeline.headId, gameState.isLoading, tapeId]);
+
+  // --- CONTINUITY ---
+
+  // Once a clip is on screen, find its cleanest closing frame for the next beat to start from
+  useEffect(() => {
+      const headId = gameState.timeline.headId;
+      const url = gameState.videoUrl;
+      if (!headId || !url || gameState.isLoading || continuityRef.current?.nodeId === headId) return;
+      let stale = false;
+      pickBestClipFrame(url).then(best => {
+          if (!best || stale) return;
+          continuityRef.current = { nodeId: headId, ...best };
+          rememberKeyframe(tapeId, headId, best).catch(e => console.warn("[Continuity] Could not store keyframe", e));
+      });
+      return () => { stale = true; };
+  }, [gameState.videoUrl, gameState.isLoading, tapeId]);
+
+  // The sampled clip frame if it's ready; else the live capture, unless that's a blink or a black frame,
+  // in which case the branch's last good keyframe
+  const pickContinuityFrame = async (nodeId: string | null, liveFrame: string | null): Promise<string | null> => {
+      const sampled = continuityRef.current;
+      if (nodeId && sampled?.nodeId === nodeId) return sampled.frame;
+      if (!nodeId) return liveFrame;
+
+      // Unscoreable (tainted canvas) counts as usable; it's what we'd have sent anyway
+      const score = liveFrame ? await scoreStill(liveFrame) : null;
+      if (liveFrame && (!score || score.total >= MIN_USABLE_SCORE)) return liveFrame;
+
+      const keyframe = findBranchKeyframe(await getKeyframes(tapeId), getPath(gameState.timeline, nodeId).map(n => n.id));
+      if (keyframe) console.log(`[Continuity] Live frame unusable; starting from the keyframe of ${keyframe.nodeId}`);
+      return keyframe?.frame || liveFrame;
+  };
+
+  // --- PRE-ROLL ---
+  // While the viewer watches, write the next scene for the choices on screen
+
+  const cancelPreRoll = () => {
+      preRollRef.current?.cancel();
+      preRollRef.current = null;
+      setPreRollProgress(null);
+  };
+
+  useEffect(() => {
+      const headId = gameState.timeline.headId;
+      const beat = gameState.currentBeat;
+      if (!settings.preRollEnabled || !isStarted || gameState.isLoading || !headId || !beat || overSpendCap) return;
+      if (preRollRef.current?.parentId === headId) return;
+
+      const timer = setTimeout(() => {
+          cancelPreRoll();
+
+          // Branches we've already been down don't need writing again
+          const explored = new Set(getChildren(gameState.timeline, headId).map(n => n.choice));
+          const choices = beat.choices.filter(c => !explored.has(c.text));
+          if (choices.length === 0) return;
+
+          const sampled = continuityRef.current?.nodeId === headId ? continuityRef.current.frame : null;
+          const frame = sampled || tapeDeckRef.current?.captureFrame() || gameState.lastFrameBase64;
+          const isPlaceholderImport = gameState.loadingStage === 'CARD IMPORT';
+
+          preRollRef.current = startPreRoll(choices, {
+              parentId: headId,
+              history: getBranchHistory(gameState.timeline, headId),
+              frameBase64: frame,
+              videoFrameBase64: isPlaceholderImport ? null : frame,
+              styleKey: settings.visualStyle,
+              worldState: worldAt(gameState.timeline, headId),
+              memory: memoryAt(gameState.timeline, headId),
+              lorebook,
+              cast,
+              videoModel: settings.videoModel,
+              videoParams: sourceTape?.meta?.videoParams,
+              includeVideo: settings.preRollVideo,
+              budget: settings.preRollBudget,
+              concurrency: settings.preRollConcurrency,
+              jobOwner
+          }, setPreRollProgress);
+          setPreRollProgress(preRollRef.current.progress());
+      }, PRE_ROLL_DELAY_MS);
+
+      return () => clearTimeout(timer);
+  }, [gameState.timeline.headId, gameState.currentBeat, gameState.isLoading, isStarted, settings, overSpendCap]);
+
+  // --- LONG-TERM MEMORY ---
+  // Once a full chapter has scrolled past the recent window, condense it in the background.
+  // Runs again after each chapter lands, so long imported tapes catch up one chapter at a time.
+  useEffect(() => {
+      const headId = gameState.timeline.headId;
+      if (!settings.memoryEnabled || !isStarted || summarizingId || !headId || overSpendCap) return;
+
+      const due = findUnsummarizedChapter(gameState.timeline, headId, settings.memoryChapterSize);
+      if (!due) return;
+      // Don't hammer a failing provider; try again once the branch moves on
+      const attempt = `${due.nodes[0].id}@${headId}`;
+      if (summaryFailedRef.current === attempt) return;
+
+      setSummarizingId(due.nodes[0].id);
+      generateChapterSummary(due.nodes, due.previous)
+          .then(chapter => {
+              console.log(`[Memory] Chapter stored (${chapter.beatCount} beats)`);
+              setGameState(prev => ({ ...prev, timeline: addChapter(prev.timeline, chapter) }));
+          })
+          .catch(e => {
+              console.warn("[Memory] Summary failed, keeping beats verbatim", e);
+              summaryFailedRef.current = attempt;
+          })
+          .finally(() => setSummarizingId(null));
+  }, [gameState.timeline.headId, gameState.timeline.memory, isStarted, summarizingId, settings, overSpendCap]);
+
+  const handlePinnedFactsChange = (facts: string[]) => {
+      setGameState(prev => ({ ...prev, timeline: setPinnedFacts(prev.timeline, facts) }));
+  };
+
+  // --- AUDIENCE VOTING ---
+  const toggleAudience = async () => {
+      if (audience) {
+          closeVoteRoom(audience).catch(e => console.warn("[Vote] Closing room failed", e));
+          setAudience(null);
+          return;
+      }
+      try {
+          setAudience(await createVoteRoom(settings.votingTieBreak));
+      } catch (e: any) {
+          console.error("[Vote] Could not open room", e);
+          alert("Couldn't open an audience room. Voting needs the bundled server (npm start).\n" + e.message);
+      }
+  };
+
+  useEffect(() => {
+      audienceRef.current = audience;
+      voteHeadRef.current = null;
+      voteRoundRef.current = null;
+      setAudienceRoom(null);
+      if (!audience) return;
+      return subscribeToRoom(audience.code, setAudienceRoom, () => setAudience(null), true);
+  }, [audience]);
+
+  // Each beat on screen opens a round; starting a new beat any other way cancels the open one
+  useEffect(() => {
+      if (!audience || !isStarted) return;
+      const headKey = gameState.timeline.headId || 'root';
+
+      if (gameState.isLoading) {
+          if (audienceRoom?.round?.open) {
+              voteRoundRef.current = null;
+              cancelVoteRound(audience).catch(e => console.warn("[Vote] Cancel failed", e));
+          }
+          return;
+      }
+
+      const beat = gameState.currentBeat;
+      if (!beat || beat.choices.length === 0 || voteHeadRef.current === headKey || exportProgress) return;
+      voteHeadRef.current = headKey;
+      openVoteRound(audience, beat.narrative, beat.choices, settings.votingDurationSec, settings.votingTieBreak)
+          .then(({ roundId }) => {
+              voteRoundRef.current = roundId;
+              console.log(`[Vote] Round open for ${settings.votingDurationSec}s`);
+          })
+          .catch(e => console.warn("[Vote] Could not open round", e));
+  }, [audience, isStarted, gameState.timeline.headId, gameState.currentBeat, gameState.isLoading, exportProgress]);
+
+  // Play the audience's pick. Ties left to the host wait for a [PICK] in the panel.
+  useEffect(() => {
+      const round = audienceRoom?.round;
+      if (!round || round.open || !round.result || round.id !== voteRoundRef.current) return;
+      // A write-in is being checked; play the pick once it's refused (or drop it once it's accepted and loading)
+      if (checkingWriteIn) return;
+      voteRoundRef.current = null;
+      if (!round.result.winnerId) return;
+      console.log(`[Vote] Audience chose ${round.result.winnerId} (${round.result.reason}, ${round.totalVotes} votes)`);
+      handleChoice(round.result.winnerId);
+  }, [audienceRoom, checkingWriteIn]);
+
+  // --- NARRATOR ---
+  // Reads the beat on screen aloud; a new beat, a reload or leaving the room cuts it off
+  useEffect(() => {
+      const beat = gameState.currentBeat;
+      if (!settings.narratorEnabled || !isStarted || gameState.isLoading || !beat || exportProgress) return;
+
+      const controller = new AbortController();
+      setIsNarrating(true);
+      speakNarration(beat.narrative, sourceTape?.meta?.narrator, controller.signal)
+          .catch(e => console.warn("[Narrator] Could not read the beat", e))
+          .finally(() => {
+              if (!controller.signal.aborted) setIsNarrating(false);
+          });
+      return () => {
+          controller.abort();
+          setIsNarrating(false);
+      };
+  }, [settings.narratorEnabled, isStarted, gameState.currentBeat, gameState.isLoading, exportProgress]);
+
+  const toggleNarrator = async () => {
+      const narratorEnabled = !settings.narratorEnabled;
+      setSettings(prev => ({ ...prev, narratorEnabled }));
+      await saveSettings({ ...(await getSettings()), narratorEnabled });
+  };
+
+  // --- SOUNDTRACK ---
+  // Music and ambience follow the beat's mood (or the tape's pinned beds) and crossfade as it changes
+  const tapeSoundtrack = sourceTape?.meta?.soundtrack;
+  const soundtrackMood = resolveMood(gameState.currentBeat?.mood, tapeSoundtrack?.mood, getShowThemes(gameState.timeline));
+
+  useEffect(() => {
+      listBeds().then(setSoundBeds).catch(e => console.warn("[Soundtrack] Could not read beds", e));
+  }, []);
+
+  useEffect(() => {
+      if (!settings.soundtrackEnabled || !isStarted || soundBeds.length === 0) {
+          soundtrackRef.current?.close();
+          soundtrackRef.current = null;
+          return;
+      }
+      if (!soundtrackRef.current) {
+          soundtrackRef.current = createSoundtrackPlayer();
+      }
+      const player = soundtrackRef.current;
+      player.play('music', pickBed(soundBeds, 'music', soundtrackMood, tapeSoundtrack?.music));
+      player.play('ambience', pickBed(soundBeds, 'ambience', soundtrackMood, tapeSoundtrack?.ambience));
+  }, [settings.soundtrackEnabled, isStarted, soundBeds, soundtrackMood, tapeSoundtrack]);
+
+  useEffect(() => {
+      soundtrackRef.current?.setVolume('music', settings.musicVolume);
+      soundtrackRef.current?.setVolume('ambience', settings.ambienceVolume);
+      soundtrackRef.current?.setDucked(isNarrating);
+  }, [settings.soundtrackEnabled, isStarted, soundBeds, settings.musicVolume, settings.ambienceVolume, isNarrating]);
+
+  const toggleSoundtrack = async () => {
+      const soundtrackEnabled = !settings.soundtrackEnabled;
+      setSettings(prev => ({ ...prev, soundtrackEnabled }));
+      await saveSettings({ ...(await getSettings()), soundtrackEnabled });
+  };
+
+  // Stop background work when leaving the room; filming jobs are detached so they can resume next time
+  useEffect(() => {
+      return () => {
+          preRollRef.current?.cancel();
+          cancelJobsFor(jobOwnerRef.current, 'detach');
+          soundtrackRef.current?.close();
+          if (audienceRef.current) closeVoteRoom(audienceRef.current).catch(() => {});
+      };
+  }, []);
+
+  // Hands over pre-rolled work for the pick (if any) and stops the rest
+  const claimPreRoll = (choiceText: string | null, parentId: string | null): { pending: Promise<PreRollTake> | null; alternates: PreRollTake[] } => {
+      const session = preRollRef.current;
+      if (!session || !choiceText || session.parentId !== parentId) {
+          cancelPreRoll();
+          return { pending: null, alternates: [] };
+      }
+      const pending = session.take(choiceText);
+      const alternates = settings.preRollKeepAlternates ? session.readyAlternates(choiceText) : [];
+      cancelPreRoll();
+      return { pending, alternates };
+  };
+
   const backToLobby = () => {
       navigate('/');
   };
@@ -105,39 +630,51 @@ const TVRoom: React.FC = () => {
   const handleGenesisSubmit = async (params: { name: string; desc: string; setting: string; themes: string[] }) => {
     setIsGeneratingGenesis(true);
     try {
-      const genesisBeat = await generateGenesisBeat(params);
-      const genesisContext = [
-        `SERIES CONTEXT:\nCharacter: ${params.name}\nPersonality/Description: ${params.desc}\nSetting: ${params.setting}\nThemes: ${params.themes.join(', ')}`,
-        genesisBeat.narrative
-      ];
+      const genesisBeat = await startJob('text', 'Pilot script', () => generateGenesisBeat(params), { owner: jobOwner }).promise;
+      const genesisContext = `SERIES CONTEXT:\nCharacter: ${params.name}\nPersonality/Description: ${params.desc}\nSetting: ${params.setting}\nThemes: ${params.themes.join(', ')}`;
+      const { timeline: pilotTimeline, nodeId: pilotId } = appendBeat(createTimeline([genesisContext]), null, genesisBeat, null);
 
       setGameState(prev => ({
         ...prev,
         loadingStage: `FILMING PILOT (${settings.visualStyle.toUpperCase()})...`,
-        history: genesisContext,
+        timeline: pilotTimeline,
         isLoading: true
       }));
 
       // Generate the first video clip
       // Note: We don't have a previous frame for the very first clip of a new show.
-      const videoUrl = await generateVideoClip(
+      const clip = await startJob('video', 'Filming pilot', job => generateVideoClip(
           genesisBeat.visualPrompt, 
           null, 
           settings.visualStyle, 
-          settings.videoModel
-      );
+          settings.videoModel,
+          [],
+          job,
+          sourceTape?.meta?.videoParams
+      ), { owner: jobOwner }).promise;
 
-      setGameState(prev => ({
-        ...prev,
-        currentBeat: genesisBeat,
-        videoUrl: videoUrl,
-        isLoading: false,
-        loadingStage: 'PLAYBACK',
-      }));
+      const stillRef = clip.still ? storeStill(clip.still) : null;
+      const footage = { ...toBeatFootage(clip), ...(stillRef ? { stillRef } : {}) };
+      setGameState(prev => {
+        const timeline = setNodeFootage(prev.timeline, pilotId, footage);
+        return {
+          ...prev,
+          currentBeat: { ...genesisBeat, footage },
+          videoUrl: clip.url,
+          lastFrameBase64: clip.still || prev.lastFrameBase64,
+          isLoading: false,
+          loadingStage: getFootageStatus(clip),
+          timeline: stillRef ? setNodeFrame(timeline, pilotId, stillRef) : timeline
+        };
+      });
       
       setIsStarted(true);
       setShowWizard(false);
     } catch (error: any) {
+      if (isCancelled(error)) {
+        setGameState(prev => ({ ...prev, loadingStage: 'CANCELLED', isLoading: false }));
+        return;
+      }
       console.error("Genesis Error:", error);
       alert("Failed to initialize tape: " + error.message);
       setGameState(prev => ({ ...prev, loadingStage: 'INIT_FAILED', isLoading: false }));
@@ -146,21 +683,34 @@ const TVRoom: React.FC = () => {
     }
   };
 
-  const runLoop = async (choiceText: string | null) => {
+  const runLoop = async (choiceText: string | null, choiceKind: ChoiceKind = 'menu') => {
     if (gameState.isLoading) return;
+    if (overSpendCap) {
+      setGameState(prev => ({ ...prev, loadingStage: 'PAUSED: SPEND CAP REACHED' }));
+      setShowDebug(true);
+      return;
+    }
 
     // Detect if this is the very first run from a JSON import (placeholder image)
     const isPlaceholderImport = gameState.loadingStage === 'CARD IMPORT';
 
+    // New beats always branch from the node currently on screen
+    const parentId = gameState.timeline.headId;
+    // Cancelling puts the scene we were watching back on screen
+    const previousVideoUrl = gameState.videoUrl;
+    const parentWorld = worldAt(gameState.timeline, parentId);
+    // Engine-side bookkeeping: the model proposes a delta, we apply it to the parent's world
+    const worldAfter = (beat: StoryBeat): WorldState | undefined => {
+      return worldSchema && parentWorld ? applyStateDelta(parentWorld, beat.stateDelta, worldSchema) : undefined;
+    };
+
     try {
       let capturedFrame = gameState.lastFrameBase64;
       
       // Capture the frame BEFORE we switch to static
-      if (choiceText && tapeDeckRef.current) {
-         const frame = tapeDeckRef.current.captureFrame();
-         if (frame) {
-             capturedFrame = frame;
-         }
+      const liveFrame = choiceText ? tapeDeckRef.current?.captureFrame() || null : null;
+      if (liveFrame) {
+          capturedFrame = liveFrame;
       }
 
       // Start Loading: Show Static, Hide old beat
@@ -173,58 +723,174 @@ const TVRoom: React.FC = () => {
         loadingStage: 'WRITING SCRIPT...' 
       }));
 
-      // 1. Generate Text
-      // We pass the style so the text model knows to describe things as "A claymation figure..."
-      const nextBeat: StoryBeat = await generateStoryBeat(
-        gameState.history,
-        choiceText,
-        capturedFrame,
-        settings.visualStyle
-      );
+      // The next clip starts from a clean frame, not whatever was on screen at the click
+      if (choiceText) {
+          capturedFrame = (await pickContinuityFrame(parentId, liveFrame)) || capturedFrame;
+      }
 
-      setGameState(prev => ({ 
-        ...prev, 
-        // NOTE: We do NOT update currentBeat yet to prevent spoilers
-        loadingStage: `FILMING SCENE (${settings.visualStyle.toUpperCase()})...`,
-      }));
+      // Remember what the parent beat looked like so we can rewind to it later
+      if (parentId && capturedFrame) {
+          rememberFrame(parentId, capturedFrame);
+      }
+
+      // Been down this branch before and still have the footage? Replay it for free.
+      const explored = choiceText && parentId
+          ? getChildren(gameState.timeline, parentId).find(n => n.choice === choiceText)
+          : undefined;
+      const replayUrl = explored ? await getCachedClipUrl(tapeId, explored.id) : null;
+      // Slideshow beats are replayed from their painted still, not the continuity frame kept on the node
+      const replayStill = explored && !replayUrl && explored.beat.footage?.kind === 'stills' && explored.beat.footage.stillRef
+          ? await getFrame(explored.beat.footage.stillRef)
+          : null;
+      if (explored && (replayUrl || replayStill)) {
+          console.log(`[ClipCache] Replaying explored branch ${explored.id}`);
+          cancelPreRoll();
+          setGameState(prev => ({
+            ...prev,
+            currentBeat: explored.beat,
+            videoUrl: replayUrl,
+            lastFrameBase64: replayStill || prev.lastFrameBase64,
+            isLoading: false,
+            loadingStage: 'PLAYBACK (CACHED)',
+            timeline: setHead(prev.timeline, explored.id)
+          }));
+          return;
+      }
+      // Explored but the footage is gone: film the beat we already wrote instead of adding a second take
+      const refilm = explored ? { ...explored.beat, footage: undefined } : null;
 
+      // 0. Pre-roll may already have this branch written (and filmed)
+      // Pre-roll only ever writes menu choices
+      const { pending, alternates } = claimPreRoll(choiceKind === 'menu' ? choiceText : null, parentId);
+      let nextBeat: StoryBeat | null = refilm;
       let newVideoUrl: string | null = null;
+      let newStill: string | null = null;
       let status = 'PLAYBACK';
+      let needsVideo = true;
 
-      // 2. Generate Video
-      try {
-          // If it's a placeholder import (text image), we pass NULL as the image
-          // This forces Veo to generate the video from scratch using the (now styled) prompt,
-          // effectively creating the claymation style instead of trying to animate the text image.
-          const imageToUse = isPlaceholderImport ? null : capturedFrame;
-
-          newVideoUrl = await generateVideoClip(
-              nextBeat.visualPrompt, 
-              imageToUse,
-              settings.visualStyle, 
-              settings.videoModel
-          );
-      } catch (vidError: any) {
-          // Handle OpenRouter limitation gracefully
-          if (vidError.message === "VIDEO_GEN_UNSUPPORTED_PROVIDER") {
-              console.warn("Video generation skipped due to OpenRouter provider");
-              status = 'TEXT-ONLY MODE (OPENROUTER)';
-          } else {
-              throw vidError; // Re-throw real errors
+      if (pending) {
+          setGameState(prev => ({ ...prev, loadingStage: 'CUEING PRE-ROLL...' }));
+          try {
+              const take = await pending;
+              nextBeat = take.beat;
+              if (take.status !== 'NEEDS VIDEO') {
+                  newVideoUrl = take.videoUrl;
+                  newStill = take.still;
+                  status = take.status;
+                  needsVideo = false;
+              }
+              console.log(`[PreRoll] Using pre-rolled branch for "${choiceText}"`);
+          } catch (e) {
+              if (isCancelled(e)) throw e;
+              console.warn("[PreRoll] Pre-rolled branch failed, generating live", e);
           }
       }
 
+      // 1. Generate Text
+      // We pass the style so the text model knows to describe things as "A claymation figure..."
+      if (!nextBeat) {
+          nextBeat = await startJob('text', 'Writing script', job => generateStoryBeat(
+            getBranchHistory(gameState.timeline, parentId),
+            choiceText,
+            capturedFrame,
+            settings.visualStyle,
+            parentWorld,
+            memoryAt(gameState.timeline, parentId),
+            lorebook,
+            cast,
+            choiceKind,
+            job.signal
+          ), { owner: jobOwner }).promise;
+      }
+
+      // 2. Generate Video
+      if (needsVideo) {
+        setGameState(prev => ({ 
+          ...prev, 
+          // NOTE: We do NOT update currentBeat yet to prevent spoilers
+          loadingStage: `FILMING SCENE (${settings.visualStyle.toUpperCase()})...`,
+        }));
+
+        try {
+            // If it's a placeholder import (text image), we pass NULL as the image
+            // This forces Veo to generate the video from scratch using the (now styled) prompt,
+            // effectively creating the claymation style instead of trying to animate the text image.
+            const imageToUse = isPlaceholderImport ? null : capturedFrame;
+            // Cast members in the beat get their looks written into the shot (and their reference sheets attached)
+            const shot = buildShot(nextBeat, cast);
+            const beatToFilm = nextBeat;
+
+            const clip = await startJob('video', 'Filming scene', job => generateVideoClip(
+                shot.prompt, 
+                imageToUse,
+                settings.visualStyle, 
+                settings.videoModel,
+                shot.references,
+                job,
+                sourceTape?.meta?.videoParams
+            ), {
+                owner: jobOwner,
+                resumable: {
+                    tapeId, parentId, choice: choiceText, choiceKind, beat: beatToFilm,
+                    timeline: gameState.timeline,
+                    ...(isSessionTapeId(tapeId) ? { sourceTape } : {})
+                }
+            }).promise;
+            newVideoUrl = clip.url;
+            newStill = clip.still || null;
+            status = getFootageStatus(clip);
+            nextBeat = { ...nextBeat, footage: toBeatFootage(clip) };
+        } catch (vidError: any) {
+            // A chain without a stills step can run out of providers that film anything
+            if (vidError.message === "VIDEO_GEN_UNSUPPORTED_PROVIDER") {
+                console.warn("Video generation skipped: no provider in the chain returned a clip");
+                status = 'TEXT-ONLY MODE (NO VIDEO)';
+            } else {
+                throw vidError; // Re-throw real errors
+            }
+        }
+      }
+
       // 3. Reveal Everything (Text + Video) at once
-      setGameState(prev => ({
-        ...prev,
-        currentBeat: nextBeat, // Now safe to show narrative
-        videoUrl: newVideoUrl,
-        isLoading: false,
-        loadingStage: status,
-        history: [...prev.history, nextBeat.narrative]
-      }));
+      const revealedStill = newStill;
+      const stillRef = revealedStill ? storeStill(revealedStill) : null;
+      const revealedBeat = withStill(nextBeat, stillRef);
+      const alternateStillRefs = alternates.map(alt => alt.still ? storeStill(alt.still) : null);
+      // Their clips are already paid for; cache them under the nodes they're about to get
+      const alternateIds = alternates.map(alt => {
+        const nodeId = createNodeId();
+        if (alt.videoUrl) cacheClip(tapeId, nodeId, alt.videoUrl);
+        return nodeId;
+      });
+      setGameState(prev => {
+        // Unpicked pre-rolls become unexplored siblings; the pick is appended last so it becomes the head
+        let timeline = prev.timeline;
+        alternates.forEach((alt, i) => {
+          const altStillRef = alternateStillRefs[i];
+          const appended = appendBeat(timeline, parentId, withStill(alt.beat, altStillRef), alt.choice, worldAfter(alt.beat), 'menu', alternateIds[i]);
+          timeline = altStillRef ? setNodeFrame(appended.timeline, appended.nodeId, altStillRef) : appended.timeline;
+        });
+        const picked = explored
+          ? { timeline: setHead(setNodeFootage(timeline, explored.id, revealedBeat.footage), explored.id), nodeId: explored.id }
+          : appendBeat(timeline, parentId, revealedBeat, choiceText, worldAfter(revealedBeat), choiceKind);
+        return {
+          ...prev,
+          currentBeat: revealedBeat, // Now safe to show narrative
+          videoUrl: newVideoUrl,
+          // A slideshow still is both what's on screen and the frame the next beat continues from
+          lastFrameBase64: revealedStill || prev.lastFrameBase64,
+          isLoading: false,
+          loadingStage: status,
+          timeline: stillRef ? setNodeFrame(picked.timeline, picked.nodeId, stillRef) : picked.timeline
+        };
+      });
 
     } catch (error: any) {
+      if (isCancelled(error)) {
+        console.log("[System] Scene cancelled");
+        setGameState(prev => ({ ...prev, isLoading: false, videoUrl: previousVideoUrl, loadingStage: 'CANCELLED' }));
+        return;
+      }
       console.error("Loop Error:", error);
       
       let statusMsg = 'SIGNAL LOST';
@@ -250,18 +916,121 @@ const TVRoom: React.FC = () => {
     }
   };
 
+  // Slideshow stills are stored once and referenced from the beat's footage (replay and episode export read
+  // them there). The node's frame starts out as the still too, but continuity may replace it later.
+  const storeStill = (still: string): string => {
+    const frameRef = `still_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+    saveFrame(frameRef, still).catch(e => console.warn("[Timeline] Failed to store still", e));
+    return frameRef;
+  };
+
+  // What an episode shows for a beat without a clip: the painted still, else the last frame we kept
+  const frameForScene = (node: TimelineNode): Promise<string | null> => {
+    const ref = node.beat.footage?.stillRef || node.frameRef;
+    return ref ? getFrame(ref) : Promise.resolve(null);
+  };
+
+  const withStill = (beat: StoryBeat, stillRef: string | null): StoryBeat => {
+    return stillRef && beat.footage ? { ...beat, footage: { ...beat.footage, stillRef } } : beat;
+  };
+
+  // Stores a still for a timeline node so rewinding can show where we were
+  const rememberFrame = (nodeId: string, frame: string) => {
+    saveFrame(nodeId, frame).catch(e => console.warn("[Timeline] Failed to store frame", e));
+    setGameState(prev => ({ ...prev, timeline: setNodeFrame(prev.timeline, nodeId, nodeId) }));
+  };
+
+  const handleRewind = async (nodeId: string) => {
+    if (gameState.isLoading) return;
+    const target = gameState.timeline.nodes[nodeId];
+    if (!target) return;
+
+    // Capture the beat we're leaving so it can be revisited too
+    const headId = gameState.timeline.headId;
+    const leavingFrame = tapeDeckRef.current?.captureFrame();
+    if (headId && leavingFrame) {
+        rememberFrame(headId, leavingFrame);
+    }
+
+    // Show the closest still we have for the target branch
+    let frame: string | null = null;
+    for (const node of getPath(gameState.timeline, nodeId).reverse()) {
+        if (node.frameRef) {
+            frame = await getFrame(node.frameRef);
+            if (frame) break;
+        }
+    }
+
+    console.log(`[Timeline] Rewinding to ${nodeId}`);
+    cancelPreRoll();
+    setGameState(prev => ({
+      ...prev,
+      timeline: setHead(prev.timeline, nodeId),
+      currentBeat: target.beat,
+      videoUrl: null,
+      lastFrameBase64: frame || prev.lastFrameBase64,
+      loadingStage: 'REWOUND - READY'
+    }));
+    setShowTimeline(false);
+  };
+
   const handleStart = () => {
     setIsStarted(true);
     // If we already have a loaded tape, just resume playback/interaction state
   };
 
   const handleChoice = (choiceId: string) => {
+    if (checkingWriteInRef.current) {
+      console.log("[WriteIn] Still checking a write-in; ignoring pick");
+      return;
+    }
     const choice = gameState.currentBeat?.choices.find(c => c.id === choiceId);
     if (choice) {
+      setWriteInError(null);
       runLoop(choice.text);
     }
   };
 
+  // Typed actions: tape policy first, then (optionally) the script writer vets it against the rules
+  const handleWriteIn = async (text: string): Promise<boolean> => {
+    if (gameState.isLoading || checkingWriteInRef.current) return false;
+    const check = checkWriteIn(text, writeInPolicy);
+    if (!check.ok) {
+      setWriteInError(check.reason);
+      return false;
+    }
+
+    checkingWriteInRef.current = true;
+    setCheckingWriteIn(true);
+    try {
+      if (settings.writeInModeration) {
+        setGameState(prev => ({ ...prev, loadingStage: 'CHECKING WRITE-IN...' }));
+        try {
+          const verdict = await moderateWriteIn(check.action, sourceTape?.meta?.gameRules || null);
+          if (!verdict.allowed) {
+            setWriteInError(verdict.reason);
+            setGameState(prev => ({ ...prev, loadingStage: 'WRITE-IN REFUSED' }));
+            return false;
+          }
+        } catch (e) {
+          console.warn("[WriteIn] Moderation failed", e);
+          setWriteInError("Couldn't check that action right now. Try again or pick from the menu.");
+          setGameState(prev => ({ ...prev, loadingStage: 'PLAYBACK' }));
+          return false;
+        }
+      }
+
+      console.log(`[WriteIn] Viewer action: "${check.action}"`);
+      setWriteInError(null);
+      // runLoop marks the TV as loading before its first await, so the guard can drop right after
+      runLoop(check.action, 'write-in');
+      return true;
+    } finally {
+      checkingWriteInRef.current = false;
+      setCheckingWriteIn(false);
+    }
+  };
+
   const handleEject = async () => {
     let currentFrameBase64 = tapeDeckRef.current?.captureFrame();
     // If capturing from static or loading, fallback to last known good frame
@@ -277,16 +1046,21 @@ const TVRoom: React.FC = () => {
     try {
       const imageBlob = base64ToBlob(currentFrameBase64);
       const saveState: TapeFileSchema = {
+        ...sourceTape,
         meta: {
-          version: "1.1",
-          characterName: (location.state?.tapeData as TapeFileSchema)?.meta?.characterName || "Viewer Agent",
+          ...sourceTape?.meta,
+          version: CURRENT_TAPE_VERSION,
+          characterName: sourceTape?.meta?.characterName || "Viewer Agent",
           createdAt: new Date().toISOString(),
           visualStyle: settings.visualStyle
         },
         engineState: {
-          history: gameState.history,
+          ...sourceTape?.engineState,
+          history: getBranchHistory(gameState.timeline),
+          timeline: gameState.timeline,
           currentBeat: gameState.currentBeat,
-          loadingStage: "USER SAVE"
+          loadingStage: "USER SAVE",
+          worldState: currentWorld || undefined
         }
       };
       
@@ -297,12 +1071,77 @@ const TVRoom: React.FC = () => {
       a.download = `${saveState.meta.characterName.replace(/\s+/g, '_')}_${Date.now()}.png`;
       a.click();
       URL.revokeObjectURL(url);
+
+      // Library tapes are updated in place so their cached footage lines up with the saved timeline
+      if (location.state?.tapeId === tapeId) {
+        await saveTapeToLibrary({
+          id: tapeId,
+          characterName: saveState.meta.characterName,
+          timestamp: Date.now(),
+          imgBase64: currentFrameBase64,
+          data: saveState
+        });
+        console.log(`[Library] Updated ${tapeId}`);
+      }
     } catch (e) {
       console.error("Eject failed", e);
       alert("Failed to eject tape.");
     }
   };
 
+  // Records the active branch (title card + every beat's clip or still) into one video with subtitles
+  const handleExportEpisode = async () => {
+    if (gameState.isLoading || exportProgress) return;
+    const path = getPath(gameState.timeline);
+    if (path.length === 0) {
+      alert("Nothing recorded yet.");
+      return;
+    }
+
+    const narrate = settings.narratorEnabled && canRecordNarration(settings);
+    if (settings.narratorEnabled && !narrate
+        && !confirm("The browser voice can't be recorded, so this episode will have subtitles but no narration. Pick a cloud narrator under SYSTEM → Narrator to include it.\n\nExport without narration?")) {
+      return;
+    }
+
+    setExportProgress('PREPARING');
+    try {
+      // One beat at a time: a long tape fired at a paid voice all at once just gets rate-limited into silence
+      const scenes: EpisodeScene[] = [];
+      for (const node of path) {
+        if (narrate) setExportProgress(`NARRATING ${scenes.length + 1}/${path.length}`);
+        scenes.push({
+          narrative: node.beat.narrative,
+          clipUrl: (await getCachedClipUrl(tapeId, node.id)) || (node.id === gameState.timeline.headId ? gameState.videoUrl : null),
+          stillBase64: await frameForScene(node),
+          narrationAudio: narrate
+            ? await synthesizeNarration(node.beat.narrative, sourceTape?.meta?.narrator).catch(e => {
+                console.warn("[Episode] Narration failed for a scene; it will be silent", e);
+                return null;
+              })
+            : null
+        });
+      }
+
+      const title = sourceTape?.meta?.characterName || "Viewer Agent";
+      const { video, extension, vtt } = await exportEpisode({
+        title,
+        coverBase64: location.state?.tapeImgBase64 || gameState.lastFrameBase64,
+        scenes,
+        onProgress: (scene, total) => setExportProgress(`${scene}/${total}`)
+      });
+
+      const baseName = `${title.replace(/\s+/g, '_')}_EPISODE_${Date.now()}`;
+      downloadBlob(video, `${baseName}.${extension}`);
+      downloadBlob(new Blob([vtt], { type: 'text/vtt' }), `${baseName}.vtt`);
+    } catch (e: any) {
+      console.error("[Episode] Export failed", e);
+      alert(`Episode export failed: ${e.message}`);
+    } finally {
+      setExportProgress(null);
+    }
+  };
+
   const onDragOver = (e: DragEvent) => {
     e.preventDefault();
     setIsDragging(true);
@@ -323,19 +1162,28 @@ const TVRoom: React.FC = () => {
         setGameState(prev => ({ ...prev, isLoading: true, loadingStage: 'READING TAPE...' }));
         const { state: rawData, imgUrl } = await readTapeData(file);
         
-        let loadedState;
-        let tapeMeta;
-
-        if ('engineState' in rawData) {
-          const schema = rawData as TapeFileSchema;
-          loadedState = schema.engineState;
-          tapeMeta = schema.meta;
-        } else {
-          loadedState = rawData;
+        // Bare engine states (no meta) predate versioning, so they enter the pipeline as v1.0
+        const validation = validateTape('engineState' in rawData
+          ? rawData
+          : { meta: { version: "1.0", characterName: "Viewer Agent" }, engineState: rawData });
+
+        if (!validation.ok || !validation.tape) {
+          const problems = validation.issues.filter(i => !i.repaired).map(formatIssue);
+          console.error("[Tape] Validation failed:", validation.issues);
+          alert(`Invalid Tape Card:\n${problems.slice(0, 8).join('\n')}`);
+          setGameState(prev => ({ ...prev, isLoading: false, loadingStage: 'READ ERROR' }));
+          return;
         }
+        if (validation.issues.length > 0) {
+          console.warn("[Tape] Repaired on load:", validation.issues.map(formatIssue));
+        }
+
+        const tape = migrateTape(validation.tape);
+        const loadedState = tape.engineState;
+        const tapeMeta = tape.meta;
 
         // Apply Tape Style if present
-        if (tapeMeta && tapeMeta.visualStyle && ANIMATION_STYLES[tapeMeta.visualStyle]) {
+        if (tapeMeta.visualStyle && ANIMATION_STYLES[tapeMeta.visualStyle]) {
             console.log(`[System] Dropped tape overrides style to: ${tapeMeta.visualStyle}`);
             setSettings(prev => ({ ...prev, visualStyle: tapeMeta.visualStyle! }));
         }
@@ -350,17 +1198,20 @@ const TVRoom: React.FC = () => {
             videoUrl: null, 
             currentBeat: loadedState.currentBeat,
             lastFrameBase64: base64,
-            history: loadedState.history || [],
+            timeline: loadTimeline(loadedState),
             isLoading: false,
             loadingStage: 'TAPE LOADED - READY'
           });
+          cancelPreRoll();
+          setTapeId(createSessionTapeId());
+          setSourceTape(tape);
           setIsStarted(true);
           setShowWizard(false); // Hide wizard if dropped
         };
 
-      } catch (err) {
+      } catch (err: any) {
         console.error(err);
-        alert("Invalid Tape Card.");
+        alert(err.message?.startsWith(UNSUPPORTED_VERSION_PREFIX) ? err.message : "Invalid Tape Card.");
         setGameState(prev => ({ ...prev, isLoading: false, loadingStage: 'READ ERROR' }));
       }
     }
@@ -368,14 +1219,15 @@ const TVRoom: React.FC = () => {
 
   const getStatusColor = () => {
       if (gameState.loadingStage.startsWith('ERR')) return 'text-red-500 animate-pulse';
+      if (gameState.loadingStage.startsWith('PAUSED')) return 'text-red-500';
       if (gameState.loadingStage.includes('MODE')) return 'text-green-400';
-      if (gameState.loadingStage === 'TAPE LOADED - READY') return 'text-green-500';
+      if (gameState.loadingStage === 'TAPE LOADED - READY' || gameState.loadingStage === 'REWOUND - READY') return 'text-green-500';
       if (gameState.isLoading) return 'text-yellow-500';
       return 'text-gray-500';
   };
 
   const getStatusText = () => {
-      if (gameState.isLoading) return `STATUS: ${gameState.loadingStage}`;
+      if (gameState.isLoading) return `STATUS: ${gameState.loadingStage}${activeJob?.progress ? ` ${activeJob.progress}` : ''}`;
       if (gameState.loadingStage.startsWith('ERR')) return gameState.loadingStage;
       if (gameState.loadingStage.includes('MODE')) return `STATUS: ${gameState.loadingStage}`;
       if (gameState.loadingStage !== 'IDLE' && gameState.loadingStage !== 'PLAYBACK') {
@@ -409,10 +1261,23 @@ const TVRoom: React.FC = () => {
           <div className="flex gap-4 items-center">
               <div className={`w-2 h-2 rounded-full ${gameState.loadingStage.startsWith('ERR') ? 'bg-red-600 animate-ping' : 'bg-red-600 animate-pulse'}`}></div>
               <button onClick={() => setShowDebug(!showDebug)} className="hover:text-green-400 hover:underline cursor-pointer">CH: 03</button>
+              <button onClick={() => setShowTimeline(!showTimeline)} className="hover:text-green-400 hover:underline cursor-pointer">TREE: {Object.keys(gameState.timeline.nodes).length}</button>
+              <button onClick={() => setShowMemory(!showMemory)} className={`hover:text-green-400 hover:underline cursor-pointer ${summarizingId ? 'text-yellow-600 animate-pulse' : ''}`}>MEM: {gameState.timeline.memory?.chapters.length || 0}</button>
+              <button onClick={toggleAudience} className={`hover:text-green-400 hover:underline cursor-pointer ${audience ? 'text-green-400' : ''}`}>AUDIENCE: {audience ? audience.code : 'OFF'}</button>
+              <button onClick={toggleNarrator} className={`hover:text-green-400 hover:underline cursor-pointer ${isNarrating ? 'text-green-400 animate-pulse' : ''}`}>VOICE: {settings.narratorEnabled ? 'ON' : 'OFF'}</button>
+              <button onClick={toggleSoundtrack} className="hover:text-green-400 hover:underline cursor-pointer">MUSIC: {settings.soundtrackEnabled ? soundtrackMood.toUpperCase() : 'OFF'}</button>
               <span className="text-green-900">STYLE: {settings.visualStyle.replace('_', ' ').toUpperCase()}</span>
+              {preRollProgress && preRollProgress.total > 0 && (
+                  <span className={preRollProgress.ready > 0 ? 'text-green-500' : 'text-green-900'}>PRE-ROLL: {preRollProgress.ready}/{preRollProgress.total}</span>
+              )}
           </div>
-          <span className={getStatusColor()}>
-              {getStatusText()}
+          <span className="flex gap-2 items-center">
+              <span className={exportProgress ? 'text-yellow-500 animate-pulse' : getStatusColor()}>
+                  {exportProgress ? `STATUS: EXPORTING EPISODE ${exportProgress}` : getStatusText()}
+              </span>
+              {gameState.isLoading && activeJob && (
+                  <button onClick={handleCancelGeneration} className="text-red-600 hover:text-red-400 cursor-pointer">[CANCEL]</button>
+              )}
           </span>
           <span>REC: {new Date().toLocaleTimeString()}</span>
         </div>
@@ -425,8 +1290,15 @@ const TVRoom: React.FC = () => {
           isProcessing={gameState.isLoading}
           onEnded={() => {}}
           loop={true}
+          ducked={isNarrating}
+          slideshow={settings.renderMode === 'slideshow' || gameState.currentBeat?.footage?.kind === 'stills'}
         />
 
+        {/* World State HUD */}
+        {worldSchema && currentWorld && !showDebug && (
+          <WorldStateHud schema={worldSchema} state={currentWorld} />
+        )}
+
         {/* Narrative Text */}
         <NarrativeLog 
           text={displayedNarrative} 
@@ -451,7 +1323,28 @@ const TVRoom: React.FC = () => {
                       <p>Loading: <span className={gameState.isLoading ? "text-yellow-500" : "text-gray-500"}>{String(gameState.isLoading)}</span></p>
                       <p>Stage: {gameState.loadingStage}</p>
                       <p>Video URL: <span className="break-all">{gameState.videoUrl || 'NULL'}</span></p>
-                      <p>History Length: {gameState.history.length}</p>
+                      <p>Branch Length: {getPath(gameState.timeline).length}</p>
+                      <p>Timeline Nodes: {Object.keys(gameState.timeline.nodes).length}</p>
+                      <p>World: {currentWorld ? JSON.stringify(currentWorld) : 'UNTRACKED'}</p>
+                      <p>Continuity: {continuityRef.current?.nodeId === gameState.timeline.headId ? `SAMPLED (${continuityRef.current.score.total.toFixed(2)})` : 'LIVE CAPTURE'}</p>
+                      <p>Pre-Roll: {preRollProgress ? `${preRollProgress.ready} ready / ${preRollProgress.running} running / ${preRollProgress.total}` : 'OFF'}</p>
+                    </div>
+                    <h4 className="text-gray-500 mt-4 mb-1">JOBS</h4>
+                    <div className="bg-[#0a0a0a] p-2 border border-gray-800 space-y-1">
+                      {jobs.length === 0 && <p className="text-gray-600">None yet</p>}
+                      {jobs.slice(-6).reverse().map(job => (
+                        <p key={job.id} className={job.status === 'running' ? 'text-yellow-500' : job.status === 'failed' ? 'text-red-900' : 'text-gray-600'}>
+                          {job.label}: {job.status.toUpperCase()}{job.progress && job.status === 'running' ? ` (${job.progress})` : ''}{job.error ? ` - ${job.error.substring(0, 40)}` : ''}
+                        </p>
+                      ))}
+                    </div>
+                    <div className="mt-4">
+                      <UsagePanel
+                        records={usageRecords}
+                        spendCap={settings.spendCap}
+                        onSpendCapChange={handleSpendCapChange}
+                        onClear={handleClearUsage}
+                      />
                     </div>
                     <h4 className="text-gray-500 mt-4 mb-1">LAST CAPTURED FRAME</h4>
                     {gameState.lastFrameBase64 && (
@@ -462,6 +1355,37 @@ const TVRoom: React.FC = () => {
            </div>
         )}
 
+        {/* Timeline Overlay */}
+        {showTimeline && (
+           <TimelineTree
+              timeline={gameState.timeline}
+              onSelect={handleRewind}
+              onClose={() => setShowTimeline(false)}
+              disabled={gameState.isLoading}
+           />
+        )}
+
+        {/* Memory Overlay */}
+        {showMemory && (
+           <MemoryPanel
+              timeline={gameState.timeline}
+              budget={settings.memoryTokenBudget}
+              isSummarizing={!!summarizingId}
+              onPinnedFactsChange={handlePinnedFactsChange}
+              onClose={() => setShowMemory(false)}
+           />
+        )}
+
+        {/* Audience Voting */}
+        {audience && (
+           <AudiencePanel
+              code={audience.code}
+              room={audienceRoom}
+              onPick={handleChoice}
+              onEnd={toggleAudience}
+           />
+        )}
+
         {/* Controls */}
         <div className="flex-grow bg-[#111] flex flex-col justify-end relative">
           {!isStarted && !gameState.isLoading && !showWizard ? (
@@ -487,7 +1411,11 @@ const TVRoom: React.FC = () => {
             onChoose={handleChoice}
             onEject={handleEject}
             onHome={backToLobby}
-            disabled={gameState.isLoading || !isStarted || showWizard}
+            onExport={handleExportEpisode}
+            onWriteIn={writeInPolicy.enabled ? handleWriteIn : undefined}
+            writeInHint={writeInPolicy.allowedVerbs?.length ? `TYPE AN ACTION: ${writeInPolicy.allowedVerbs.join(', ').toUpperCase()}...` : undefined}
+            writeInError={writeInError}
+            disabled={gameState.isLoading || checkingWriteIn || !isStarted || showWizard || !!exportProgress}
             isLoading={gameState.isLoading}
           />
         </div>
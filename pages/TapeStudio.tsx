@@ -1,9 +1,18 @@
-import React, { useState, useRef } from 'react';
+import React, { useState, useRef, useEffect } from 'react';
 import { useNavigate } from 'react-router-dom';
 import CRTContainer from '../components/CRTContainer';
 import { createTapeBlob } from '../utils/tapeUtils';
-import { TapeFileSchema, Choice } from '../types';
-import { ANIMATION_STYLES } from '../constants';
+import { TapeFileSchema, Choice, WorldStatDef, WorldFlagDef, WorldSchema, LorebookEntry, LorePosition, CastMember, NarratorVoice, SoundBed, TapeSoundtrack, VideoParams } from '../types';
+import { ANIMATION_STYLES, BEAT_MOODS } from '../constants';
+import { CURRENT_TAPE_VERSION } from '../utils/tapeMigrations';
+import { timelineFromHistory } from '../utils/timelineUtils';
+import { createWorldState, hasWorldSchema } from '../utils/worldState';
+import { setPinnedFacts } from '../utils/memory';
+import { createLoreEntry, LORE_POSITIONS } from '../utils/lorebook';
+import { createCastMember, shrinkReferenceImage } from '../utils/cast';
+import { listBeds } from '../services/soundtrackService';
+import { ALL_VIDEO_PARAMS } from '../services/videoProviders';
+import VideoParamsEditor from '../components/VideoParamsEditor';
 
 const VISUAL_TAGS = [
   "Cinematic Lighting", "Depth of Field", "Slow Zoom", 
@@ -21,13 +30,31 @@ const TapeStudio: React.FC = () => {
   const [introNarrative, setIntroNarrative] = useState("The screen flickers to life. You are standing in a dark room.");
   const [visualPrompt, setVisualPrompt] = useState("A dark room with a single flickering lightbulb, cinematic lighting");
   const [customRules, setCustomRules] = useState("");
+  const [pinnedFacts, setPinnedFactsText] = useState("");
   const [choices, setChoices] = useState<Choice[]>([
     { id: '1', text: 'Look around' },
     { id: '2', text: 'Check inventory' }
   ]);
+  const [stats, setStats] = useState<WorldStatDef[]>([]);
+  const [flags, setFlags] = useState<WorldFlagDef[]>([]);
+  const [startingItems, setStartingItems] = useState("");
+  const [lorebook, setLorebook] = useState<LorebookEntry[]>([]);
+  const [cast, setCast] = useState<CastMember[]>([]);
+  const [writeInsEnabled, setWriteInsEnabled] = useState(true);
+  const [writeInVerbs, setWriteInVerbs] = useState("");
+  const [narratorVoice, setNarratorVoice] = useState("");
+  const [narratorRate, setNarratorRate] = useState("");   // '' = viewer's setting
+  const [narratorPitch, setNarratorPitch] = useState("");
+  const [soundtrack, setSoundtrack] = useState<TapeSoundtrack>({}); // '' / unset = follow each beat's mood
+  const [soundBeds, setSoundBeds] = useState<SoundBed[]>([]);
+  const [videoParams, setVideoParams] = useState<VideoParams>({}); // Unset = viewer's settings
   const [coverImage, setCoverImage] = useState<string | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
 
+  useEffect(() => {
+    listBeds().then(setSoundBeds).catch(e => console.warn("[Soundtrack] Could not read beds", e));
+  }, []);
+
   const addVisualTag = (tag: string) => {
     setVisualPrompt(prev => prev.trim().endsWith(',') ? `${prev.trim()} ${tag}` : `${prev.trim()}, ${tag}`);
   };
@@ -40,6 +67,32 @@ const TapeStudio: React.FC = () => {
   };
   const removeChoice = (index: number) => setChoices(choices.filter((_, i) => i !== index));
 
+  const addStat = () => setStats([...stats, { key: '', initial: 0 }]);
+  const updateStat = (index: number, patch: Partial<WorldStatDef>) => setStats(stats.map((s, i) => i === index ? { ...s, ...patch } : s));
+  const removeStat = (index: number) => setStats(stats.filter((_, i) => i !== index));
+  const addFlag = () => setFlags([...flags, { key: '', initial: false }]);
+  const updateFlag = (index: number, patch: Partial<WorldFlagDef>) => setFlags(flags.map((f, i) => i === index ? { ...f, ...patch } : f));
+  const removeFlag = (index: number) => setFlags(flags.filter((_, i) => i !== index));
+  const addLoreEntry = () => setLorebook([...lorebook, createLoreEntry()]);
+  const updateLoreEntry = (index: number, patch: Partial<LorebookEntry>) => setLorebook(lorebook.map((e, i) => i === index ? { ...e, ...patch } : e));
+  const removeLoreEntry = (index: number) => setLorebook(lorebook.filter((_, i) => i !== index));
+  const addCastMember = () => setCast([...cast, createCastMember()]);
+  const updateCastMember = (index: number, patch: Partial<CastMember>) => setCast(prev => prev.map((m, i) => i === index ? { ...m, ...patch } : m));
+  const removeCastMember = (index: number) => setCast(cast.filter((_, i) => i !== index));
+  const handleReferenceUpload = (index: number, e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    const reader = new FileReader();
+    reader.onloadend = () => {
+      shrinkReferenceImage(reader.result as string)
+        .then(referenceImage => updateCastMember(index, { referenceImage }))
+        .catch(err => alert(err.message));
+    };
+    reader.readAsDataURL(file);
+  };
+  // Empty bound fields mean "unbounded"
+  const parseBound = (val: string) => val.trim() === '' ? undefined : Number(val);
+
   const handleImageUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
     if (file) {
@@ -59,26 +112,62 @@ const TapeStudio: React.FC = () => {
     const res = await fetch(coverImage);
     const blob = await res.blob();
 
+    const history = [
+      `SERIES CONTEXT:\nTitle: ${title}\nAuthor: ${author}\n\nGAME RULES (SYSTEM PROMPT):\n${customRules}`,
+      introNarrative
+    ];
+    const openingBeat = {
+      narrative: introNarrative,
+      visualPrompt: `${visualPrompt}, ${ANIMATION_STYLES[visualStyle] || ''}`,
+      choices: choices
+    };
+
+    const worldSchema: WorldSchema = {
+      stats: stats.filter(s => s.key.trim()).map(s => ({ ...s, key: s.key.trim() })),
+      flags: flags.filter(f => f.key.trim()).map(f => ({ ...f, key: f.key.trim() })),
+      inventory: startingItems.split(',').map(i => i.trim()).filter(Boolean)
+    };
+    const hasWorld = hasWorldSchema(worldSchema);
+    // Keys are kept raw while typing; tidy them up on the way out
+    const loreEntries = lorebook
+      .map(e => ({ ...e, keys: e.keys.map(k => k.trim()).filter(Boolean), content: e.content.trim() }))
+      .filter(e => e.content);
+    const allowedVerbs = writeInVerbs.split(',').map(v => v.trim()).filter(Boolean);
+    const narrator: NarratorVoice = {
+      ...(narratorVoice.trim() ? { voice: narratorVoice.trim() } : {}),
+      ...(narratorRate !== '' ? { rate: Math.max(0.5, Math.min(2, Number(narratorRate) || 1)) } : {}),
+      ...(narratorPitch !== '' ? { pitch: Math.max(0, Math.min(2, Number(narratorPitch) || 0)) } : {})
+    };
+    const pinnedSoundtrack: TapeSoundtrack = Object.fromEntries(Object.entries(soundtrack).filter(([, v]) => v));
+    const castList = cast
+      .map(m => ({ ...m, name: m.name.trim(), aliases: m.aliases.map(a => a.trim()).filter(Boolean), description: m.description.trim() }))
+      .filter(m => m.name);
+
     const tapeData: TapeFileSchema = {
       meta: {
-        version: "2.0",
+        version: CURRENT_TAPE_VERSION,
         characterName: title,
         createdAt: new Date().toISOString(),
         visualStyle: visualStyle, 
         author: author,
         gameRules: customRules || "Standard adventure rules apply.",
+        ...(hasWorld ? { worldSchema } : {}),
+        ...(loreEntries.length > 0 ? { lorebook: loreEntries } : {}),
+        ...(castList.length > 0 ? { cast: castList } : {}),
+        ...(Object.keys(narrator).length > 0 ? { narrator } : {}),
+        ...(Object.keys(pinnedSoundtrack).length > 0 ? { soundtrack: pinnedSoundtrack } : {}),
+        ...(Object.keys(videoParams).length > 0 ? { videoParams } : {}),
+        // Default policy (open write-ins) is left implicit
+        ...(!writeInsEnabled || allowedVerbs.length > 0 ? { writeIns: { enabled: writeInsEnabled, ...(allowedVerbs.length > 0 ? { allowedVerbs } : {}) } } : {})
       },
       engineState: {
-        history: [
-          `SERIES CONTEXT:\nTitle: ${title}\nAuthor: ${author}\n\nGAME RULES (SYSTEM PROMPT):\n${customRules}`,
-          introNarrative
-        ],
-        currentBeat: {
-          narrative: introNarrative,
-          visualPrompt: `${visualPrompt}, ${ANIMATION_STYLES[visualStyle] || ''}`,
-          choices: choices
-        },
-        loadingStage: "NEW CARTRIDGE"
+        history,
+        timeline: pinnedFacts.trim()
+          ? setPinnedFacts(timelineFromHistory(history, openingBeat), pinnedFacts.split('\n'))
+          : timelineFromHistory(history, openingBeat),
+        currentBeat: openingBeat,
+        loadingStage: "NEW CARTRIDGE",
+        ...(hasWorld ? { worldState: createWorldState(worldSchema) } : {})
       }
     };
 
@@ -121,11 +210,47 @@ const TapeStudio: React.FC = () => {
                        {Object.keys(ANIMATION_STYLES).map(s => <option key={s} value={s}>{s.replace('_', ' ')}</option>)}
                     </select>
                   </div>
+                  <div>
+                    <label className="text-xs text-green-800 uppercase block mb-1">Narrator (blank = viewer's choice)</label>
+                    <input value={narratorVoice} onChange={e => setNarratorVoice(e.target.value)} className="w-full bg-black border border-green-900 text-green-500 px-2 py-1 text-sm focus:border-green-400 focus:outline-none" placeholder="Voice name, e.g. Kore or nova" />
+                    <div className="flex gap-2 mt-1">
+                      <input type="number" min={0.5} max={2} step={0.1} value={narratorRate} onChange={e => setNarratorRate(e.target.value)} className="w-1/2 bg-black border border-green-900 text-green-500 px-2 py-1 text-sm focus:border-green-400 focus:outline-none" placeholder="Rate" />
+                      <input type="number" min={0} max={2} step={0.1} value={narratorPitch} onChange={e => setNarratorPitch(e.target.value)} className="w-1/2 bg-black border border-green-900 text-green-500 px-2 py-1 text-sm focus:border-green-400 focus:outline-none" placeholder="Pitch" />
+                    </div>
+                  </div>
+                  <div>
+                    <label className="text-xs text-green-800 uppercase block mb-1">Soundtrack (blank = follow the mood)</label>
+                    <div className="space-y-1">
+                      {(['music', 'ambience'] as const).map(kind => (
+                        <select key={kind} value={soundtrack[kind] || ''} onChange={e => setSoundtrack(prev => ({ ...prev, [kind]: e.target.value }))} className="w-full bg-black border border-green-900 text-green-500 px-2 py-1 text-sm uppercase focus:border-green-400 focus:outline-none">
+                          <option value="">{kind}: by mood</option>
+                          {soundBeds.filter(b => b.kind === kind).map(b => <option key={b.id} value={b.id}>{kind}: {b.name}{b.builtIn ? '' : ' (this browser only)'}</option>)}
+                        </select>
+                      ))}
+                      <select value={soundtrack.mood || ''} onChange={e => setSoundtrack(prev => ({ ...prev, mood: e.target.value }))} className="w-full bg-black border border-green-900 text-green-500 px-2 py-1 text-sm uppercase focus:border-green-400 focus:outline-none">
+                        <option value="">Default mood: from themes</option>
+                        {BEAT_MOODS.map(m => <option key={m} value={m}>Default mood: {m}</option>)}
+                      </select>
+                    </div>
+                  </div>
+                  <div>
+                    <label className="text-xs text-green-800 uppercase block mb-1">Framing (blank = viewer's settings)</label>
+                    <VideoParamsEditor params={videoParams} support={ALL_VIDEO_PARAMS} onChange={setVideoParams} />
+                  </div>
                 </div>
               </div>
               <div className="bg-black/50 p-4 border border-green-900/50 flex-grow">
                 <h2 className="text-green-400 text-sm uppercase mb-2 font-bold border-b border-green-900/30 pb-1">2. Game Logic</h2>
                 <textarea value={customRules} onChange={e => setCustomRules(e.target.value)} placeholder="// Enter System Logic... e.g. 'This is a horror game where health is scarce.'" className="w-full h-64 bg-[#0a0a0a] border border-green-900 text-green-400 px-3 py-2 font-mono text-xs resize-none focus:border-green-400 focus:outline-none" />
+                <label className="flex items-center gap-2 text-xs text-green-800 uppercase mt-3 cursor-pointer">
+                  <input type="checkbox" checked={writeInsEnabled} onChange={e => setWriteInsEnabled(e.target.checked)} className="accent-green-500" />
+                  Allow typed (write-in) actions
+                </label>
+                {writeInsEnabled && (
+                  <input value={writeInVerbs} onChange={e => setWriteInVerbs(e.target.value)} className="w-full mt-1 bg-[#0a0a0a] border border-green-900 text-green-400 px-3 py-1 font-mono text-xs focus:border-green-400 focus:outline-none" placeholder="Restrict to verbs (comma separated), e.g. look, take, talk to" />
+                )}
+                <label className="text-xs text-green-800 uppercase block mt-3 mb-1">Pinned Facts (one per line)</label>
+                <textarea value={pinnedFacts} onChange={e => setPinnedFactsText(e.target.value)} placeholder="Facts the writer must never forget, e.g. 'The lighthouse keeper is the narrator's father.'" className="w-full h-24 bg-[#0a0a0a] border border-green-900 text-green-400 px-3 py-2 font-mono text-xs resize-none focus:border-green-400 focus:outline-none" />
               </div>
             </div>
             <div className="lg:col-span-8 space-y-6">
@@ -158,6 +283,101 @@ const TapeStudio: React.FC = () => {
                   ))}
                 </div>
               </div>
+              <div className="bg-black/50 p-4 border border-green-900/50">
+                <div className="flex justify-between mb-2 border-b border-green-900/30 pb-1">
+                  <h2 className="text-green-400 text-sm uppercase font-bold">5. World State</h2>
+                  <div className="flex gap-2">
+                    <button onClick={addStat} className="text-[10px] bg-green-900 text-black px-2 py-1 font-bold hover:bg-green-600">+ ADD STAT</button>
+                    <button onClick={addFlag} className="text-[10px] bg-green-900 text-black px-2 py-1 font-bold hover:bg-green-600">+ ADD FLAG</button>
+                  </div>
+                </div>
+                <p className="text-[10px] text-gray-500 mb-3">Optional. The script writer proposes changes each beat; undeclared stats and flags are ignored.</p>
+                <div className="space-y-2">
+                  {stats.map((s, i) => (
+                    <div key={`stat-${i}`} className="flex gap-2 items-center text-sm">
+                      <span className="text-green-800 text-xs w-10">STAT</span>
+                      <input value={s.key} onChange={e => updateStat(i, { key: e.target.value })} className="bg-transparent border-b border-green-900 text-green-500 flex-1 py-1 focus:border-green-400 focus:outline-none" placeholder="key e.g. health" />
+                      <input type="number" value={s.initial} onChange={e => updateStat(i, { initial: Number(e.target.value) || 0 })} className="bg-transparent border-b border-green-900 text-green-500 w-16 py-1 focus:border-green-400 focus:outline-none" title="Initial" />
+                      <input type="number" value={s.min ?? ''} onChange={e => updateStat(i, { min: parseBound(e.target.value) })} className="bg-transparent border-b border-green-900 text-green-500 w-16 py-1 focus:border-green-400 focus:outline-none" placeholder="min" />
+                      <input type="number" value={s.max ?? ''} onChange={e => updateStat(i, { max: parseBound(e.target.value) })} className="bg-transparent border-b border-green-900 text-green-500 w-16 py-1 focus:border-green-400 focus:outline-none" placeholder="max" />
+                      <button onClick={() => removeStat(i)} className="text-red-900 hover:text-red-500 text-xs px-2">X</button>
+                    </div>
+                  ))}
+                  {flags.map((f, i) => (
+                    <div key={`flag-${i}`} className="flex gap-2 items-center text-sm">
+                      <span className="text-green-800 text-xs w-10">FLAG</span>
+                      <input value={f.key} onChange={e => updateFlag(i, { key: e.target.value })} className="bg-transparent border-b border-green-900 text-green-500 flex-1 py-1 focus:border-green-400 focus:outline-none" placeholder="key e.g. met_the_stranger" />
+                      <label className="flex items-center gap-1 text-xs text-green-700 uppercase cursor-pointer">
+                        <input type="checkbox" checked={f.initial} onChange={e => updateFlag(i, { initial: e.target.checked })} className="accent-green-500" />
+                        Starts On
+                      </label>
+                      <button onClick={() => removeFlag(i)} className="text-red-900 hover:text-red-500 text-xs px-2">X</button>
+                    </div>
+                  ))}
+                  <div>
+                    <label className="text-xs text-green-800 uppercase block mb-1">Starting Inventory (comma separated)</label>
+                    <input value={startingItems} onChange={e => setStartingItems(e.target.value)} className="w-full bg-black border border-green-900 text-green-500 px-2 py-1 text-sm focus:border-green-400 focus:outline-none" placeholder="Flashlight, Bus ticket" />
+                  </div>
+                </div>
+              </div>
+              <div className="bg-black/50 p-4 border border-green-900/50">
+                <div className="flex justify-between mb-2 border-b border-green-900/30 pb-1">
+                  <h2 className="text-green-400 text-sm uppercase font-bold">6. Lorebook</h2>
+                  <button onClick={addLoreEntry} className="text-[10px] bg-green-900 text-black px-2 py-1 font-bold hover:bg-green-600">+ ADD ENTRY</button>
+                </div>
+                <p className="text-[10px] text-gray-500 mb-3">Entries are sent to the script writer only when a keyword appears in the last few beats or the chosen action.</p>
+                <div className="space-y-4">
+                  {lorebook.map((entry, i) => (
+                    <div key={entry.id} className={`border-l-2 pl-3 space-y-2 ${entry.enabled ? 'border-green-800' : 'border-gray-800 opacity-60'}`}>
+                      <div className="flex gap-2 items-center text-sm">
+                        <input value={entry.keys.join(',')} onChange={e => updateLoreEntry(i, { keys: e.target.value.split(',') })} className="bg-transparent border-b border-green-900 text-green-500 flex-1 py-1 focus:border-green-400 focus:outline-none" placeholder="Keywords, comma separated" disabled={entry.constant} />
+                        <input type="number" value={entry.priority} onChange={e => updateLoreEntry(i, { priority: Number(e.target.value) || 0 })} className="bg-transparent border-b border-green-900 text-green-500 w-16 py-1 focus:border-green-400 focus:outline-none" title="Priority (higher first)" />
+                        <select value={entry.position} onChange={e => updateLoreEntry(i, { position: e.target.value as LorePosition })} className="bg-black border border-green-900 text-green-500 px-1 py-1 text-xs focus:border-green-400 focus:outline-none">
+                          {LORE_POSITIONS.map(p => <option key={p.value} value={p.value}>{p.label}</option>)}
+                        </select>
+                        <button onClick={() => removeLoreEntry(i)} className="text-red-900 hover:text-red-500 text-xs px-2">X</button>
+                      </div>
+                      <textarea value={entry.content} onChange={e => updateLoreEntry(i, { content: e.target.value })} className="w-full h-16 bg-black border border-green-900 text-green-500 px-3 py-2 text-xs resize-none focus:border-green-400 focus:outline-none" placeholder="What the writer should know when this comes up..." />
+                      <div className="flex gap-4 text-xs text-green-700 uppercase">
+                        <label className="flex items-center gap-1 cursor-pointer">
+                          <input type="checkbox" checked={entry.enabled} onChange={e => updateLoreEntry(i, { enabled: e.target.checked })} className="accent-green-500" />
+                          Enabled
+                        </label>
+                        <label className="flex items-center gap-1 cursor-pointer">
+                          <input type="checkbox" checked={!!entry.constant} onChange={e => updateLoreEntry(i, { constant: e.target.checked })} className="accent-green-500" />
+                          Always On
+                        </label>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              </div>
+              <div className="bg-black/50 p-4 border border-green-900/50">
+                <div className="flex justify-between mb-2 border-b border-green-900/30 pb-1">
+                  <h2 className="text-green-400 text-sm uppercase font-bold">7. Cast</h2>
+                  <button onClick={addCastMember} className="text-[10px] bg-green-900 text-black px-2 py-1 font-bold hover:bg-green-600">+ ADD CHARACTER</button>
+                </div>
+                <p className="text-[10px] text-gray-500 mb-3">Recurring characters. When a beat mentions one, their look is written into the shot and their reference image goes to video models that accept one.</p>
+                <div className="space-y-4">
+                  {cast.map((member, i) => (
+                    <div key={member.id} className="flex gap-3 border-l-2 border-green-800 pl-3">
+                      <label className="w-16 h-20 bg-black border border-green-900 flex items-center justify-center overflow-hidden cursor-pointer hover:border-green-500 flex-shrink-0" title="Reference image">
+                        {member.referenceImage ? <img src={member.referenceImage} className="w-full h-full object-cover" /> : <span className="text-green-900 text-xl">+</span>}
+                        <input type="file" onChange={e => handleReferenceUpload(i, e)} className="hidden" accept="image/png,image/jpeg" />
+                      </label>
+                      <div className="flex-1 space-y-2">
+                        <div className="flex gap-2 items-center text-sm">
+                          <input value={member.name} onChange={e => updateCastMember(i, { name: e.target.value })} className="bg-transparent border-b border-green-900 text-green-500 w-1/3 py-1 focus:border-green-400 focus:outline-none" placeholder="Name" />
+                          <input value={member.aliases.join(',')} onChange={e => updateCastMember(i, { aliases: e.target.value.split(',') })} className="bg-transparent border-b border-green-900 text-green-500 flex-1 py-1 focus:border-green-400 focus:outline-none" placeholder="Also called (comma separated)" />
+                          {member.referenceImage && <button onClick={() => updateCastMember(i, { referenceImage: undefined })} className="text-[10px] text-gray-500 hover:text-red-500">CLEAR IMG</button>}
+                          <button onClick={() => removeCastMember(i)} className="text-red-900 hover:text-red-500 text-xs px-2">X</button>
+                        </div>
+                        <textarea value={member.description} onChange={e => updateCastMember(i, { description: e.target.value })} className="w-full h-14 bg-black border border-green-900 text-green-500 px-3 py-2 text-xs resize-none focus:border-green-400 focus:outline-none" placeholder="Physical description: age, build, hair, clothes, distinguishing marks..." />
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              </div>
               <div className="border-2 border-dashed border-green-900/50 p-6 flex items-center gap-6 cursor-pointer hover:bg-green-900/10 transition-colors group" onClick={() => fileInputRef.current?.click()}>
                  <div className="w-24 h-32 bg-black border border-green-800 flex items-center justify-center overflow-hidden relative shadow-[0_0_15px_rgba(0,50,0,0.5)]">
                    {coverImage ? <img src={coverImage} className="w-full h-full object-cover" /> : <span className="text-2xl text-green-900 group-hover:text-green-500">+</span>}
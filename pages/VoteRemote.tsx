@@ -0,0 +1,131 @@
+import React, { useState, useEffect } from 'react';
+import { useNavigate, useParams } from 'react-router-dom';
+import { VoteRoomState } from '../types';
+import { castVote, joinAsVoter, normalizeRoomCode, subscribeToRoom } from '../services/votingService';
+
+// Phone-sized remote for audience voting. Reached from the join code or link shown on the TV.
+const VoteRemote: React.FC = () => {
+  const { code: routeCode } = useParams();
+  const navigate = useNavigate();
+  const code = routeCode ? normalizeRoomCode(routeCode) : '';
+
+  const [draftCode, setDraftCode] = useState('');
+  const [room, setRoom] = useState<VoteRoomState | null>(null);
+  const [ended, setEnded] = useState(false);
+  const [myVote, setMyVote] = useState<{ roundId: string; choiceId: string } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [now, setNow] = useState(Date.now());
+
+  useEffect(() => {
+    if (!code) return;
+    setRoom(null);
+    setEnded(false);
+    // Get a voter pass up front so the first tap doesn't wait on it
+    joinAsVoter(code).catch(e => setError(e.message));
+    return subscribeToRoom(code, setRoom, () => setEnded(true));
+  }, [code]);
+
+  // Countdown tick
+  useEffect(() => {
+    if (!room?.round?.open) return;
+    const timer = setInterval(() => setNow(Date.now()), 250);
+    return () => clearInterval(timer);
+  }, [room?.round?.id, room?.round?.open]);
+
+  const vote = async (choiceId: string) => {
+    const round = room?.round;
+    if (!round || !round.open) return;
+    setError(null);
+    setMyVote({ roundId: round.id, choiceId });
+    try {
+      await castVote(code, round.id, choiceId);
+    } catch (e: any) {
+      setError(e.message);
+    }
+  };
+
+  if (!code) {
+    return (
+      <div className="min-h-screen bg-black text-green-500 font-mono flex flex-col items-center justify-center gap-4 p-6">
+        <h1 className="text-xl tracking-widest">JOIN THE AUDIENCE</h1>
+        <input
+          value={draftCode}
+          onChange={e => setDraftCode(normalizeRoomCode(e.target.value))}
+          onKeyDown={e => { if (e.key === 'Enter' && draftCode.length === 4) navigate(`/vote/${draftCode}`); }}
+          placeholder="CODE"
+          className="bg-black border-2 border-green-900 text-green-400 text-4xl text-center tracking-[0.5em] w-56 py-3 focus:border-green-500 focus:outline-none"
+        />
+        <button
+          onClick={() => navigate(`/vote/${draftCode}`)}
+          disabled={draftCode.length !== 4}
+          className="border-2 border-green-700 px-6 py-2 tracking-widest hover:bg-green-900/40 disabled:opacity-30"
+        >
+          [ JOIN ]
+        </button>
+      </div>
+    );
+  }
+
+  const round = room?.round;
+  const secondsLeft = round?.open ? Math.max(0, Math.ceil((round.endsAt - now) / 1000)) : 0;
+  const votedFor = myVote && round && myVote.roundId === round.id ? myVote.choiceId : null;
+  const winner = round?.result?.winnerId ? round.choices.find(c => c.id === round.result!.winnerId) : null;
+
+  return (
+    <div className="min-h-screen bg-black text-green-500 font-mono p-4 flex flex-col gap-4">
+      <header className="flex justify-between text-xs text-gray-500 border-b border-green-900 pb-2">
+        <span>ROOM {code}</span>
+        {round?.open && <span className={secondsLeft <= 5 ? 'text-red-500 animate-pulse' : 'text-green-400'}>{secondsLeft}s</span>}
+      </header>
+
+      {ended && <p className="text-center text-gray-500 mt-12">THIS BROADCAST HAS ENDED.</p>}
+      {!ended && !room && <p className="text-center text-gray-600 mt-12 animate-pulse">TUNING IN...</p>}
+      {!ended && room && !round && <p className="text-center text-gray-600 mt-12">STAND BY. VOTING OPENS WITH THE NEXT SCENE.</p>}
+
+      {!ended && round && (
+        <>
+          {round.narrative && <p className="text-sm text-green-300/80 leading-relaxed">{round.narrative}</p>}
+
+          <div className="flex flex-col gap-3">
+            {round.choices.map((choice, index) => {
+              const count = round.tallies[choice.id] || 0;
+              const share = round.totalVotes > 0 ? Math.round((count / round.totalVotes) * 100) : 0;
+              const isMine = votedFor === choice.id;
+              const isWinner = round.result?.winnerId === choice.id;
+              return (
+                <button
+                  key={choice.id}
+                  onClick={() => vote(choice.id)}
+                  disabled={!round.open}
+                  className={`relative overflow-hidden border-2 px-4 py-4 text-left uppercase tracking-wider
+                    ${isWinner ? 'border-yellow-500 text-yellow-400' : isMine ? 'border-green-400 text-green-300' : 'border-green-900 text-green-600'}
+                    ${round.open ? 'active:bg-green-900/40' : 'cursor-default'}`}
+                >
+                  <div className="absolute inset-y-0 left-0 bg-green-900/30 transition-all duration-300" style={{ width: `${share}%` }} />
+                  <span className="relative flex justify-between gap-2">
+                    <span>{index + 1}. {choice.text}</span>
+                    <span className="text-xs text-gray-500 self-center">{count}</span>
+                  </span>
+                </button>
+              );
+            })}
+          </div>
+
+          <p className="text-center text-xs text-gray-500">
+            {round.open
+              ? (votedFor ? 'VOTE IN. TAP ANOTHER TO CHANGE IT.' : 'TAP A CHOICE TO VOTE.')
+              : winner
+                ? `THE AUDIENCE CHOSE: ${winner.text}`
+                : round.result?.reason === 'tie: host decides'
+                  ? 'TIE. THE HOST IS DECIDING...'
+                  : 'VOTING CLOSED.'}
+          </p>
+          {error && <p className="text-center text-xs text-red-500 uppercase">{error}</p>}
+          <p className="text-center text-xs text-gray-700">{room.viewers} WATCHING</p>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default VoteRemote;
@@ -1,16 +1,28 @@
 import express from 'express';
 import path from 'path';
 import { fileURLToPath } from 'url';
+import { createVotingRouter } from './server/votingRoutes.js';
+import { createProxyRouter } from './server/proxyRoutes.js';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
 
 const app = express();
 
+// Behind a load balancer (App Engine) the client address is in X-Forwarded-For; voting rate limits key on it.
+// Set TRUST_PROXY to the number of proxy hops in front of the server.
+if (process.env.TRUST_PROXY) app.set('trust proxy', parseInt(process.env.TRUST_PROXY) || 1);
+
 // Google App Engine sets process.env.PORT. 
 // Default to 8080 for local testing if not set.
 const PORT = parseInt(process.env.PORT) || 8080;
 
+// Live audience voting (phones join the room shown on the TV)
+app.use('/api/vote', createVotingRouter());
+
+// Provider calls signed with the server's keys (GEMINI_API_KEY, OPENROUTER_API_KEY, FAL_KEY)
+app.use('/api/proxy', createProxyRouter());
+
 // Serve static files from the dist directory
 app.use(express.static(path.join(__dirname, 'dist')));
 
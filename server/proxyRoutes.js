@@ -0,0 +1,239 @@
+import express from 'express';
+import { Readable } from 'stream';
+import { rateLimit } from './rateLimit.js';
+
+// --- PROVIDER PROXY ---
+// Lets the server hold the Gemini, OpenRouter and Fal keys so a public deployment never ships them
+// to the browser. Only the calls the show makes are forwarded; anything else is refused.
+
+const GEMINI_HOST = 'https://generativelanguage.googleapis.com';
+const OPENROUTER_HOST = 'https://openrouter.ai/api/v1';
+
+const keys = () => ({
+  gemini: process.env.GEMINI_API_KEY || process.env.API_KEY || '',
+  openrouter: process.env.OPENROUTER_API_KEY || '',
+  fal: process.env.FAL_KEY || ''
+});
+
+// Beat writing, video jobs, job polling and clip downloads. Model calls are checked against GEMINI_MODELS too.
+const GEMINI_MODEL_CALL = /^\/v1beta\/models\/([\w.-]+):(generateContent|predictLongRunning)$/;
+const GEMINI_ROUTES = [
+  { method: 'POST', pattern: GEMINI_MODEL_CALL },
+  { method: 'GET', pattern: /^\/v1beta\/(models\/[\w.-]+\/)?operations\/[\w.-]+$/ },
+  { method: 'GET', pattern: /^\/v1beta\/files\/[\w.-]+:download$/ }
+];
+
+// Models the show ships with (the settings defaults, VIDEO_MODELS, FAL_MODELS, FAL_IMAGE_MODELS and the Kling
+// text-to-video switch in constants.ts). Anything else has to be listed in PROXY_GEMINI_MODELS,
+// PROXY_OPENROUTER_MODELS or PROXY_FAL_MODELS (comma separated) by whoever runs the server.
+const DEFAULT_GEMINI_MODELS = [
+  'gemini-3-pro-preview',
+  'gemini-2.5-flash-image',
+  'gemini-2.5-flash-preview-tts',
+  'veo-3.1-fast-generate-preview',
+  'veo-3.1-generate-preview'
+];
+const DEFAULT_FAL_MODELS = [
+  'fal-ai/minimax/video-01',
+  'fal-ai/minimax/video-01-subject-reference',
+  'fal-ai/luma-dream-machine',
+  'fal-ai/kling-video/v1.6/standard/image-to-video',
+  'fal-ai/kling-video/v1.6/standard/text-to-video',
+  'fal-ai/fast-svd/text-to-video',
+  'fal-ai/flux/schnell',
+  'fal-ai/flux/dev',
+  'fal-ai/flux-pro/v1.1',
+  'fal-ai/fast-sdxl'
+];
+const DEFAULT_OPENROUTER_MODELS = ['google/gemini-2.0-flash-001'];
+
+const envList = (name, defaults) => [
+  ...defaults,
+  ...(process.env[name] || '').split(',').map(item => item.trim()).filter(Boolean)
+];
+
+const GEMINI_MODELS = new Set(envList('PROXY_GEMINI_MODELS', DEFAULT_GEMINI_MODELS));
+const FAL_MODELS = new Set(envList('PROXY_FAL_MODELS', DEFAULT_FAL_MODELS));
+// Queue status, result and cancel calls address the app (owner/alias), not the full endpoint
+const FAL_APPS = new Set([...FAL_MODELS].map(model => model.split('/').slice(0, 2).join('/')));
+const OPENROUTER_MODELS = new Set(envList('PROXY_OPENROUTER_MODELS', DEFAULT_OPENROUTER_MODELS));
+
+const FAL_REST_HOSTS = ['rest.fal.ai', 'rest.alpha.fal.ai'];
+const FAL_UPLOAD_PATHS = ['/storage/upload/initiate', '/storage/upload/initiate-multipart'];
+const FAL_QUEUE_REQUEST = /^\/([\w.-]+\/[\w.-]+)\/requests\/[\w-]+(\/status(\/stream)?|\/cancel)?$/;
+
+// Job submission for a known model, the queue calls that follow it, and frame uploads
+const isAllowedFalTarget = (method, target) => {
+  if (target.protocol !== 'https:') return false;
+  if (FAL_REST_HOSTS.includes(target.hostname)) {
+    return method === 'POST' && FAL_UPLOAD_PATHS.includes(target.pathname);
+  }
+  if (target.hostname !== 'queue.fal.run') return false;
+
+  const path = target.pathname.replace(/\/$/, '');
+  const request = FAL_QUEUE_REQUEST.exec(path);
+  if (request) return FAL_APPS.has(request[1]);
+  return method === 'POST' && FAL_MODELS.has(path.slice(1));
+};
+
+const requestedModel = (req) => {
+  try {
+    return JSON.parse(req.body.toString('utf8')).model;
+  } catch {
+    return undefined;
+  }
+};
+
+// Per client IP, across every proxied call. A filming job polls every few seconds and clips load in ranges,
+// so a viewer stays well under this; a script looping on the operator's key doesn't.
+const PROXY_LIMIT = { max: 120, windowMs: 60 * 1000 };
+
+// Pages allowed to call the proxy besides the server's own (PROXY_ALLOWED_ORIGINS, comma separated)
+const ALLOWED_ORIGINS = new Set(envList('PROXY_ALLOWED_ORIGINS', []));
+
+// Browsers send Origin on cross-site calls; another site can't spend the keys through a visitor's browser.
+// Same-origin media loads carry no Origin and pass.
+const isAllowedOrigin = (req) => {
+  const origin = req.get('origin');
+  if (!origin) return true;
+  if (ALLOWED_ORIGINS.has(origin)) return true;
+  try {
+    return new URL(origin).host === req.get('host');
+  } catch {
+    return false;
+  }
+};
+
+// Headers worth passing back; the rest (cookies, hop-by-hop) stay upstream
+const RELAYED_HEADERS = ['content-type', 'content-range', 'accept-ranges', 'cache-control'];
+
+const relay = async (upstream, res) => {
+  res.status(upstream.status);
+  RELAYED_HEADERS.forEach(name => {
+    const value = upstream.headers.get(name);
+    if (value) res.set(name, value);
+  });
+  // fetch has already decoded compressed bodies, so the upstream length only holds for identity encoding
+  const length = upstream.headers.get('content-length');
+  if (length && !upstream.headers.get('content-encoding')) res.set('content-length', length);
+
+  if (!upstream.body) return res.end();
+  Readable.fromWeb(upstream.body).pipe(res);
+};
+
+const fail = (res, status, error) => res.status(status).json({ error });
+
+const forwardBody = (req) => (req.method === 'GET' || req.method === 'HEAD' || !Buffer.isBuffer(req.body) || req.body.length === 0)
+  ? undefined
+  : req.body;
+
+export const createProxyRouter = () => {
+  const router = express.Router();
+  // Checked before any body is read
+  router.use(rateLimit(PROXY_LIMIT, 'Too many provider calls from this address; try again in a minute'));
+  router.use((req, res, next) => isAllowedOrigin(req) ? next() : fail(res, 403, 'Origin not allowed to use this proxy'));
+  // Frames travel as base64, so beat and video requests can be a few MB
+  router.use(express.raw({ type: () => true, limit: '30mb' }));
+
+  // Which keys this server holds (never the keys themselves)
+  router.get('/status', (req, res) => {
+    const k = keys();
+    res.json({ gemini: !!k.gemini, openrouter: !!k.openrouter, fal: !!k.fal });
+  });
+
+  // Gemini: the browser SDK points its baseUrl here and sends a placeholder key
+  router.use('/gemini', async (req, res) => {
+    const key = keys().gemini;
+    if (!key) return fail(res, 503, 'Server has no Gemini key');
+    if (!GEMINI_ROUTES.some(r => r.method === req.method && r.pattern.test(req.path))) {
+      return fail(res, 403, 'Gemini call not allowed through the proxy');
+    }
+    const model = GEMINI_MODEL_CALL.exec(req.path)?.[1];
+    if (model && !GEMINI_MODELS.has(model)) {
+      return fail(res, 403, `Gemini model ${model} not allowed through the proxy`);
+    }
+
+    const url = new URL(`${GEMINI_HOST}${req.path}`);
+    Object.entries(req.query).forEach(([name, value]) => {
+      if (name !== 'key' && typeof value === 'string') url.searchParams.set(name, value);
+    });
+
+    try {
+      const upstream = await fetch(url, {
+        method: req.method,
+        headers: {
+          'x-goog-api-key': key,
+          ...(req.get('content-type') ? { 'content-type': req.get('content-type') } : {}),
+          ...(req.get('range') ? { range: req.get('range') } : {})
+        },
+        body: forwardBody(req)
+      });
+      await relay(upstream, res);
+    } catch (e) {
+      console.error('[Proxy] Gemini request failed:', e);
+      fail(res, 502, 'Gemini unreachable');
+    }
+  });
+
+  // OpenRouter: chat completions only (beats, summaries and the video attempt)
+  router.post('/openrouter/chat/completions', async (req, res) => {
+    const key = keys().openrouter;
+    if (!key) return fail(res, 503, 'Server has no OpenRouter key');
+    const model = Buffer.isBuffer(req.body) ? requestedModel(req) : undefined;
+    if (!OPENROUTER_MODELS.has(model)) {
+      return fail(res, 403, `OpenRouter model ${model || '(none)'} not allowed through the proxy`);
+    }
+
+    try {
+      const upstream = await fetch(`${OPENROUTER_HOST}/chat/completions`, {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${key}`,
+          'Content-Type': 'application/json',
+          'HTTP-Referer': req.get('origin') || 'http://localhost',
+          'X-Title': 'Living TV Show'
+        },
+        body: forwardBody(req)
+      });
+      await relay(upstream, res);
+    } catch (e) {
+      console.error('[Proxy] OpenRouter request failed:', e);
+      fail(res, 502, 'OpenRouter unreachable');
+    }
+  });
+
+  // Fal: speaks the @fal-ai/client proxy protocol (target in x-fal-target-url)
+  router.all('/fal', async (req, res) => {
+    const key = keys().fal;
+    if (!key) return fail(res, 503, 'Server has no Fal key');
+
+    let target;
+    try {
+      target = new URL(req.get('x-fal-target-url') || '');
+    } catch {
+      return fail(res, 400, 'Missing or invalid x-fal-target-url');
+    }
+    if (!isAllowedFalTarget(req.method, target)) {
+      return fail(res, 403, 'Fal call not allowed through the proxy');
+    }
+
+    try {
+      const upstream = await fetch(target, {
+        method: req.method,
+        headers: {
+          'Authorization': `Key ${key}`,
+          'Accept': 'application/json',
+          'x-fal-client-proxy': 'living-tv-server',
+          ...(req.get('content-type') ? { 'content-type': req.get('content-type') } : {})
+        },
+        body: forwardBody(req)
+      });
+      await relay(upstream, res);
+    } catch (e) {
+      console.error('[Proxy] Fal request failed:', e);
+      fail(res, 502, 'Fal unreachable');
+    }
+  });
+
+  return router;
+};
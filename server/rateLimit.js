@@ -0,0 +1,24 @@
+// --- RATE LIMITING ---
+// Shared by the voting and proxy routes. Counts live in memory, so limits reset with the process.
+
+// Fixed-window request counter per client IP
+export const rateLimit = ({ max, windowMs }, message) => {
+  const windows = new Map();
+  return (req, res, next) => {
+    const now = Date.now();
+    if (windows.size > 10000) {
+      windows.forEach((w, ip) => { if (now - w.start > windowMs) windows.delete(ip); });
+    }
+    const key = req.ip || 'unknown';
+    let w = windows.get(key);
+    if (!w || now - w.start > windowMs) {
+      w = { start: now, count: 0 };
+      windows.set(key, w);
+    }
+    if (++w.count > max) {
+      res.set('Retry-After', String(Math.ceil((w.start + windowMs - now) / 1000)));
+      return res.status(429).json({ error: message });
+    }
+    next();
+  };
+};
@@ -0,0 +1,266 @@
+import express from 'express';
+import crypto from 'crypto';
+import { rateLimit } from './rateLimit.js';
+
+// --- AUDIENCE VOTING ---
+// The TV (host) opens a room and pushes each beat's choices; phones join with a 4-letter code,
+// follow along over Server-Sent Events and vote until the countdown ends. Rooms live in memory.
+// Voter ids are issued (and signed) by the server on join, so a phone can't mint its own.
+
+const CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ'; // No I/O, they read as 1/0 on a big screen
+const TIE_BREAKS = ['first', 'random', 'host'];
+const MIN_ROUND_MS = 5000;
+const MAX_ROUND_MS = 120000;
+const ROOM_IDLE_MS = 6 * 60 * 60 * 1000;
+const HEARTBEAT_MS = 25000;
+const MAX_ROOMS = 200;
+const MAX_VOTERS_PER_ROOM = 1000;
+// Live streams per room: every phone plus a few TVs (reloads leave a stale host stream until it times out)
+const MAX_VIEWERS_PER_ROOM = MAX_VOTERS_PER_ROOM;
+const MAX_HOSTS_PER_ROOM = 5;
+
+// Per client IP. A whole party can share one Wi-Fi address, so joins get a generous allowance.
+const ROOM_CREATE_LIMIT = { max: 5, windowMs: 10 * 60 * 1000 };
+const JOIN_LIMIT = { max: 60, windowMs: 60 * 1000 };
+const EVENTS_LIMIT = { max: 60, windowMs: 60 * 1000 };
+
+// Rooms only live as long as the process, so a per-process secret is enough
+const VOTER_SECRET = crypto.randomBytes(32);
+
+const rooms = new Map();
+
+const signVoter = (code, voterId) => crypto.createHmac('sha256', VOTER_SECRET).update(`${code}:${voterId}`).digest('base64url');
+
+const isIssuedVoter = (code, voterId, voterToken) => {
+  if (typeof voterId !== 'string' || typeof voterToken !== 'string') return false;
+  const expected = Buffer.from(signVoter(code, voterId));
+  const given = Buffer.from(voterToken);
+  return expected.length === given.length && crypto.timingSafeEqual(expected, given);
+};
+
+const createCode = () => {
+  for (let attempt = 0; attempt < 50; attempt++) {
+    const code = Array.from({ length: 4 }, () => CODE_ALPHABET[crypto.randomInt(CODE_ALPHABET.length)]).join('');
+    if (!rooms.has(code)) return code;
+  }
+  throw new Error('No free room codes');
+};
+
+const tally = (round) => {
+  const counts = Object.fromEntries(round.choices.map(c => [c.id, 0]));
+  round.votes.forEach(choiceId => { counts[choiceId] = (counts[choiceId] || 0) + 1; });
+  return counts;
+};
+
+// Public view of a room; never includes the host token or who voted for what
+const snapshot = (room) => ({
+  code: room.code,
+  viewers: room.viewers.size,
+  tieBreak: room.tieBreak,
+  round: room.round && {
+    id: room.round.id,
+    narrative: room.round.narrative,
+    choices: room.round.choices,
+    endsAt: room.round.endsAt,
+    open: room.round.open,
+    tallies: tally(room.round),
+    totalVotes: room.round.votes.size,
+    result: room.round.result
+  }
+});
+
+const send = (res, event, data) => {
+  res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+};
+
+const broadcast = (room) => {
+  const state = snapshot(room);
+  room.viewers.forEach(res => send(res, 'state', state));
+  room.hosts.forEach(res => send(res, 'state', state));
+  room.lastActive = Date.now();
+};
+
+/**
+ * Highest tally wins. Ties (including nobody voting) follow the room's rule:
+ * 'first' takes the earliest tied choice in menu order, 'random' draws one, 'host' leaves it to the TV.
+ */
+export const decide = (round, tieBreak) => {
+  const counts = tally(round);
+  const best = Math.max(...Object.values(counts));
+  const tied = round.choices.filter(c => counts[c.id] === best).map(c => c.id);
+
+  if (tied.length === 1) return { winnerId: tied[0], tied, reason: 'majority' };
+  if (tieBreak === 'first') return { winnerId: tied[0], tied, reason: 'tie: first listed' };
+  if (tieBreak === 'random') return { winnerId: tied[crypto.randomInt(tied.length)], tied, reason: 'tie: random draw' };
+  return { winnerId: null, tied, reason: 'tie: host decides' };
+};
+
+const closeRound = (room, cancelled = false) => {
+  const round = room.round;
+  if (!round || !round.open) return;
+  clearTimeout(round.timer);
+  round.open = false;
+  round.result = cancelled ? { winnerId: null, tied: [], reason: 'cancelled' } : decide(round, room.tieBreak);
+  console.log(`[Vote] Room ${room.code} round ${round.id} closed (${round.result.reason})`);
+  broadcast(room);
+};
+
+const findRoom = (req, res) => {
+  const room = rooms.get(String(req.params.code || '').toUpperCase());
+  if (!room) res.status(404).json({ error: 'Room not found' });
+  return room;
+};
+
+const requireHost = (req, res) => {
+  const room = findRoom(req, res);
+  if (!room) return null;
+  if (req.get('X-Host-Token') !== room.hostToken) {
+    res.status(403).json({ error: 'Not the host of this room' });
+    return null;
+  }
+  return room;
+};
+
+export const createVotingRouter = () => {
+  const router = express.Router();
+  router.use(express.json({ limit: '32kb' }));
+
+  // Host: open a room
+  router.post('/rooms', rateLimit(ROOM_CREATE_LIMIT, 'Too many rooms opened; try again later'), (req, res) => {
+    if (rooms.size >= MAX_ROOMS) return res.status(503).json({ error: 'The server is hosting too many rooms right now' });
+    const tieBreak = TIE_BREAKS.includes(req.body?.tieBreak) ? req.body.tieBreak : 'random';
+    const room = {
+      code: createCode(),
+      hostToken: crypto.randomUUID(),
+      tieBreak,
+      round: null,
+      viewers: new Set(),
+      hosts: new Set(),
+      voterCount: 0,
+      lastActive: Date.now()
+    };
+    rooms.set(room.code, room);
+    console.log(`[Vote] Room ${room.code} opened`);
+    res.status(201).json({ code: room.code, hostToken: room.hostToken });
+  });
+
+  // Anyone: live room state. ?role=host counts the TV separately from the audience.
+  router.get('/rooms/:code/events', rateLimit(EVENTS_LIMIT, 'Too many connections from this network; try again in a minute'), (req, res) => {
+    const room = findRoom(req, res);
+    if (!room) return;
+    const isHost = req.query.role === 'host';
+    const pool = isHost ? room.hosts : room.viewers;
+    if (pool.size >= (isHost ? MAX_HOSTS_PER_ROOM : MAX_VIEWERS_PER_ROOM)) {
+      return res.status(503).json({ error: 'This room has too many connections' });
+    }
+
+    res.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      'Connection': 'keep-alive',
+      'X-Accel-Buffering': 'no'
+    });
+
+    pool.add(res);
+    broadcast(room);
+
+    const heartbeat = setInterval(() => res.write(': keep-alive\n\n'), HEARTBEAT_MS);
+    req.on('close', () => {
+      clearInterval(heartbeat);
+      pool.delete(res);
+      if (rooms.has(room.code)) broadcast(room);
+    });
+  });
+
+  // Host: start voting on a beat's choices (replaces any open round)
+  router.post('/rooms/:code/round', (req, res) => {
+    const room = requireHost(req, res);
+    if (!room) return;
+
+    const choices = Array.isArray(req.body?.choices)
+      ? req.body.choices
+          .filter(c => c && typeof c.id === 'string' && typeof c.text === 'string')
+          .map(c => ({ id: c.id, text: c.text.slice(0, 200) }))
+      : [];
+    if (choices.length === 0) return res.status(400).json({ error: 'No choices to vote on' });
+
+    if (room.round?.open) closeRound(room, true);
+    if (TIE_BREAKS.includes(req.body?.tieBreak)) room.tieBreak = req.body.tieBreak;
+
+    const duration = Math.min(MAX_ROUND_MS, Math.max(MIN_ROUND_MS, Number(req.body?.durationMs) || 20000));
+    const round = {
+      id: crypto.randomUUID(),
+      narrative: typeof req.body?.narrative === 'string' ? req.body.narrative.slice(0, 2000) : '',
+      choices,
+      endsAt: Date.now() + duration,
+      open: true,
+      votes: new Map(), // voterId -> choiceId; re-voting replaces
+      result: null,
+      timer: null
+    };
+    round.timer = setTimeout(() => closeRound(room), duration);
+    room.round = round;
+
+    broadcast(room);
+    res.status(201).json({ roundId: round.id, endsAt: round.endsAt });
+  });
+
+  // Host: stop the open round without a winner (e.g. the host picked on the TV)
+  router.delete('/rooms/:code/round', (req, res) => {
+    const room = requireHost(req, res);
+    if (!room) return;
+    closeRound(room, true);
+    res.status(204).end();
+  });
+
+  // Audience: join the room and get a voter id. Phones keep it per room, so re-voting replaces their vote.
+  router.post('/rooms/:code/voters', rateLimit(JOIN_LIMIT, 'Too many joins from this network; try again in a minute'), (req, res) => {
+    const room = findRoom(req, res);
+    if (!room) return;
+    if (room.voterCount >= MAX_VOTERS_PER_ROOM) return res.status(403).json({ error: 'This room is full' });
+
+    room.voterCount += 1;
+    const voterId = crypto.randomUUID();
+    res.status(201).json({ voterId, voterToken: signVoter(room.code, voterId) });
+  });
+
+  // Audience: cast or change a vote
+  router.post('/rooms/:code/votes', (req, res) => {
+    const room = findRoom(req, res);
+    if (!room) return;
+
+    const { voterId, voterToken, choiceId, roundId } = req.body || {};
+    const round = room.round;
+    if (!round || !round.open || round.id !== roundId) return res.status(409).json({ error: 'Voting is closed' });
+    if (!isIssuedVoter(room.code, voterId, voterToken)) return res.status(403).json({ error: 'Join the room before voting' });
+    if (!round.choices.some(c => c.id === choiceId)) return res.status(400).json({ error: 'Unknown choice' });
+
+    round.votes.set(voterId, choiceId);
+    broadcast(room);
+    res.status(204).end();
+  });
+
+  // Host: close the room
+  router.delete('/rooms/:code', (req, res) => {
+    const room = requireHost(req, res);
+    if (!room) return;
+    if (room.round) clearTimeout(room.round.timer);
+    [...room.viewers, ...room.hosts].forEach(client => { send(client, 'closed', {}); client.end(); });
+    rooms.delete(room.code);
+    console.log(`[Vote] Room ${room.code} closed`);
+    res.status(204).end();
+  });
+
+  // Forget rooms nobody has touched in a while
+  setInterval(() => {
+    const now = Date.now();
+    rooms.forEach((room, code) => {
+      if (now - room.lastActive > ROOM_IDLE_MS && room.viewers.size === 0 && room.hosts.size === 0) {
+        if (room.round) clearTimeout(room.round.timer);
+        rooms.delete(code);
+      }
+    });
+  }, 10 * 60 * 1000).unref();
+
+  return router;
+};
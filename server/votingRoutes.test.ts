@@ -0,0 +1,23 @@
+import { describe, it, expect } from 'vitest';
+import { decide } from './votingRoutes.js';
+
+const round = (votes: string[]) => ({
+  choices: [{ id: 'a' }, { id: 'b' }, { id: 'c' }],
+  votes: new Map(votes.map((choiceId, i) => [`voter-${i}`, choiceId]))
+});
+
+describe('decide', () => {
+  it('picks the majority', () => {
+    expect(decide(round(['b', 'b', 'a']), 'host')).toEqual({ winnerId: 'b', tied: ['b'], reason: 'majority' });
+  });
+
+  it('breaks ties by the room rule', () => {
+    expect(decide(round(['b', 'a']), 'first').winnerId).toBe('a');
+    expect(['a', 'b']).toContain(decide(round(['b', 'a']), 'random').winnerId);
+    expect(decide(round(['b', 'a']), 'host')).toEqual({ winnerId: null, tied: ['a', 'b'], reason: 'tie: host decides' });
+  });
+
+  it('treats a round nobody voted in as a tie across every choice', () => {
+    expect(decide(round([]), 'first')).toEqual({ winnerId: 'a', tied: ['a', 'b', 'c'], reason: 'tie: first listed' });
+  });
+});
@@ -0,0 +1,118 @@
+import { createStore, get, set, entries, delMany, clear } from 'idb-keyval';
+
+// --- CLIP CACHE ---
+// Finished clips, downloaded into IndexedDB so they outlive expiring Veo/Fal links.
+// Kept in their own database next to the library so a big footage store never slows down settings/library reads.
+
+const clipStore = createStore('living-tv-clips', 'clips');
+
+interface CachedClip {
+  tapeId: string;
+  nodeId: string;
+  blob: Blob;
+  size: number;
+  sourceUrl: string;
+  cachedAt: number;
+}
+
+export interface ClipUsage {
+  count: number;
+  bytes: number;
+}
+
+const clipKey = (tapeId: string, nodeId: string) => `${tapeId}:${nodeId}`;
+
+// One object URL per clip for the lifetime of the page, so replays don't leak URLs
+const objectUrls = new Map<string, string>();
+
+export const createSessionTapeId = (): string => `session_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+
+export const isSessionTapeId = (tapeId: string): boolean => tapeId.startsWith('session_');
+
+export const hasCachedClip = async (tapeId: string, nodeId: string): Promise<boolean> => {
+  return (await get<CachedClip>(clipKey(tapeId, nodeId), clipStore)) !== undefined;
+};
+
+/**
+ * Downloads a finished clip and stores it against its beat.
+ * Failures are logged, not thrown: the cache is an optimisation.
+ */
+export const cacheClip = async (tapeId: string, nodeId: string, url: string): Promise<void> => {
+  try {
+    const res = await fetch(url);
+    if (!res.ok) throw new Error(`Download failed: ${res.status}`);
+    const blob = await res.blob();
+
+    await set(clipKey(tapeId, nodeId), {
+      tapeId,
+      nodeId,
+      blob,
+      size: blob.size,
+      // Never persist the API key that Veo links carry
+      sourceUrl: url.replace(/([?&]key=)[^&]*/, '$1REDACTED'),
+      cachedAt: Date.now()
+    } as CachedClip, clipStore);
+
+    console.log(`[ClipCache] Stored ${nodeId} (${Math.round(blob.size / 1024)}KB)`);
+  } catch (e) {
+    console.warn(`[ClipCache] Could not cache clip for ${nodeId}`, e);
+  }
+};
+
+// Playable URL for a cached clip, or null
+export const getCachedClipUrl = async (tapeId: string, nodeId: string): Promise<string | null> => {
+  const key = clipKey(tapeId, nodeId);
+  const existing = objectUrls.get(key);
+  if (existing) return existing;
+
+  const clip = await get<CachedClip>(key, clipStore);
+  if (!clip) return null;
+
+  const url = URL.createObjectURL(clip.blob);
+  objectUrls.set(key, url);
+  return url;
+};
+
+export const isCachedClipUrl = (url: string | null): boolean => {
+  return !!url && Array.from(objectUrls.values()).includes(url);
+};
+
+// Footage per tape id
+export const getClipUsage = async (): Promise<Record<string, ClipUsage>> => {
+  const usage: Record<string, ClipUsage> = {};
+  const all = await entries<string, CachedClip>(clipStore);
+  all.forEach(([, clip]) => {
+    const entry = usage[clip.tapeId] || (usage[clip.tapeId] = { count: 0, bytes: 0 });
+    entry.count += 1;
+    entry.bytes += clip.size;
+  });
+  return usage;
+};
+
+const forgetObjectUrls = (keys: string[]) => {
+  keys.forEach(key => {
+    const url = objectUrls.get(key);
+    if (url) URL.revokeObjectURL(url);
+    objectUrls.delete(key);
+  });
+};
+
+export const purgeClips = async (tapeId: string): Promise<void> => {
+  const all = await entries<string, CachedClip>(clipStore);
+  const keys = all.filter(([, clip]) => clip.tapeId === tapeId).map(([key]) => key);
+  await delMany(keys, clipStore);
+  forgetObjectUrls(keys);
+  console.log(`[ClipCache] Purged ${keys.length} clips for ${tapeId}`);
+};
+
+export const purgeAllClips = async (): Promise<void> => {
+  await clear(clipStore);
+  forgetObjectUrls(Array.from(objectUrls.keys()));
+};
+
+export const formatBytes = (bytes: number): string => {
+  if (bytes < 1024) return `${bytes}B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(0)}KB`;
+  if (bytes < 1024 * 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)}MB`;
+  return `${(bytes / (1024 * 1024 * 1024)).toFixed(2)}GB`;
+};
@@ -0,0 +1,172 @@
+import { createStore, get, set, del, clear } from 'idb-keyval';
+import { SCORING_WIDTH, FrameScore, measureFrame, scoreFrame } from '../utils/frameScoring';
+
+// --- CONTINUITY ---
+// Picks the frame the next clip starts from. Grabbing whatever is on screen at click time often lands on a
+// blink or a motion-blurred cut, so finished clips are sampled near their end and the cleanest frame wins.
+// The best frames per tape are kept as a small rolling set to fall back on when a clip can't be sampled.
+
+const keyframeStore = createStore('living-tv-keyframes', 'keyframes');
+
+const SAMPLE_COUNT = 6;
+const TAIL_SECONDS = 1.5;
+const LOAD_TIMEOUT_MS = 10000;
+const SEEK_TIMEOUT_MS = 3000;
+// An earlier sample has to beat a later one by this much; later frames match the cut better
+const RECENCY_MARGIN = 0.05;
+const MAX_KEYFRAMES_PER_TAPE = 6;
+// Live captures scoring under this are swapped for a stored keyframe
+export const MIN_USABLE_SCORE = 0.25;
+
+export interface ScoredFrame {
+  frame: string; // PNG base64, no data URL prefix
+  score: FrameScore;
+}
+
+export interface Keyframe extends ScoredFrame {
+  nodeId: string;
+  savedAt: number;
+}
+
+// --- FACE DETECTION ---
+// Shape Detection API where the browser has it (Chromium behind a flag); otherwise faces just don't count
+
+let faceDetector: any = undefined;
+
+const hasFace = async (canvas: HTMLCanvasElement): Promise<boolean> => {
+  if (faceDetector === undefined) {
+    const Detector = (window as any).FaceDetector;
+    faceDetector = Detector ? new Detector({ fastMode: true, maxDetectedFaces: 1 }) : null;
+  }
+  if (!faceDetector) return false;
+  try {
+    return (await faceDetector.detect(canvas)).length > 0;
+  } catch {
+    faceDetector = null;
+    return false;
+  }
+};
+
+// --- SAMPLING ---
+
+const withTimeout = <T>(promise: Promise<T>, ms: number, message: string): Promise<T> => {
+  return new Promise((resolve, reject) => {
+    const timer = setTimeout(() => reject(new Error(message)), ms);
+    promise.then(
+      value => { clearTimeout(timer); resolve(value); },
+      error => { clearTimeout(timer); reject(error); }
+    );
+  });
+};
+
+const loadVideo = (url: string): Promise<HTMLVideoElement> => withTimeout(new Promise((resolve, reject) => {
+  const video = document.createElement('video');
+  video.crossOrigin = 'anonymous';
+  video.muted = true;
+  video.preload = 'auto';
+  video.onloadeddata = () => resolve(video);
+  video.onerror = () => reject(new Error("Clip failed to load for sampling"));
+  video.src = url;
+}), LOAD_TIMEOUT_MS, "Clip took too long to load for sampling");
+
+const seek = (video: HTMLVideoElement, time: number): Promise<void> => withTimeout(new Promise(resolve => {
+  video.onseeked = () => resolve();
+  video.currentTime = time;
+}), SEEK_TIMEOUT_MS, "Seek timed out");
+
+const drawScaled = (source: CanvasImageSource, width: number, height: number): HTMLCanvasElement => {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) throw new Error("Canvas context failed");
+  ctx.drawImage(source, 0, 0, width, height);
+  return canvas;
+};
+
+// Throws on a tainted canvas (remote clip without CORS headers)
+const scoreSource = async (source: CanvasImageSource, width: number, height: number): Promise<FrameScore> => {
+  const scaledHeight = Math.max(1, Math.round(height * SCORING_WIDTH / width));
+  const canvas = drawScaled(source, SCORING_WIDTH, scaledHeight);
+  const pixels = canvas.getContext('2d')!.getImageData(0, 0, SCORING_WIDTH, scaledHeight);
+  return scoreFrame(measureFrame(pixels.data, SCORING_WIDTH, scaledHeight), await hasFace(canvas));
+};
+
+/**
+ * Samples the last moments of a clip and returns the cleanest frame at full size,
+ * or null when the clip can't be read (network, CORS, zero length).
+ */
+export const pickBestClipFrame = async (url: string): Promise<ScoredFrame | null> => {
+  let video: HTMLVideoElement | null = null;
+  try {
+    video = await loadVideo(url);
+    const { duration, videoWidth, videoHeight } = video;
+    if (!isFinite(duration) || duration <= 0 || !videoWidth || !videoHeight) return null;
+
+    const tail = Math.min(TAIL_SECONDS, duration * 0.3);
+    const end = Math.max(0, duration - 0.05);
+    let best: { time: number; score: FrameScore } | null = null;
+
+    // Latest first, so ties go to the frame nearest the cut
+    for (let i = 0; i < SAMPLE_COUNT; i++) {
+      const time = Math.max(0, end - (tail * i) / (SAMPLE_COUNT - 1));
+      await seek(video, time);
+      const score = await scoreSource(video, videoWidth, videoHeight);
+      if (!best || score.total > best.score.total + RECENCY_MARGIN) best = { time, score };
+    }
+    if (!best || best.score.total === 0) return null;
+
+    await seek(video, best.time);
+    const frame = drawScaled(video, videoWidth, videoHeight).toDataURL('image/png').split(',')[1];
+    console.log(`[Continuity] Best frame at ${best.time.toFixed(2)}s (score ${best.score.total.toFixed(2)}${best.score.face ? ', face' : ''})`);
+    return { frame, score: best.score };
+  } catch (e) {
+    console.warn("[Continuity] Could not sample clip", e);
+    return null;
+  } finally {
+    if (video) {
+      video.removeAttribute('src');
+      video.load();
+    }
+  }
+};
+
+// Scores a still or a live capture, or null if it can't be decoded
+export const scoreStill = (base64: string): Promise<FrameScore | null> => new Promise(resolve => {
+  const img = new Image();
+  img.onload = () => scoreSource(img, img.naturalWidth, img.naturalHeight).then(resolve, () => resolve(null));
+  img.onerror = () => resolve(null);
+  img.src = `data:image/png;base64,${base64}`;
+});
+
+// --- KEYFRAMES ---
+
+export const getKeyframes = async (tapeId: string): Promise<Keyframe[]> => {
+  return (await get<Keyframe[]>(tapeId, keyframeStore)) || [];
+};
+
+// One keyframe per beat; the oldest drop off once the tape has MAX_KEYFRAMES_PER_TAPE
+export const rememberKeyframe = async (tapeId: string, nodeId: string, scored: ScoredFrame): Promise<void> => {
+  const existing = (await getKeyframes(tapeId)).filter(k => k.nodeId !== nodeId);
+  const keyframes = [...existing, { nodeId, ...scored, savedAt: Date.now() }].slice(-MAX_KEYFRAMES_PER_TAPE);
+  await set(tapeId, keyframes, keyframeStore);
+};
+
+/**
+ * The usable keyframe nearest the end of a branch. `path` runs root to head, as getPath returns it.
+ */
+export const findBranchKeyframe = (keyframes: Keyframe[], path: string[]): Keyframe | null => {
+  for (const nodeId of [...path].reverse()) {
+    const match = keyframes.find(k => k.nodeId === nodeId && k.score.total >= MIN_USABLE_SCORE);
+    if (match) return match;
+  }
+  return null;
+};
+
+export const purgeKeyframes = async (tapeId: string): Promise<void> => {
+  await del(tapeId, keyframeStore);
+};
+
+export const purgeAllKeyframes = async (): Promise<void> => {
+  await clear(keyframeStore);
+};
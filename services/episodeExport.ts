@@ -0,0 +1,301 @@
+// --- EPISODE EXPORT ---
+// Plays a branch back onto a canvas and records it with MediaRecorder: title card, clips in order,
+// narrative burned in as subtitles, plus a WebVTT sidecar. Runs in real time, entirely in the browser.
+// Scenes with narration audio play it over the footage and hold until the narrator has finished.
+
+const WIDTH = 1280;
+const HEIGHT = 720;
+const FPS = 30;
+const TITLE_CARD_MS = 3000;
+const STILL_SCENE_MS = 4000; // Beats without footage hold their still for this long
+const MAX_CLIP_MS = 30000;   // Guard against clips that never fire 'ended'
+const DUCKED_CLIP_GAIN = 0.2; // Clip audio under narration
+
+export interface EpisodeScene {
+  narrative: string;
+  clipUrl: string | null;    // Cached/remote clip for the beat
+  stillBase64: string | null; // Fallback when there is no clip
+  narrationAudio?: Blob | null; // Narrator reading `narrative` (cloud TTS only)
+}
+
+export interface EpisodeExportOptions {
+  title: string;
+  coverBase64: string | null;
+  scenes: EpisodeScene[];
+  burnSubtitles?: boolean; // Default true; the VTT is produced either way
+  onProgress?: (scene: number, total: number) => void;
+}
+
+export interface EpisodeExportResult {
+  video: Blob;
+  extension: 'webm' | 'mp4';
+  vtt: string;
+}
+
+interface Cue {
+  start: number; // ms from start of the recording
+  end: number;
+  text: string;
+}
+
+const formatVttTime = (ms: number): string => {
+  const total = Math.max(0, Math.round(ms));
+  const h = Math.floor(total / 3600000);
+  const m = Math.floor((total % 3600000) / 60000);
+  const s = Math.floor((total % 60000) / 1000);
+  const milli = total % 1000;
+  return `${String(h).padStart(2, '0')}:${String(m).padStart(2, '0')}:${String(s).padStart(2, '0')}.${String(milli).padStart(3, '0')}`;
+};
+
+export const buildWebVtt = (cues: Cue[]): string => {
+  const body = cues
+    .filter(c => c.text.trim() !== '')
+    .map((c, i) => `${i + 1}\n${formatVttTime(c.start)} --> ${formatVttTime(c.end)}\n${c.text.replace(/-->/g, '->')}`)
+    .join('\n\n');
+  return `WEBVTT\n\n${body}\n`;
+};
+
+const pickMimeType = (): { mimeType: string; extension: 'webm' | 'mp4' } => {
+  const candidates: { mimeType: string; extension: 'webm' | 'mp4' }[] = [
+    { mimeType: 'video/mp4;codecs=avc1,mp4a.40.2', extension: 'mp4' },
+    { mimeType: 'video/webm;codecs=vp9,opus', extension: 'webm' },
+    { mimeType: 'video/webm;codecs=vp8,opus', extension: 'webm' },
+    { mimeType: 'video/webm', extension: 'webm' }
+  ];
+  return candidates.find(c => MediaRecorder.isTypeSupported(c.mimeType)) || { mimeType: 'video/webm', extension: 'webm' };
+};
+
+const loadImage = (src: string): Promise<HTMLImageElement> => new Promise((resolve, reject) => {
+  const img = new Image();
+  img.onload = () => resolve(img);
+  img.onerror = () => reject(new Error("Image failed to load"));
+  img.src = src;
+});
+
+// Letterboxes any source into the frame
+const drawContained = (ctx: CanvasRenderingContext2D, source: CanvasImageSource, srcW: number, srcH: number) => {
+  ctx.fillStyle = '#000';
+  ctx.fillRect(0, 0, WIDTH, HEIGHT);
+  if (!srcW || !srcH) return;
+  const scale = Math.min(WIDTH / srcW, HEIGHT / srcH);
+  const w = srcW * scale;
+  const h = srcH * scale;
+  ctx.drawImage(source, (WIDTH - w) / 2, (HEIGHT - h) / 2, w, h);
+};
+
+const wrapLines = (ctx: CanvasRenderingContext2D, text: string, maxWidth: number): string[] => {
+  const lines: string[] = [];
+  let line = '';
+  text.split(/\s+/).forEach(word => {
+    const next = line ? `${line} ${word}` : word;
+    if (ctx.measureText(next).width > maxWidth && line) {
+      lines.push(line);
+      line = word;
+    } else {
+      line = next;
+    }
+  });
+  if (line) lines.push(line);
+  return lines;
+};
+
+const drawSubtitle = (ctx: CanvasRenderingContext2D, text: string) => {
+  ctx.font = '30px sans-serif';
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'bottom';
+  const lines = wrapLines(ctx, text, WIDTH - 200).slice(-3);
+  lines.forEach((line, i) => {
+    const y = HEIGHT - 40 - (lines.length - 1 - i) * 40;
+    ctx.lineWidth = 6;
+    ctx.strokeStyle = 'rgba(0, 0, 0, 0.85)';
+    ctx.strokeText(line, WIDTH / 2, y);
+    ctx.fillStyle = '#ffffff';
+    ctx.fillText(line, WIDTH / 2, y);
+  });
+};
+
+const drawTitleCard = (ctx: CanvasRenderingContext2D, title: string, cover: HTMLImageElement | null) => {
+  if (cover) {
+    drawContained(ctx, cover, cover.naturalWidth, cover.naturalHeight);
+    ctx.fillStyle = 'rgba(0, 0, 0, 0.55)';
+    ctx.fillRect(0, 0, WIDTH, HEIGHT);
+  } else {
+    ctx.fillStyle = '#050505';
+    ctx.fillRect(0, 0, WIDTH, HEIGHT);
+  }
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'middle';
+  ctx.fillStyle = '#33ff33';
+  ctx.font = 'bold 72px monospace';
+  ctx.fillText(title.toUpperCase(), WIDTH / 2, HEIGHT / 2 - 20);
+  ctx.fillStyle = '#008800';
+  ctx.font = '28px monospace';
+  ctx.fillText('THE TAPE LOOP', WIDTH / 2, HEIGHT / 2 + 50);
+};
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Starts the narration in the recording; `ended` settles once it has been read out. Null if it can't play.
+const startNarration = async (
+  audio: Blob,
+  audioCtx: AudioContext,
+  audioDest: MediaStreamAudioDestinationNode
+): Promise<{ ended: Promise<void> } | null> => {
+  try {
+    const buffer = await audioCtx.decodeAudioData(await audio.arrayBuffer());
+    const source = audioCtx.createBufferSource();
+    source.buffer = buffer;
+    source.connect(audioDest);
+    const ended = new Promise<void>(resolve => { source.onended = () => resolve(); });
+    source.start();
+    return { ended };
+  } catch (e) {
+    console.warn("[Episode] Narration could not be decoded; scene will be silent", e);
+    return null;
+  }
+};
+
+// Plays one clip to the end while `onFrame` points the draw loop at it. False if it couldn't play.
+const playClip = async (
+  url: string,
+  audioCtx: AudioContext,
+  audioDest: MediaStreamAudioDestinationNode,
+  onFrame: (video: HTMLVideoElement) => void,
+  gain: number = 1
+): Promise<boolean> => {
+  const video = document.createElement('video');
+  video.crossOrigin = 'anonymous';
+  video.playsInline = true;
+  video.src = url;
+
+  try {
+    await new Promise<void>((resolve, reject) => {
+      video.onloadeddata = () => resolve();
+      video.onerror = () => reject(new Error("Clip failed to load"));
+    });
+
+    try {
+      const volume = audioCtx.createGain();
+      volume.gain.value = gain;
+      audioCtx.createMediaElementSource(video).connect(volume).connect(audioDest);
+    } catch (e) {
+      // No audio graph for this element (e.g. browser refused); record it silent
+      video.muted = true;
+    }
+
+    onFrame(video);
+    await video.play();
+    await new Promise<void>(resolve => {
+      const guard = setTimeout(resolve, MAX_CLIP_MS);
+      video.onended = () => { clearTimeout(guard); resolve(); };
+    });
+    return true;
+  } catch (e) {
+    console.warn("[Episode] Clip unavailable, using still", e);
+    return false;
+  } finally {
+    video.pause();
+    video.removeAttribute('src');
+    video.load();
+  }
+};
+
+/**
+ * Records the episode. Resolves once the last scene has played out.
+ */
+export const exportEpisode = async (options: EpisodeExportOptions): Promise<EpisodeExportResult> => {
+  if (typeof MediaRecorder === 'undefined') {
+    throw new Error("This browser cannot record video (MediaRecorder missing).");
+  }
+
+  const burn = options.burnSubtitles !== false;
+  const canvas = document.createElement('canvas');
+  canvas.width = WIDTH;
+  canvas.height = HEIGHT;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error("Canvas context failed");
+
+  const cover = options.coverBase64 ? await loadImage(`data:image/png;base64,${options.coverBase64}`).catch(() => null) : null;
+
+  // Clip and narration audio are routed into the recording alongside the canvas
+  const audioCtx = new AudioContext();
+  const audioDest = audioCtx.createMediaStreamDestination();
+  const stream = new MediaStream([
+    ...canvas.captureStream(FPS).getVideoTracks(),
+    ...audioDest.stream.getAudioTracks()
+  ]);
+
+  const { mimeType, extension } = pickMimeType();
+  const recorder = new MediaRecorder(stream, { mimeType });
+  const chunks: Blob[] = [];
+  recorder.ondataavailable = (e) => { if (e.data.size > 0) chunks.push(e.data); };
+  const stopped = new Promise<void>(resolve => { recorder.onstop = () => resolve(); });
+  // A recorder that fails mid-episode stops on its own; the export fails rather than saving a cut-off file
+  let recorderError: Error | null = null;
+  recorder.onerror = (e: any) => { recorderError = e?.error || new Error("Recording failed"); };
+
+  // What the draw loop paints each tick
+  let paint: () => void = () => drawTitleCard(ctx, options.title, cover);
+  let subtitle = '';
+  const timer = setInterval(() => {
+    paint();
+    if (burn && subtitle) drawSubtitle(ctx, subtitle);
+  }, 1000 / FPS);
+
+  const cues: Cue[] = [];
+  let startedAt = 0;
+  const now = () => performance.now() - startedAt;
+
+  try {
+    paint();
+    recorder.start(1000);
+    startedAt = performance.now();
+    console.log(`[Episode] Recording "${options.title}" (${options.scenes.length} scenes, ${mimeType})`);
+
+    await wait(TITLE_CARD_MS);
+
+    for (let i = 0; i < options.scenes.length; i++) {
+      const scene = options.scenes[i];
+      options.onProgress?.(i + 1, options.scenes.length);
+      const cueStart = now();
+      subtitle = scene.narrative;
+      const narrated = scene.narrationAudio ? await startNarration(scene.narrationAudio, audioCtx, audioDest) : null;
+
+      let played = false;
+      if (scene.clipUrl) {
+        played = await playClip(scene.clipUrl, audioCtx, audioDest, (video) => {
+          paint = () => drawContained(ctx, video, video.videoWidth, video.videoHeight);
+        }, narrated ? DUCKED_CLIP_GAIN : 1);
+      }
+
+      if (!played) {
+        const still = scene.stillBase64 ? await loadImage(`data:image/png;base64,${scene.stillBase64}`).catch(() => null) : null;
+        paint = still
+          ? () => drawContained(ctx, still, still.naturalWidth, still.naturalHeight)
+          : () => { ctx.fillStyle = '#000'; ctx.fillRect(0, 0, WIDTH, HEIGHT); };
+        await wait(STILL_SCENE_MS);
+      }
+      // The last frame holds until the narrator is done
+      if (narrated) await narrated.ended;
+
+      cues.push({ start: cueStart, end: now(), text: scene.narrative });
+    }
+  } finally {
+    clearInterval(timer);
+    // If start() threw, the recorder never left 'inactive' and onstop will never fire
+    if (recorder.state !== 'inactive') {
+      recorder.stop();
+      await stopped;
+    }
+    stream.getTracks().forEach(t => t.stop());
+    audioCtx.close();
+  }
+
+  if (recorderError) throw recorderError;
+
+  return {
+    video: new Blob(chunks, { type: mimeType.split(';')[0] }),
+    extension,
+    vtt: buildWebVtt(cues)
+  };
+};
@@ -1,4 +1,8 @@
 import { fal } from "@fal-ai/client";
+import { proxyUrl } from "./proxyService";
+import { VideoAspectRatio, VideoParams } from "../types";
+import { startUsage } from "./usageService";
+import { JobContext, JOB_CANCELLED, wasCancelledByUser } from "./jobManager";
 
 // Helper: Optimize image for upload (Resize + JPEG compression)
 // Fal.ai has a 10MB limit, and PNGs can easily exceed this or be unnecessarily large.
@@ -84,27 +88,113 @@ const findVideoUrl = (obj: any): string | undefined => {
   return undefined;
 };
 
+// Queue position / remote logs -> job progress line
+const reportQueueUpdate = (update: any, job: JobContext | null) => {
+  if (update.status === 'IN_QUEUE') {
+    job?.progress(`FAL QUEUE #${update.queue_position ?? '?'}`);
+  } else if (update.status === 'IN_PROGRESS') {
+    if (update.logs) {
+        update.logs.map((log: any) => console.log(`[Fal.ai Remote] ${log.message}`));
+        const last = update.logs[update.logs.length - 1];
+        if (last?.message) job?.progress(String(last.message).slice(0, 60));
+    }
+  }
+};
+
+const extractVideoUrl = (result: any): string => {
+    // Safe Logging of the result
+    try {
+      console.log("[Fal.ai] Raw Result:", JSON.stringify(result, null, 2));
+    } catch (e) {
+      console.log("[Fal.ai] Raw Result (Object):", result);
+    }
+
+    // Method A: Deep Recursive Search (Most Reliable)
+    const foundUrl = findVideoUrl(result);
+    if (foundUrl) return foundUrl;
+
+    // Method B: Regex Scan on stringified JSON (Last resort for deeply nested or oddly named keys)
+    try {
+        const jsonString = JSON.stringify(result);
+        const urlMatch = jsonString.match(/https?:\/\/[^"'\s]+\.(mp4|webm|mov)(\?[^"'\s]*)?/);
+        if (urlMatch) {
+            console.warn("[Fal.ai] Found video URL via regex fallback:", urlMatch[0]);
+            return urlMatch[0];
+        }
+    } catch(e) { /* ignore */ }
+    
+    console.error("[Fal.ai] Response structure missing video URL. Available keys:", Object.keys(result || {}));
+    throw new Error("Fal.ai generation finished but returned no video URL.");
+};
+
+// Field names most Fal video endpoints share; models that don't know a field ignore it
+const toFalVideoParams = (params: VideoParams): Record<string, any> => {
+  const input: Record<string, any> = {};
+  // Kling, Luma and friends take the length as a string ("5", "10")
+  if (params.duration) input.duration = String(params.duration);
+  if (params.aspectRatio) input.aspect_ratio = params.aspectRatio;
+  if (params.resolution) input.resolution = params.resolution;
+  if (params.seed !== undefined) input.seed = params.seed;
+  if (params.negativePrompt) input.negative_prompt = params.negativePrompt;
+  return input;
+};
+
+const FAL_IMAGE_SIZES: Record<VideoAspectRatio, string> = {
+  '16:9': 'landscape_16_9',
+  '9:16': 'portrait_16_9',
+  '1:1': 'square_hd'
+};
+
+const rethrowFalError = (error: any, job: JobContext | null): never => {
+      if (job?.signal.aborted) throw new Error(JOB_CANCELLED);
+
+      // Enhanced Error Logging
+      console.error("[Fal.ai] Subscription Error:", error);
+      if (error.body) {
+          try {
+             console.error("[Fal.ai] Error Body:", JSON.stringify(error.body, null, 2));
+          } catch (e) {
+             console.error("[Fal.ai] Error Body (Raw):", error.body);
+          }
+      }
+
+      // Check for specific Fal validation messages
+      if (error.body && error.body.detail && Array.isArray(error.body.detail)) {
+         const details = error.body.detail.map((d: any) => d.msg).join('; ');
+         if (details) {
+            throw new Error(`Fal.ai Validation Error: ${details}`);
+         }
+      }
+      
+      const message = error.message || "Unknown Fal.ai error";
+      throw new Error(`Fal.ai Error: ${message}`);
+};
+
 /**
  * Generates a video clip using Fal.ai.
  * 
  * @param prompt The text prompt for the video.
  * @param lastFrameBase64 The previous frame to use as a starting point (optional).
- * @param falKey The user's Fal.ai API Key.
+ * @param falKey The user's Fal.ai API Key, or null to go through the server proxy.
  * @param modelId The Fal.ai model ID to use.
+ * @param referenceImages Cast reference sheets (data: URLs); used by subject-reference models.
+ * @param job Generation job to report queue progress to; aborting it cancels the remote request.
+ * @param params Duration, aspect ratio, resolution, seed and negative prompt; only the ones set are sent.
  */
 export const generateFalClip = async (
   prompt: string,
   lastFrameBase64: string | null,
-  falKey: string,
-  modelId: string
+  falKey: string | null,
+  modelId: string,
+  referenceImages: string[] = [],
+  job: JobContext | null = null,
+  params: VideoParams = {}
 ): Promise<string> => {
   console.log(`[Fal.ai] Initializing generation with ${modelId}...`);
 
   try {
     // 1. Configure Client
-    fal.config({
-      credentials: falKey,
-    });
+    fal.config(falKey ? { credentials: falKey } : { proxyUrl: proxyUrl('/fal') });
 
     let uploadedImageUrl: string | undefined = undefined;
 
@@ -130,13 +220,26 @@ export const generateFalClip = async (
 
     // 3. Construct Input Payload dynamically
     const input: any = {
-      prompt: prompt
+      prompt: prompt,
+      ...toFalVideoParams(params)
     };
 
     // --- MODEL SPECIFIC RULES ---
 
     // Rule A: SVD Text-to-Video cannot accept image_url
     const isSvdText = modelId.includes('fast-svd/text-to-video');
+
+    // Rule D: Subject-reference models take one face sheet instead of a start frame
+    const isSubjectRef = modelId.includes('subject-reference');
+    if (isSubjectRef && referenceImages.length > 0) {
+      try {
+        const blob = await optimizeImageForUpload(referenceImages[0]);
+        input.subject_reference_image_url = await fal.storage.upload(blob);
+        console.log("[Fal.ai] Subject reference uploaded:", input.subject_reference_image_url);
+      } catch (e) {
+        console.warn("[Fal.ai] Subject reference upload failed, continuing without it.", e);
+      }
+    }
     
     // Rule B: Kling has distinct endpoints. If we have no image (start of tape), ensure we use text-to-video.
     if (modelId.includes('kling-video') && modelId.includes('image-to-video') && !uploadedImageUrl) {
@@ -145,71 +248,116 @@ export const generateFalClip = async (
     }
 
     // Rule C: Attach image if available and model supports it
-    if (uploadedImageUrl && !isSvdText) {
+    if (uploadedImageUrl && !isSvdText && !isSubjectRef) {
       input.image_url = uploadedImageUrl;
     }
 
     // 4. Subscribe to Model
     console.log(`[Fal.ai] Sending payload to ${modelId}:`, JSON.stringify(input));
     
+    const meter = startUsage('Fal.ai', modelId, 'video');
+    let requestId: string | null = null;
     const result: any = await fal.subscribe(modelId, {
       input,
       logs: true,
-      onQueueUpdate: (update) => {
-        if (update.status === 'IN_PROGRESS') {
-          if (update.logs) {
-              update.logs.map((log: any) => console.log(`[Fal.ai Remote] ${log.message}`));
-          }
-        }
+      abortSignal: job?.signal,
+      onEnqueue: (id) => {
+        requestId = id;
+        // Fal bills a queued job even if we stop waiting for it
+        meter.addJob();
+        job?.setResumeToken({ provider: 'fal', model: modelId, requestId: id, usageId: meter.id });
       },
+      onQueueUpdate: (update) => reportQueueUpdate(update, job),
+    }).catch(async (e) => {
+      await meter.finish(false);
+      // Only a viewer cancel stops the remote job; a detached one is left running to resume later
+      if (requestId && wasCancelledByUser(job?.signal)) {
+        fal.queue.cancel(modelId, { requestId }).catch(err => console.warn("[Fal.ai] Remote cancel failed", err));
+      }
+      throw e;
     });
+    // Billed at enqueue, even if we can't find the URL below
+    await meter.finish(true);
 
     // 5. Parse Result with Robust Fallbacks
-    
-    // Safe Logging of the result
-    try {
-      console.log("[Fal.ai] Raw Result:", JSON.stringify(result, null, 2));
-    } catch (e) {
-      console.log("[Fal.ai] Raw Result (Object):", result);
-    }
+    return extractVideoUrl(result);
 
-    // Method A: Deep Recursive Search (Most Reliable)
-    const foundUrl = findVideoUrl(result);
-    if (foundUrl) return foundUrl;
+  } catch (error: any) {
+      return rethrowFalError(error, job);
+  }
+};
 
-    // Method B: Regex Scan on stringified JSON (Last resort for deeply nested or oddly named keys)
-    try {
-        const jsonString = JSON.stringify(result);
-        const urlMatch = jsonString.match(/https?:\/\/[^"'\s]+\.(mp4|webm|mov)(\?[^"'\s]*)?/);
-        if (urlMatch) {
-            console.warn("[Fal.ai] Found video URL via regex fallback:", urlMatch[0]);
-            return urlMatch[0];
-        }
-    } catch(e) { /* ignore */ }
-    
-    console.error("[Fal.ai] Response structure missing video URL. Available keys:", Object.keys(result || {}));
-    throw new Error("Fal.ai generation finished but returned no video URL.");
+/**
+ * Picks up a Fal.ai request enqueued before a reload and waits for its result.
+ * `usageId` is the record the job was billed under when it was enqueued.
+ */
+export const resumeFalClip = async (
+  modelId: string,
+  requestId: string,
+  falKey: string | null,
+  job: JobContext | null = null,
+  usageId?: string
+): Promise<string> => {
+  console.log(`[Fal.ai] Resuming ${modelId} request ${requestId}...`);
+  fal.config(falKey ? { credentials: falKey } : { proxyUrl: proxyUrl('/fal') });
 
+  const meter = startUsage('Fal.ai', modelId, 'video', usageId);
+  meter.addJob();
+  try {
+    await fal.queue.subscribeToStatus(modelId, {
+      requestId,
+      logs: true,
+      abortSignal: job?.signal,
+      onQueueUpdate: (update) => reportQueueUpdate(update, job),
+    });
+    const result = await fal.queue.result(modelId, { requestId, abortSignal: job?.signal });
+    await meter.finish(true);
+    return extractVideoUrl(result.data);
   } catch (error: any) {
-      // Enhanced Error Logging
-      console.error("[Fal.ai] Subscription Error:", error);
-      if (error.body) {
-          try {
-             console.error("[Fal.ai] Error Body:", JSON.stringify(error.body, null, 2));
-          } catch (e) {
-             console.error("[Fal.ai] Error Body (Raw):", error.body);
-          }
-      }
+    await meter.finish(false);
+    if (wasCancelledByUser(job?.signal)) {
+      fal.queue.cancel(modelId, { requestId }).catch(err => console.warn("[Fal.ai] Remote cancel failed", err));
+    }
+    return rethrowFalError(error, job);
+  }
+};
 
-      // Check for specific Fal validation messages
-      if (error.body && error.body.detail && Array.isArray(error.body.detail)) {
-         const details = error.body.detail.map((d: any) => d.msg).join('; ');
-         if (details) {
-            throw new Error(`Fal.ai Validation Error: ${details}`);
-         }
-      }
-      
-      const message = error.message || "Unknown Fal.ai error";
-      throw new Error(`Fal.ai Error: ${message}`);
+/**
+ * Paints one still with a Fal.ai text-to-image model (slideshow mode). Returns the image URL.
+ */
+export const generateFalImage = async (
+  prompt: string,
+  falKey: string | null,
+  modelId: string,
+  job: JobContext | null = null,
+  params: VideoParams = {}
+): Promise<string> => {
+  console.log(`[Fal.ai] Painting still with ${modelId}...`);
+  fal.config(falKey ? { credentials: falKey } : { proxyUrl: proxyUrl('/fal') });
+
+  const meter = startUsage('Fal.ai', modelId, 'image');
+  try {
+    const result: any = await fal.subscribe(modelId, {
+      input: {
+        prompt,
+        image_size: FAL_IMAGE_SIZES[params.aspectRatio || '16:9'],
+        safety_tolerance: "2",
+        ...(params.seed !== undefined ? { seed: params.seed } : {}),
+        ...(params.negativePrompt ? { negative_prompt: params.negativePrompt } : {})
+      },
+      logs: true,
+      abortSignal: job?.signal,
+      onEnqueue: () => meter.addJob(),
+      onQueueUpdate: (update) => reportQueueUpdate(update, job),
+    });
+    await meter.finish(true);
+
+    // Flux and SDXL both return 'images': [{url: ...}]
+    const url = result?.images?.[0]?.url || result?.data?.images?.[0]?.url;
+    if (!url) throw new Error("No image returned from Fal.");
+    return url;
+  } catch (error: any) {
+    await meter.finish(false);
+    return rethrowFalError(error, job);
   }
-};
\ No newline at end of file
+};
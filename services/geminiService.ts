@@ -1,11 +1,16 @@
-import { GoogleGenAI, Type, GenerateContentResponse } from "@google/genai";
-import { StoryBeat } from "../types";
-import { SYSTEM_INSTRUCTION, ANIMATION_STYLES, VIDEO_MODELS } from "../constants";
+import { GoogleGenAI, Type, Modality, GenerateContentResponse, GenerateVideosConfig, GenerateVideosOperation, VideoGenerationReferenceImage, VideoGenerationReferenceType } from "@google/genai";
+import { StoryBeat, NarrativeProvider, AppSettings, VideoParams, VideoResumeToken } from "../types";
+import { SYSTEM_INSTRUCTION, EDITOR_SYSTEM_INSTRUCTION, VIDEO_MODELS, VEO_CLIP_SECONDS, BEAT_MOODS, GEMINI_IMAGE_MODEL } from "../constants";
 import { getSettings } from "./storageService";
-import { generateFalClip } from "./falService";
+import { buildBeatPrompt, buildGenesisPrompt } from "./promptBuilder";
+import { PROXY_KEY_PLACEHOLDER, proxyUrl, toProxiedClipUrl } from "./proxyService";
+import { startUsage, metered, UsageMeter } from "./usageService";
+import { JobContext, isCancelled, wait } from "./jobManager";
+
+const DEFAULT_GEMINI_MODEL = "gemini-3-pro-preview";
 
 // Helper to retrieve the API key string
-async function getApiKey(): Promise<string> {
+export async function getApiKey(): Promise<string> {
   // 1. Check URL Parameters (Magic Link)
   const urlParams = new URLSearchParams(window.location.search);
   const urlKey = urlParams.get('key');
@@ -45,11 +50,24 @@ async function getApiKey(): Promise<string> {
   throw new Error("No API Key found. Please enter one in the SYSTEM tab.");
 }
 
+// In proxy mode the SDK talks to our server, which signs the request with its own key
+export const createGeminiClient = async (settings: AppSettings): Promise<GoogleGenAI> => {
+  if (settings.proxyMode) {
+    return new GoogleGenAI({ apiKey: PROXY_KEY_PLACEHOLDER, httpOptions: { baseUrl: proxyUrl('/gemini') } });
+  }
+  return new GoogleGenAI({ apiKey: await getApiKey() });
+};
+
 // --- RETRY LOGIC ---
-async function withRetry<T>(fn: () => Promise<T>, retries = 5, baseDelay = 12000): Promise<T> {
+// `onRetry` lets usage accounting count the attempts that would otherwise be invisible;
+// `signal` cuts the cool-down short when the job is cancelled
+export async function withRetry<T>(fn: () => Promise<T>, retries = 5, baseDelay = 12000, onRetry?: () => void, signal?: AbortSignal): Promise<T> {
   try {
     return await fn();
   } catch (e: any) {
+    // Cancelled jobs are never retried
+    if (isCancelled(e) || signal?.aborted) throw e;
+
     // Inspect error object structure (Google GenAI can return nested error objects)
     const errBody = e.error || e;
     const message = e.message || errBody?.message || JSON.stringify(e);
@@ -67,438 +85,327 @@ async function withRetry<T>(fn: () => Promise<T>, retries = 5, baseDelay = 12000
       console.warn(`[System] Rate limit hit (429). Cooling down for ${baseDelay/1000}s... (${retries} retries left)`);
       
       // Wait for the delay
-      await new Promise(resolve => setTimeout(resolve, baseDelay));
+      await wait(baseDelay, signal);
       
       // Increase delay for next attempt (Backoff)
       // If it's a rate limit, we want to back off aggressively to clear the window (e.g. 12s -> 18s -> 27s -> 40s)
-      return withRetry(fn, retries - 1, baseDelay * 1.5);
+      onRetry?.();
+      return withRetry(fn, retries - 1, baseDelay * 1.5, onRetry, signal);
     }
 
     // For other transient errors (503, 500), we can retry with shorter backoff
     if ((status === 503 || status === 500) && retries > 0) {
        console.warn(`[System] Transient error (${status}). Retrying...`);
-       await new Promise(resolve => setTimeout(resolve, 2000));
-       return withRetry(fn, retries - 1, baseDelay); 
+       await wait(2000, signal);
+       onRetry?.();
+       return withRetry(fn, retries - 1, baseDelay, onRetry, signal); 
     }
 
     throw e;
   }
 }
 
-// --- OPENROUTER IMPLEMENTATION ---
-
-async function generateStoryBeatOpenRouter(
-    apiKey: string,
-    previousContext: string[],
-    userChoice: string | null,
-    lastFrameBase64: string | null,
-    modelId: string,
-    styleKey: string
-): Promise<StoryBeat> {
-    const prompt = userChoice
-    ? `The viewer chose: "${userChoice}". Continue the story.`
-    : `Start the first scene of a mysterious adventure involving a character finding a strange object.`;
-
-    // Internal helper to perform the fetch so we can retry cleanly
-    const makeRequest = async (includeImage: boolean) => {
-        const messages: any[] = [
-            { role: "system", content: SYSTEM_INSTRUCTION }
-        ];
-        
-        // Style Context for OpenRouter
-        const stylePrompt = ANIMATION_STYLES[styleKey] || ANIMATION_STYLES['claymation'];
-        const styleInstruction = `VISUAL STYLE REQUIREMENT: The show's visual style is "${styleKey}" (${stylePrompt}). Ensure the 'visualPrompt' explicitly describes the scene using this art style (e.g. "A claymation figure of...", "A pixel art scene of...").`;
-
-        // Smart Context: Persist the first history item if it's marked as Context
-        let historyText = "";
-        
-        // Include Context and Rules
-        const contextEntry = previousContext.find(c => c.startsWith('SERIES CONTEXT:'));
-        if (contextEntry) {
-            historyText += `${contextEntry}\n\n`;
-        }
-        
-        const rulesMatch = previousContext.find(line => line.includes('GAME RULES'));
-        if (rulesMatch) {
-            historyText += `\nCRITICAL ENGINE RULES:\n${rulesMatch}\nYou must adhere to these rules strictly.\n\n`;
-        }
-
-        historyText += `RECENT LOGS:\n${previousContext.slice(-5).join('\n')}`;
-
-        // Build User content array (Text + optional Image)
-        const userContent: any[] = [
-            { type: "text", text: `${styleInstruction}\n\nHistory: ${historyText}\n\nTask: ${prompt}` }
-        ];
-
-        if (includeImage && lastFrameBase64) {
-            userContent.push({
-                type: "image_url",
-                image_url: {
-                    url: `data:image/png;base64,${lastFrameBase64}`
-                }
-            });
-        }
-
-        messages.push({ role: "user", content: userContent });
-
-        console.log(`[OpenRouter] Generating Story using model: ${modelId} (Vision: ${includeImage})`);
-
-        const response = await fetch("https://openrouter.ai/api/v1/chat/completions", {
-            method: "POST",
-            headers: {
-                "Authorization": `Bearer ${apiKey}`,
-                "HTTP-Referer": window.location.origin,
-                "X-Title": "Living TV Show",
-                "Content-Type": "application/json"
-            },
-            body: JSON.stringify({
-                model: modelId, 
-                messages: messages
-            })
-        });
-
-        const responseText = await response.text();
-
-        if (!response.ok) {
-            if ((response.status === 404 || response.status === 400) && 
-                (responseText.includes("support image input") || responseText.includes("multimodal"))) {
-                throw new Error("IMAGE_NOT_SUPPORTED");
-            }
-            throw new Error(`OpenRouter Error: ${response.status} - ${responseText}`);
-        }
-
-        return JSON.parse(responseText);
-    };
-
-    let data;
-    try {
-        data = await makeRequest(!!lastFrameBase64);
-    } catch (e: any) {
-        if (e.message === "IMAGE_NOT_SUPPORTED" && lastFrameBase64) {
-            console.warn("[OpenRouter] Selected model does not support vision. Falling back to Text-Only mode.");
-            data = await makeRequest(false);
-        } else {
-            throw e;
-        }
-    }
-
-    if (!data || !data.choices || !data.choices[0]) {
-        console.error("[OpenRouter] Invalid Response Structure:", data);
-        throw new Error("Model returned an empty or invalid response (missing choices).");
-    }
+// --- GEMINI NARRATIVE PROVIDER ---
 
-    let text = data.choices[0].message?.content;
-    if (!text) throw new Error("OpenRouter returned empty content");
+const BEAT_RESPONSE_SCHEMA = {
+  type: Type.OBJECT,
+  properties: {
+    narrative: { type: Type.STRING },
+    visualPrompt: { type: Type.STRING },
+    choices: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          id: { type: Type.STRING },
+          text: { type: Type.STRING },
+        },
+        required: ["id", "text"],
+      },
+    },
+    mood: { type: Type.STRING, format: "enum", enum: BEAT_MOODS },
+    stateDelta: {
+      type: Type.OBJECT,
+      properties: {
+        stats: {
+          type: Type.ARRAY,
+          items: {
+            type: Type.OBJECT,
+            properties: { key: { type: Type.STRING }, change: { type: Type.NUMBER } },
+            required: ["key", "change"],
+          },
+        },
+        addItems: { type: Type.ARRAY, items: { type: Type.STRING } },
+        removeItems: { type: Type.ARRAY, items: { type: Type.STRING } },
+        flags: {
+          type: Type.ARRAY,
+          items: {
+            type: Type.OBJECT,
+            properties: { key: { type: Type.STRING }, value: { type: Type.BOOLEAN } },
+            required: ["key", "value"],
+          },
+        },
+      },
+    },
+  },
+  required: ["narrative", "visualPrompt", "choices"],
+};
 
-    // Robust JSON Extraction
-    const markdownMatch = text.match(/```json\s*([\s\S]*?)\s*```/);
-    if (markdownMatch) {
-        text = markdownMatch[1];
-    } else {
-        const jsonStartIndex = text.indexOf('{');
-        const jsonEndIndex = text.lastIndexOf('}');
-        if (jsonStartIndex !== -1 && jsonEndIndex !== -1) {
-            text = text.substring(jsonStartIndex, jsonEndIndex + 1);
-        }
-    }
+// Thinking tokens are billed as output
+const addGeminiTokens = (meter: UsageMeter, response: GenerateContentResponse) => {
+  const usage = response.usageMetadata;
+  meter.addTokens(usage?.promptTokenCount, (usage?.candidatesTokenCount || 0) + (usage?.thoughtsTokenCount || 0));
+};
 
-    try {
-        return JSON.parse(text) as StoryBeat;
-    } catch (e) {
-        console.error("JSON Parse Error:", e);
-        console.log("Raw Text:", text);
-        throw new Error("Failed to parse story beat JSON from model response.");
-    }
-}
+const generateGeminiJson = async (parts: any[], settings: AppSettings, signal?: AbortSignal): Promise<string | undefined> => {
+  const ai = await createGeminiClient(settings);
+  const model = settings.geminiModel || DEFAULT_GEMINI_MODEL;
+  const meter = startUsage('Gemini', model, 'text');
 
-/**
- * Step 1: Generate the Story Beat (Text)
- */
-export const generateStoryBeat = async (
-  previousContext: string[],
-  userChoice: string | null,
-  lastFrameBase64: string | null,
-  styleKey: string = 'claymation'
-): Promise<StoryBeat> => {
-  const apiKey = await getApiKey();
-  const settings = await getSettings();
+  const response = await metered(meter, async () => {
+    const res = (await withRetry(() => ai.models.generateContent({
+      model,
+      contents: { parts },
+      config: {
+        systemInstruction: SYSTEM_INSTRUCTION,
+        responseMimeType: "application/json",
+        responseSchema: BEAT_RESPONSE_SCHEMA,
+        abortSignal: signal,
+      },
+    }), undefined, undefined, meter.retry, signal)) as GenerateContentResponse;
+    addGeminiTokens(meter, res);
+    return res;
+  });
 
-  // Check for OpenRouter Key
-  if (apiKey.startsWith('sk-or-')) {
-      return withRetry(() => generateStoryBeatOpenRouter(
-          apiKey, 
-          previousContext, 
-          userChoice, 
-          lastFrameBase64,
-          settings.openRouterModel || 'google/gemini-2.0-flash-001',
-          styleKey
-      ));
-  }
+  return response.text;
+};
 
-  // Fallback to standard Google GenAI SDK
-  const ai = new GoogleGenAI({ apiKey });
-
-  let fullPrompt = "";
-  let characterReinforcement = "";
-  
-  // Style Guidance
-  const stylePrompt = ANIMATION_STYLES[styleKey] || ANIMATION_STYLES['claymation'];
-  fullPrompt += `ART STYLE GUIDANCE: The visual style of the show is "${styleKey}" (${stylePrompt}). Ensure the 'visualPrompt' field describes the scene specifically matching this style. For example, if claymation, mention 'clay material', 'stop motion', 'miniature'. If anime, mention 'cel shaded', '2d'.\n\n`;
-
-  // Parse context to find character details for reinforcement
-  // We look for the "SERIES CONTEXT" block injected by Lobby.tsx
-  const seriesContext = previousContext.find(line => line.startsWith('SERIES CONTEXT:'));
-  
-  // NEW: Game Logic Injection
-  const rulesMatch = previousContext.find(line => line.includes('GAME RULES'));
-  if (rulesMatch) {
-      fullPrompt += `\nCRITICAL ENGINE RULES:\n${rulesMatch}\nYou must adhere to these rules strictly. If the rules define a health system, inventory, or mechanics, you must track it in the narrative.\n\n`;
-  }
-  
-  if (seriesContext) {
-      fullPrompt += `${seriesContext}\n\n`;
-      
-      // Extract details to force the AI to use them in visual prompts
-      const nameMatch = seriesContext.match(/Character: (.*)/);
-      const descMatch = seriesContext.match(/Personality\/Description: (.*)/);
-      
-      if (nameMatch) {
-          const name = nameMatch[1].trim();
-          // Limit description length to avoid token bloat, but keep enough for visuals
-          const desc = descMatch ? descMatch[1].substring(0, 300).trim() : "distinctive appearance";
-          
-          // CRITICAL: This instruction forces the LLM to unpack "Fran" into "A woman with..." in the visual prompt.
-          characterReinforcement = `VISUAL REQUIREMENT: In the 'visualPrompt' field, you MUST explicitly describe ${name}'s physical appearance (${desc}). Do not just use the name "${name}" because the video generator does not know them.`;
-      }
-  }
-  
-  // Recent History
-  const recentHistory = previousContext.slice(-5);
-  fullPrompt += `RECENT LOGS:\n${recentHistory.join('\n')}\n\n`;
-  
-  if (characterReinforcement) {
-      fullPrompt += `${characterReinforcement}\n\n`;
-  }
+export const geminiProvider: NarrativeProvider = {
+  id: 'gemini',
+  label: 'Google Gemini',
+  getCapabilities: () => ({ vision: true, jsonMode: true }),
 
-  // Task
-  if (userChoice) {
-      fullPrompt += `TASK: The viewer chose: "${userChoice}". Continue the story.`;
-  } else if (previousContext.length > 0) {
-      fullPrompt += `TASK: Continue the story naturally from the last moment.`;
-  } else {
-      fullPrompt += `TASK: Start the first scene of a mysterious adventure involving a character finding a strange object.`;
-  }
+  generateBeat: async (request, settings) => {
+    const parts: any[] = [{ text: buildBeatPrompt(request) }];
 
-  const parts: any[] = [{ text: fullPrompt }];
+    // If we have a previous frame, show it to the text model
+    if (request.frameBase64) {
+      parts.unshift({
+        inlineData: {
+          mimeType: "image/png",
+          data: request.frameBase64,
+        },
+      });
+    }
 
-  // If we have a previous frame, show it to the text model
-  if (lastFrameBase64) {
-    parts.unshift({
-      inlineData: {
-        mimeType: "image/png",
-        data: lastFrameBase64,
-      },
+    const text = await generateGeminiJson(parts, settings, request.signal);
+    if (!text) {
+      throw new Error("Failed to generate story beat.");
+    }
+    return JSON.parse(text) as StoryBeat;
+  },
+
+  generateGenesis: async (params, settings) => {
+    const text = await generateGeminiJson([{ text: buildGenesisPrompt(params) }], settings);
+    if (!text) throw new Error("Failed to generate pilot.");
+    return JSON.parse(text) as StoryBeat;
+  },
+
+  generateText: async (prompt, settings) => {
+    const ai = await createGeminiClient(settings);
+    const model = settings.geminiModel || DEFAULT_GEMINI_MODEL;
+    const meter = startUsage('Gemini', model, 'text');
+    const response = await metered(meter, async () => {
+      const res = (await withRetry(() => ai.models.generateContent({
+        model,
+        contents: { parts: [{ text: prompt }] },
+        config: { systemInstruction: EDITOR_SYSTEM_INSTRUCTION },
+      }), undefined, undefined, meter.retry)) as GenerateContentResponse;
+      addGeminiTokens(meter, res);
+      return res;
     });
+    if (!response.text) throw new Error("Failed to generate text.");
+    return response.text.trim();
   }
+};
 
-  const response = (await withRetry(() => ai.models.generateContent({
-    model: "gemini-3-pro-preview",
-    contents: { parts },
-    config: {
-      systemInstruction: SYSTEM_INSTRUCTION,
-      responseMimeType: "application/json",
-      responseSchema: {
-        type: Type.OBJECT,
-        properties: {
-          narrative: { type: Type.STRING },
-          visualPrompt: { type: Type.STRING },
-          choices: {
-            type: Type.ARRAY,
-            items: {
-              type: Type.OBJECT,
-              properties: {
-                id: { type: Type.STRING },
-                text: { type: Type.STRING },
-              },
-              required: ["id", "text"],
-            },
-          },
-        },
-        required: ["narrative", "visualPrompt", "choices"],
-      },
-    },
-  }))) as GenerateContentResponse;
+// --- VEO POLLING ---
 
-  if (!response.text) {
-    throw new Error("Failed to generate story beat.");
+const VEO_POLL_INTERVAL = 5000;
+const VEO_MAX_WAIT = 180000;
+
+const pollVeoOperation = async (
+  ai: GoogleGenAI,
+  operation: GenerateVideosOperation,
+  meter: UsageMeter,
+  job: JobContext | null
+): Promise<string> => {
+  const signal = job?.signal;
+  const startTime = Date.now();
+
+  while (!operation.done) {
+    if (Date.now() - startTime > VEO_MAX_WAIT) {
+        throw new Error("Video generation timed out.");
+    }
+    await wait(VEO_POLL_INTERVAL, signal);
+    job?.progress(`VEO RENDERING ${Math.round((Date.now() - startTime) / 1000)}s`);
+    operation = await withRetry(() => ai.operations.getVideosOperation({ operation, config: { abortSignal: signal } }), undefined, undefined, meter.retry, signal);
   }
 
-  return JSON.parse(response.text) as StoryBeat;
+  const uri = operation.response?.generatedVideos?.[0]?.video?.uri;
+  if (!uri) {
+    throw new Error("Video generation finished but no URI found.");
+  }
+  return uri;
 };
 
-// --- NEW FUNCTION: Genesis ---
-export const generateGenesisBeat = async (
-  params: { name: string; desc: string; setting: string; themes: string[] }
-): Promise<StoryBeat> => {
-  const apiKey = await getApiKey();
-  const ai = new GoogleGenAI({ apiKey });
-  const themeStr = params.themes.join(", ");
-  const prompt = `
-    SYSTEM: You are the Pilot Writer for an interactive TV show.
-    TASK: Create the opening scene (Story Beat) based on these parameters.
-    PARAMETERS: Protagonist: ${params.name}, Appearance: ${params.desc}, Setting: ${params.setting}, Themes: ${themeStr}
-    REQUIREMENTS:
-    1. Narrative introduces character in setting.
-    2. VisualPrompt MUST include physical description of character (not just name) and setting atmosphere.
-    3. Provide 4 initial choices.
-  `;
-
-  const response = await withRetry(() => ai.models.generateContent({
-    model: "gemini-3-pro-preview",
-    contents: { parts: [{ text: prompt }] },
-    config: {
-      systemInstruction: SYSTEM_INSTRUCTION,
-      responseMimeType: "application/json",
-      responseSchema: {
-        type: Type.OBJECT,
-        properties: {
-          narrative: { type: Type.STRING },
-          visualPrompt: { type: Type.STRING },
-          choices: { type: Type.ARRAY, items: { type: Type.OBJECT, properties: { id: { type: Type.STRING }, text: { type: Type.STRING } }, required: ["id", "text"] } },
-        },
-        required: ["narrative", "visualPrompt", "choices"],
-      },
-    },
-  })) as GenerateContentResponse;
-  
-  if (!response.text) throw new Error("Failed to generate pilot.");
-  return JSON.parse(response.text) as StoryBeat;
+// Veo download links need a key; proxy mode routes them through the server instead
+const toPlayableVeoUrl = (videoUri: string, settings: AppSettings, apiKey: string): string => {
+  return settings.proxyMode ? toProxiedClipUrl(videoUri) : `${videoUri}&key=${apiKey}`;
 };
 
 /**
- * Step 2: Generate the Video (Veo OR Fal.ai)
+ * Paints one still for slideshow mode. The previous frame, when given, is passed along so the
+ * model keeps the look of the scene. Returns base64 image data.
  */
-export const generateVideoClip = async (
-  visualDescription: string,
+export const generateGeminiImage = async (
+  fullPrompt: string,
   lastFrameBase64: string | null,
-  styleKey: string = 'claymation',
-  modelKey: string = 'fast'
+  model: string = GEMINI_IMAGE_MODEL,
+  job: JobContext | null = null,
+  params: VideoParams = {}
 ): Promise<string> => {
-  const apiKey = await getApiKey();
   const settings = await getSettings();
-  const stylePrompt = ANIMATION_STYLES[styleKey] || ANIMATION_STYLES['claymation'];
-  
-  // Improved Prompt Structure: Put Style FIRST for higher adherence
-  const fullPrompt = `${stylePrompt}. ${visualDescription}, dynamic motion, action shot`;
-
-  // --- 1. FAL.AI PRIORITY OVERRIDE ---
-  if (settings.falKey && settings.falKey.trim() !== '') {
-    console.log(`[Video] Delegating to Fal.ai (${settings.falModel})...`);
-    return generateFalClip(
-        fullPrompt, 
-        lastFrameBase64, 
-        settings.falKey,
-        settings.falModel || 'fal-ai/minimax/video-01'
-    );
-  }
-
-  // --- 2. OPENROUTER VIDEO ATTEMPT ---
-  if (apiKey.startsWith('sk-or-')) {
-      console.log("[System] Attempting OpenRouter Video Generation...");
-      try {
-        const response = await fetch("https://openrouter.ai/api/v1/chat/completions", {
-            method: "POST",
-            headers: {
-                "Authorization": `Bearer ${apiKey}`,
-                "HTTP-Referer": window.location.origin,
-                "X-Title": "Living TV Show",
-                "Content-Type": "application/json"
-            },
-            body: JSON.stringify({
-                model: settings.openRouterModel || 'google/gemini-2.0-flash-001', 
-                messages: [
-                   { role: "user", content: `Generate a short video clip: ${fullPrompt}` }
-                ]
-            })
-        });
-
-        if (!response.ok) throw new Error("OpenRouter Video Request Failed");
-        
-        const data = await response.json();
-        
-        if (!data || !data.choices || !data.choices[0]) {
-             console.warn("[OpenRouter] Model returned text but no choices/content. Falling back.", data);
-             throw new Error("VIDEO_GEN_UNSUPPORTED_PROVIDER");
-        }
-        
-        const content = data.choices[0].message?.content;
-        const urlMatch = content?.match(/https?:\/\/[^\s"']+\.mp4/);
-        if (urlMatch) {
-            return urlMatch[0];
-        }
-
-        console.warn("[OpenRouter] Model returned text, not a video URL. Falling back to Slideshow Mode.");
-        throw new Error("VIDEO_GEN_UNSUPPORTED_PROVIDER");
-
-      } catch (e: any) {
-          if (e.message === "VIDEO_GEN_UNSUPPORTED_PROVIDER") throw e;
-          console.error("OpenRouter Video Error:", e);
-          throw new Error("VIDEO_GEN_UNSUPPORTED_PROVIDER");
-      }
+  const ai = await createGeminiClient(settings);
+  const parts: any[] = [];
+  if (lastFrameBase64) {
+    parts.push({ inlineData: { mimeType: 'image/png', data: lastFrameBase64 } });
+    parts.push({ text: `Next shot of the same scene, keeping the characters and look of this frame: ${fullPrompt}` });
+  } else {
+    parts.push({ text: fullPrompt });
   }
 
-  // --- 3. GOOGLE VEO IMPLEMENTATION (DEFAULT) ---
-  
-  const ai = new GoogleGenAI({ apiKey });
-  const modelName = VIDEO_MODELS[modelKey as keyof typeof VIDEO_MODELS] || VIDEO_MODELS['fast'];
+  console.log(`[Gemini] Painting still with ${model}...`);
+  const meter = startUsage('Gemini', model, 'image');
+  const response = await metered(meter, async () => {
+    const res = (await withRetry(() => ai.models.generateContent({
+      model,
+      contents: { parts },
+      config: {
+        responseModalities: [Modality.IMAGE],
+        imageConfig: { aspectRatio: params.aspectRatio || '16:9' },
+        abortSignal: job?.signal,
+      },
+    }), 2, undefined, meter.retry, job?.signal)) as GenerateContentResponse;
+    addGeminiTokens(meter, res);
+    return res;
+  });
+
+  const data = response.candidates?.[0]?.content?.parts?.find(p => p.inlineData?.data)?.inlineData?.data;
+  if (!data) throw new Error("Gemini returned no image.");
+  return data;
+};
 
-  console.log(`[Veo] Generating (${modelName}) with prompt:`, fullPrompt);
+/**
+ * Films one clip with Google Veo. `fullPrompt` already carries the style.
+ *
+ * `job` carries the AbortSignal and receives polling progress plus a resume token once Veo
+ * has accepted the request. Unset `params` fall back to an 8s 720p 16:9 clip.
+ */
+export const generateVeoClip = async (
+  fullPrompt: string,
+  lastFrameBase64: string | null,
+  modelKey: string = 'fast', // VIDEO_MODELS key or a full Veo model id
+  referenceImages: string[] = [], // Cast reference sheets (data: URLs)
+  job: JobContext | null = null,
+  params: VideoParams = {}
+): Promise<string> => {
+  const settings = await getSettings();
+  // Proxy mode never sees a key; the server adds its own
+  const apiKey = settings.proxyMode ? '' : await getApiKey();
+  const ai = await createGeminiClient(settings);
+  const modelName = VIDEO_MODELS[modelKey as keyof typeof VIDEO_MODELS] || modelKey || VIDEO_MODELS['fast'];
+  const seconds = params.duration || VEO_CLIP_SECONDS;
+
+  const config: GenerateVideosConfig = {
+    numberOfVideos: 1,
+    resolution: params.resolution || '720p',
+    aspectRatio: params.aspectRatio || '16:9',
+    durationSeconds: params.duration,
+    seed: params.seed,
+    negativePrompt: params.negativePrompt,
+    abortSignal: job?.signal
+  };
+
+  console.log(`[Veo] Generating (${modelName}, ${config.aspectRatio} ${config.resolution}) with prompt:`, fullPrompt);
+
+  const meter = startUsage('Veo', modelName, 'video');
+  const videoUri = await metered(meter, async () => {
+    let operation;
+
+    if (referenceImages.length > 0) {
+      // Reference mode can't take a start frame, so the frame rides along as a scene asset
+      const assets: VideoGenerationReferenceImage[] = [];
+      if (lastFrameBase64) {
+        assets.push({ image: { imageBytes: lastFrameBase64, mimeType: 'image/png' }, referenceType: VideoGenerationReferenceType.ASSET });
+      }
+      referenceImages.forEach(ref => {
+        const [, mimeType = 'image/jpeg', imageBytes = ''] = ref.match(/^data:([^;]+);base64,(.*)$/) || [];
+        if (imageBytes) assets.push({ image: { imageBytes, mimeType }, referenceType: VideoGenerationReferenceType.ASSET });
+      });
+
+      console.log(`[Veo] Using ${assets.length} reference images`);
+      operation = await withRetry(() => ai.models.generateVideos({
+        model: modelName,
+        prompt: fullPrompt,
+        config: { ...config, referenceImages: assets.slice(0, 3) }
+      }), undefined, undefined, meter.retry, job?.signal);
+    } else if (lastFrameBase64) {
+      operation = await withRetry(() => ai.models.generateVideos({
+        model: modelName,
+        prompt: fullPrompt, 
+        image: {
+          imageBytes: lastFrameBase64,
+          mimeType: 'image/png',
+        },
+        config
+      }), undefined, undefined, meter.retry, job?.signal);
+    } else {
+      operation = await withRetry(() => ai.models.generateVideos({
+        model: modelName,
+        prompt: fullPrompt,
+        config
+      }), undefined, undefined, meter.retry, job?.signal);
+    }
 
-  let operation;
+    console.log("[Veo] Job started. Polling...", operation);
+    // Veo bills the clip once it has the operation, whether or not we're still polling when it's done
+    meter.addVideoSeconds(seconds);
+    if (operation.name) {
+      job?.setResumeToken({ provider: 'veo', model: modelName, operationName: operation.name, seconds, usageId: meter.id });
+    }
 
-  if (lastFrameBase64) {
-    operation = await withRetry(() => ai.models.generateVideos({
-      model: modelName,
-      prompt: fullPrompt, 
-      image: {
-        imageBytes: lastFrameBase64,
-        mimeType: 'image/png',
-      },
-      config: {
-        numberOfVideos: 1,
-        resolution: '720p',
-        aspectRatio: '16:9'
-      }
-    }));
-  } else {
-    operation = await withRetry(() => ai.models.generateVideos({
-      model: modelName,
-      prompt: fullPrompt,
-      config: {
-        numberOfVideos: 1,
-        resolution: '720p',
-        aspectRatio: '16:9'
-      }
-    }));
-  }
+    return pollVeoOperation(ai, operation, meter, job);
+  });
 
-  console.log("[Veo] Job started. Polling...", operation);
-  
-  const startTime = Date.now();
-  const MAX_WAIT = 180000; 
+  return toPlayableVeoUrl(videoUri, settings, apiKey);
+};
 
-  while (!operation.done) {
-    if (Date.now() - startTime > MAX_WAIT) {
-        throw new Error("Video generation timed out.");
-    }
-    await new Promise(resolve => setTimeout(resolve, 5000)); 
-    operation = await withRetry(() => ai.operations.getVideosOperation({ operation }));
-  }
+/**
+ * Re-attaches to a Veo operation that was still rendering when the page was closed.
+ */
+export const resumeVeoClip = async (token: VideoResumeToken, job: JobContext | null = null): Promise<string> => {
+  if (!token.operationName) throw new Error("Veo resume token has no operation name.");
+  const settings = await getSettings();
+  const apiKey = settings.proxyMode ? '' : await getApiKey();
+  const ai = await createGeminiClient(settings);
+  const operation = new GenerateVideosOperation();
+  operation.name = token.operationName;
 
-  const videoUri = operation.response?.generatedVideos?.[0]?.video?.uri;
-  if (!videoUri) {
-    throw new Error("Video generation finished but no URI found.");
-  }
+  console.log(`[Veo] Resuming operation ${token.operationName}...`);
+  const meter = startUsage('Veo', token.model, 'video', token.usageId);
+  meter.addVideoSeconds(token.seconds || VEO_CLIP_SECONDS);
+  const videoUri = await metered(meter, () => pollVeoOperation(ai, operation, meter, job));
 
-  return `${videoUri}&key=${apiKey}`;
-};
\ No newline at end of file
+  return toPlayableVeoUrl(videoUri, settings, apiKey);
+};
@@ -0,0 +1,208 @@
+import { get, set } from 'idb-keyval';
+import { GenerationJob, JobKind, ResumableJob, VideoResumeToken } from '../types';
+
+// --- GENERATION JOBS ---
+// Every script and filming call runs as a job: an id, a status, provider progress and an AbortSignal.
+// Cancelling rejects the job at once; the provider call underneath stops at its next await.
+
+// Sentinel error message for cancelled/detached jobs, checked with isCancelled()
+export const JOB_CANCELLED = "JOB_CANCELLED";
+
+const RESUMABLE_KEY = 'living-tv-resumable-jobs';
+// Past this, provider-side results have likely expired
+const RESUME_MAX_AGE_MS = 6 * 60 * 60 * 1000;
+// Finished jobs kept around for the job list
+const MAX_FINISHED_JOBS = 20;
+
+type AbortReason = 'cancel' | 'detach';
+
+export interface JobContext {
+  id: string;
+  signal: AbortSignal;
+  progress: (message: string) => void;
+  // Providers call this once the remote job exists, so it can be resumed after a reload
+  setResumeToken: (token: VideoResumeToken) => void;
+}
+
+export interface JobHandle<T> {
+  id: string;
+  promise: Promise<T>;
+  cancel: () => void;
+}
+
+export interface JobOptions {
+  owner?: string;
+  // Filming context to persist alongside the resume token (video jobs on the TV only)
+  resumable?: Omit<ResumableJob, 'jobId' | 'token' | 'createdAt'>;
+}
+
+const jobs = new Map<string, GenerationJob>();
+const controllers = new Map<string, AbortController>();
+const listeners = new Set<(jobs: GenerationJob[]) => void>();
+let writeQueue: Promise<void> = Promise.resolve();
+
+export const createJobId = (): string => `job_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+
+export const isCancelled = (error: any): boolean => error?.message === JOB_CANCELLED || error?.name === 'AbortError';
+
+const notify = () => {
+  const snapshot = getJobs();
+  listeners.forEach(listener => listener(snapshot));
+};
+
+const update = (id: string, patch: Partial<GenerationJob>) => {
+  const job = jobs.get(id);
+  if (!job) return;
+  jobs.set(id, { ...job, ...patch });
+  notify();
+};
+
+// Drop the oldest finished jobs so the list doesn't grow for the whole session
+const prune = () => {
+  const finished = [...jobs.values()].filter(j => j.status !== 'running').sort((a, b) => a.startedAt - b.startedAt);
+  finished.slice(0, Math.max(0, finished.length - MAX_FINISHED_JOBS)).forEach(j => jobs.delete(j.id));
+};
+
+/**
+ * Abort-aware sleep for polling loops.
+ */
+export const wait = (ms: number, signal?: AbortSignal): Promise<void> => {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(new Error(JOB_CANCELLED));
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new Error(JOB_CANCELLED));
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+};
+
+export const throwIfCancelled = (signal?: AbortSignal) => {
+  if (signal?.aborted) throw new Error(JOB_CANCELLED);
+};
+
+// True when the job was stopped with cancelJob (the viewer asked), not detached
+export const wasCancelledByUser = (signal?: AbortSignal): boolean => signal?.aborted === true && signal.reason === 'cancel';
+
+export const startJob = <T>(
+  kind: JobKind,
+  label: string,
+  run: (ctx: JobContext) => Promise<T>,
+  options: JobOptions = {}
+): JobHandle<T> => {
+  const id = createJobId();
+  const controller = new AbortController();
+  controllers.set(id, controller);
+  jobs.set(id, {
+    id,
+    kind,
+    label,
+    owner: options.owner || null,
+    status: 'running',
+    progress: null,
+    startedAt: Date.now(),
+    finishedAt: null,
+    error: null
+  });
+  prune();
+  notify();
+  console.log(`[Jobs] ${label} started (${id})`);
+
+  const ctx: JobContext = {
+    id,
+    signal: controller.signal,
+    progress: (message) => {
+      if (!controller.signal.aborted) update(id, { progress: message });
+    },
+    setResumeToken: (token) => {
+      if (!options.resumable) return;
+      saveResumableJob({ ...options.resumable, jobId: id, token, createdAt: Date.now() });
+    }
+  };
+
+  const aborted = new Promise<never>((_, reject) => {
+    controller.signal.addEventListener('abort', () => reject(new Error(JOB_CANCELLED)), { once: true });
+  });
+
+  const promise = Promise.race([run(ctx), aborted])
+    .then(result => {
+      update(id, { status: 'done', finishedAt: Date.now() });
+      return result;
+    })
+    .catch(e => {
+      const reason = controller.signal.reason as AbortReason | undefined;
+      const status = controller.signal.aborted ? (reason === 'detach' ? 'detached' : 'cancelled') : 'failed';
+      update(id, { status, finishedAt: Date.now(), error: status === 'failed' ? (e?.message || String(e)) : null });
+      throw controller.signal.aborted ? new Error(JOB_CANCELLED) : e;
+    })
+    .finally(() => {
+      controllers.delete(id);
+      // Detached jobs keep their token so the TV can pick them up next time
+      if (options.resumable && controller.signal.reason !== 'detach') {
+        dropResumableJob(id);
+      }
+    });
+  // The caller may never await a job it cancels; don't report that as unhandled
+  promise.catch(() => {});
+
+  return { id, promise, cancel: () => cancelJob(id) };
+};
+
+export const cancelJob = (id: string, reason: AbortReason = 'cancel') => {
+  const controller = controllers.get(id);
+  if (!controller || controller.signal.aborted) return;
+  console.log(`[Jobs] ${reason === 'detach' ? 'Detaching' : 'Cancelling'} ${id}`);
+  controller.abort(reason);
+};
+
+/**
+ * Stops every running job a screen started. 'detach' stops local work but keeps resumable jobs resumable.
+ */
+export const cancelJobsFor = (owner: string, reason: AbortReason = 'cancel') => {
+  jobs.forEach(job => {
+    if (job.owner === owner && job.status === 'running') cancelJob(job.id, reason);
+  });
+};
+
+export const getJobs = (): GenerationJob[] => [...jobs.values()].sort((a, b) => a.startedAt - b.startedAt);
+
+export const subscribeToJobs = (listener: (jobs: GenerationJob[]) => void): (() => void) => {
+  listeners.add(listener);
+  return () => { listeners.delete(listener); };
+};
+
+// --- RESUME ---
+
+const readResumable = async (): Promise<ResumableJob[]> => {
+  const stored = (await get<ResumableJob[]>(RESUMABLE_KEY)) || [];
+  return stored.filter(j => Date.now() - j.createdAt < RESUME_MAX_AGE_MS);
+};
+
+// A job can settle while its token is still being written; serialise so a drop never lands first
+const updateResumable = (change: (stored: ResumableJob[]) => ResumableJob[]): Promise<void> => {
+  writeQueue = writeQueue
+    .then(async () => {
+      await set(RESUMABLE_KEY, change(await readResumable()));
+    })
+    .catch(e => console.warn("[Jobs] Failed to update resumable jobs", e));
+  return writeQueue;
+};
+
+export const saveResumableJob = (job: ResumableJob): Promise<void> => {
+  return updateResumable(stored => [...stored.filter(j => j.jobId !== job.jobId), job]);
+};
+
+export const dropResumableJob = (jobId: string): Promise<void> => {
+  return updateResumable(stored => stored.filter(j => j.jobId !== jobId));
+};
+
+// Every tape's jobs when no tapeId is given
+export const getResumableJobs = async (tapeId?: string): Promise<ResumableJob[]> => {
+  await writeQueue;
+  const stored = await readResumable();
+  return tapeId === undefined ? stored : stored.filter(j => j.tapeId === tapeId);
+};
@@ -0,0 +1,116 @@
+import { StoryBeat, AppSettings, NarrativeProvider, NarrativeProviderId, GenesisParams, WorldState, MemoryContext, TimelineNode, ChapterSummary, LorebookEntry, CastMember, ChoiceKind } from "../types";
+import { getSettings } from "./storageService";
+import { geminiProvider } from "./geminiService";
+import { openRouterProvider } from "./openRouterService";
+import { openAICompatibleProvider } from "./openAICompatibleService";
+import { testPatternProvider } from "./testPatternService";
+import { buildChapterSummaryPrompt, buildWriteInModerationPrompt } from "./promptBuilder";
+import { createChapterId } from "../utils/memory";
+import { parseModerationVerdict } from "../utils/writeIns";
+
+// --- REGISTRY ---
+// AppSettings.narrativeProvider picks one of these. Add new backends here.
+
+const PROVIDERS: Record<NarrativeProviderId, NarrativeProvider> = {
+  'gemini': geminiProvider,
+  'openrouter': openRouterProvider,
+  'openai-compatible': openAICompatibleProvider,
+  'test-pattern': testPatternProvider
+};
+
+export const NARRATIVE_PROVIDERS: NarrativeProvider[] = Object.values(PROVIDERS);
+
+export const getNarrativeProvider = (id: NarrativeProviderId): NarrativeProvider => {
+  return PROVIDERS[id] || geminiProvider;
+};
+
+// True when the selected provider has what it needs to write a beat
+export const isProviderConfigured = (settings: AppSettings): boolean => {
+  if (settings.narrativeProvider === 'test-pattern') return true;
+  if (settings.narrativeProvider === 'openai-compatible') {
+    return !!settings.customBaseUrl && !!settings.customModel;
+  }
+  // The server holds the Gemini/OpenRouter keys; the Lobby checks it actually does
+  return settings.proxyMode || !!settings.apiKey;
+};
+
+/**
+ * Step 1: Generate the Story Beat (Text)
+ */
+export const generateStoryBeat = async (
+  previousContext: string[],
+  userChoice: string | null,
+  lastFrameBase64: string | null,
+  styleKey: string = 'claymation',
+  worldState: WorldState | null = null,
+  memory: MemoryContext | null = null,
+  lorebook: LorebookEntry[] = [],
+  cast: CastMember[] = [],
+  choiceKind: ChoiceKind = 'menu',
+  signal?: AbortSignal
+): Promise<StoryBeat> => {
+  const settings = await getSettings();
+  const provider = getNarrativeProvider(settings.narrativeProvider);
+  const { vision } = provider.getCapabilities(settings);
+
+  console.log(`[Narrative] ${provider.label} writing beat (Vision: ${vision && !!lastFrameBase64})`);
+
+  return provider.generateBeat({
+    history: previousContext,
+    choice: userChoice,
+    frameBase64: vision ? lastFrameBase64 : null,
+    styleKey,
+    worldState,
+    memory,
+    lorebook,
+    cast,
+    choiceKind,
+    signal
+  }, settings);
+};
+
+export const generateGenesisBeat = async (params: GenesisParams): Promise<StoryBeat> => {
+  const settings = await getSettings();
+  const provider = getNarrativeProvider(settings.narrativeProvider);
+
+  console.log(`[Narrative] ${provider.label} writing pilot`);
+
+  return provider.generateGenesis(params, settings);
+};
+
+/**
+ * Condenses a run of beats into one chapter for long-term memory.
+ */
+export const generateChapterSummary = async (nodes: TimelineNode[], previous: ChapterSummary | null): Promise<ChapterSummary> => {
+  const settings = await getSettings();
+  const provider = getNarrativeProvider(settings.narrativeProvider);
+
+  console.log(`[Memory] ${provider.label} summarising ${nodes.length} beats`);
+
+  const summary = await provider.generateText(
+    buildChapterSummaryPrompt(nodes.map(n => n.beat.narrative), previous?.summary || null),
+    settings
+  );
+
+  return {
+    id: createChapterId(),
+    startNodeId: nodes[0].id,
+    endNodeId: nodes[nodes.length - 1].id,
+    summary: summary.trim(),
+    beatCount: nodes.length,
+    createdAt: Date.now()
+  };
+};
+
+/**
+ * Optional vetting of a typed action against content limits and the tape's rules.
+ */
+export const moderateWriteIn = async (action: string, gameRules: string | null): Promise<{ allowed: boolean; reason: string }> => {
+  const settings = await getSettings();
+  const provider = getNarrativeProvider(settings.narrativeProvider);
+
+  console.log(`[WriteIn] ${provider.label} checking "${action}"`);
+
+  const reply = await provider.generateText(buildWriteInModerationPrompt(action, gameRules), settings);
+  return parseModerationVerdict(reply);
+};
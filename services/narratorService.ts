@@ -0,0 +1,272 @@
+import { Modality } from "@google/genai";
+import { AppSettings, NarratorProviderId, NarratorVoice } from "../types";
+import { GEMINI_TTS_MODEL, GEMINI_TTS_VOICES, OPENAI_TTS_MODEL, OPENAI_TTS_VOICES } from "../constants";
+import { getSettings } from "./storageService";
+import { createGeminiClient, withRetry } from "./geminiService";
+import { startUsage, metered } from "./usageService";
+import { JOB_CANCELLED, throwIfCancelled } from "./jobManager";
+
+// --- NARRATOR ---
+// Reads each beat's narrative aloud. Web Speech works offline but plays straight to the speakers;
+// cloud providers return audio, which is what lets the narration go into an episode export.
+
+// What a provider is asked to say with, after tape and viewer settings are merged
+export interface ResolvedNarratorVoice {
+  voice: string;  // '' = the provider's default
+  rate: number;
+  pitch: number;
+}
+
+interface NarratorProvider {
+  id: NarratorProviderId;
+  label: string;
+  defaultModel: string;
+  listVoices: () => Promise<string[]>;
+  speak: (text: string, voice: ResolvedNarratorVoice, settings: AppSettings, signal: AbortSignal) => Promise<void>;
+  // Only providers that return audio can be recorded into an export
+  synthesize?: (text: string, voice: ResolvedNarratorVoice, settings: AppSettings, signal?: AbortSignal) => Promise<Blob>;
+}
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+// --- AUDIO HELPERS ---
+
+// Gemini TTS returns raw 16-bit mono PCM; wrap it in a WAV header so <audio> and decodeAudioData accept it
+const pcmToWav = (base64: string, sampleRate: number = 24000): Blob => {
+  const pcm = Uint8Array.from(atob(base64), c => c.charCodeAt(0));
+  const header = new DataView(new ArrayBuffer(44));
+  const writeText = (offset: number, text: string) => {
+    for (let i = 0; i < text.length; i++) header.setUint8(offset + i, text.charCodeAt(i));
+  };
+
+  writeText(0, 'RIFF');
+  header.setUint32(4, 36 + pcm.length, true);
+  writeText(8, 'WAVE');
+  writeText(12, 'fmt ');
+  header.setUint32(16, 16, true);
+  header.setUint16(20, 1, true);              // PCM
+  header.setUint16(22, 1, true);              // Mono
+  header.setUint32(24, sampleRate, true);
+  header.setUint32(28, sampleRate * 2, true); // Byte rate
+  header.setUint16(32, 2, true);              // Block align
+  header.setUint16(34, 16, true);             // Bits per sample
+  writeText(36, 'data');
+  header.setUint32(40, pcm.length, true);
+
+  return new Blob([header.buffer, pcm], { type: 'audio/wav' });
+};
+
+// Plays synthesized narration; resolves when it ends or the signal aborts
+const playBlob = (blob: Blob, rate: number, signal: AbortSignal): Promise<void> => {
+  return new Promise((resolve, reject) => {
+    if (signal.aborted) return resolve();
+    const url = URL.createObjectURL(blob);
+    const audio = new Audio(url);
+    audio.playbackRate = rate;
+
+    const done = () => {
+      signal.removeEventListener('abort', onAbort);
+      audio.pause();
+      URL.revokeObjectURL(url);
+      resolve();
+    };
+    const onAbort = () => done();
+
+    audio.onended = done;
+    audio.onerror = () => {
+      signal.removeEventListener('abort', onAbort);
+      URL.revokeObjectURL(url);
+      reject(new Error("Narration audio could not be played."));
+    };
+    signal.addEventListener('abort', onAbort, { once: true });
+    audio.play().catch(e => {
+      done();
+      // Autoplay blocked until the viewer interacts; not worth failing the beat over
+      console.warn("[Narrator] Playback blocked", e);
+    });
+  });
+};
+
+// Cloud providers speak by synthesizing and playing the result.
+// `rateOnPlayback` is for APIs with no speed parameter; the rate is applied by the player instead.
+const speakSynthesized = (synthesize: NonNullable<NarratorProvider['synthesize']>, rateOnPlayback: boolean): NarratorProvider['speak'] => {
+  return async (text, voice, settings, signal) => {
+    const blob = await synthesize(text, voice, settings, signal);
+    throwIfCancelled(signal);
+    await playBlob(blob, rateOnPlayback ? voice.rate : 1, signal);
+  };
+};
+
+// --- WEB SPEECH ---
+
+// Chrome fills the voice list asynchronously on first use
+const loadSpeechVoices = (): Promise<SpeechSynthesisVoice[]> => {
+  if (typeof window === 'undefined' || !window.speechSynthesis) return Promise.resolve([]);
+  const voices = window.speechSynthesis.getVoices();
+  if (voices.length > 0) return Promise.resolve(voices);
+
+  return new Promise(resolve => {
+    const timer = setTimeout(() => resolve(window.speechSynthesis.getVoices()), 1000);
+    window.speechSynthesis.addEventListener('voiceschanged', () => {
+      clearTimeout(timer);
+      resolve(window.speechSynthesis.getVoices());
+    }, { once: true });
+  });
+};
+
+const speakWithWebSpeech: NarratorProvider['speak'] = async (text, voice, _settings, signal) => {
+  if (!window.speechSynthesis) throw new Error("This browser has no speech synthesis.");
+  const voices = await loadSpeechVoices();
+  throwIfCancelled(signal);
+
+  return new Promise((resolve, reject) => {
+    const utterance = new SpeechSynthesisUtterance(text);
+    const match = voice.voice ? voices.find(v => v.name === voice.voice) : undefined;
+    if (match) utterance.voice = match;
+    utterance.rate = voice.rate;
+    utterance.pitch = voice.pitch;
+
+    const onAbort = () => window.speechSynthesis.cancel();
+    utterance.onend = () => {
+      signal.removeEventListener('abort', onAbort);
+      resolve();
+    };
+    utterance.onerror = (e) => {
+      signal.removeEventListener('abort', onAbort);
+      // cancel() reports itself as an error; that's a stop, not a failure
+      if (e.error === 'canceled' || e.error === 'interrupted') resolve();
+      else reject(new Error(`Speech synthesis failed: ${e.error}`));
+    };
+    signal.addEventListener('abort', onAbort, { once: true });
+
+    // Anything still queued belongs to an earlier beat
+    window.speechSynthesis.cancel();
+    window.speechSynthesis.speak(utterance);
+  });
+};
+
+// --- CLOUD PROVIDERS ---
+
+const synthesizeWithGemini: NonNullable<NarratorProvider['synthesize']> = async (text, voice, settings, signal) => {
+  const model = settings.narratorModel || GEMINI_TTS_MODEL;
+  const ai = await createGeminiClient(settings);
+  const meter = startUsage('Gemini', model, 'speech');
+
+  const response = await metered(meter, () => withRetry(() => ai.models.generateContent({
+    model,
+    contents: [{ parts: [{ text }] }],
+    config: {
+      responseModalities: [Modality.AUDIO],
+      speechConfig: { voiceConfig: { prebuiltVoiceConfig: { voiceName: voice.voice || GEMINI_TTS_VOICES[0] } } },
+      abortSignal: signal
+    }
+  }), 2, 4000, meter.retry, signal).then(res => {
+    meter.addTokens(res.usageMetadata?.promptTokenCount, res.usageMetadata?.candidatesTokenCount);
+    return res;
+  }));
+
+  const data = response.candidates?.[0]?.content?.parts?.find(p => p.inlineData?.data)?.inlineData?.data;
+  if (!data) throw new Error("Gemini TTS returned no audio.");
+  return pcmToWav(data);
+};
+
+// POST /audio/speech on the OpenAI-compatible endpoint (OpenAI itself, or a local TTS server)
+const synthesizeWithEndpoint: NonNullable<NarratorProvider['synthesize']> = async (text, voice, settings, signal) => {
+  if (!settings.customBaseUrl) throw new Error("No endpoint configured. Set the base URL in the SYSTEM tab.");
+  const model = settings.narratorModel || OPENAI_TTS_MODEL;
+  const meter = startUsage('Endpoint', model, 'speech');
+
+  return metered(meter, () => withRetry(async () => {
+    const headers: Record<string, string> = { "Content-Type": "application/json" };
+    if (settings.customApiKey) headers["Authorization"] = `Bearer ${settings.customApiKey}`;
+
+    const response = await fetch(`${settings.customBaseUrl.replace(/\/+$/, '')}/audio/speech`, {
+      method: "POST",
+      headers,
+      body: JSON.stringify({
+        model,
+        input: text,
+        voice: voice.voice || OPENAI_TTS_VOICES[0],
+        speed: clamp(voice.rate, 0.25, 4),
+        response_format: 'mp3'
+      }),
+      signal
+    });
+    if (!response.ok) {
+      throw new Error(`Endpoint TTS Error: ${response.status} - ${await response.text()}`);
+    }
+    // Billed per character
+    meter.addTokens(text.length);
+    return response.blob();
+  }, 2, 4000, meter.retry, signal));
+};
+
+// --- REGISTRY ---
+
+const PROVIDERS: Record<NarratorProviderId, NarratorProvider> = {
+  'web-speech': {
+    id: 'web-speech',
+    label: 'Browser Voice (Offline)',
+    defaultModel: '',
+    listVoices: async () => (await loadSpeechVoices()).map(v => v.name),
+    speak: speakWithWebSpeech
+  },
+  'gemini': {
+    id: 'gemini',
+    label: 'Gemini TTS',
+    defaultModel: GEMINI_TTS_MODEL,
+    listVoices: async () => GEMINI_TTS_VOICES,
+    speak: speakSynthesized(synthesizeWithGemini, true),
+    synthesize: synthesizeWithGemini
+  },
+  'openai-compatible': {
+    id: 'openai-compatible',
+    label: 'OpenAI-Compatible Endpoint',
+    defaultModel: OPENAI_TTS_MODEL,
+    listVoices: async () => OPENAI_TTS_VOICES,
+    speak: speakSynthesized(synthesizeWithEndpoint, false),
+    synthesize: synthesizeWithEndpoint
+  }
+};
+
+export const NARRATOR_PROVIDERS = Object.values(PROVIDERS);
+
+export const getNarratorProvider = (id: NarratorProviderId): NarratorProvider => PROVIDERS[id] || PROVIDERS['web-speech'];
+
+// True when the narrator's audio can go into an export (Web Speech can't be captured)
+export const canRecordNarration = (settings: AppSettings): boolean => !!getNarratorProvider(settings.narratorProvider).synthesize;
+
+/**
+ * The tape's narrator wins over the viewer's settings, field by field.
+ */
+export const resolveNarratorVoice = (settings: AppSettings, tapeVoice?: NarratorVoice): ResolvedNarratorVoice => ({
+  voice: tapeVoice?.voice || settings.narratorVoice || '',
+  rate: clamp(tapeVoice?.rate ?? settings.narratorRate ?? 1, 0.5, 2),
+  pitch: clamp(tapeVoice?.pitch ?? settings.narratorPitch ?? 1, 0, 2)
+});
+
+/**
+ * Reads `text` aloud; resolves when it finishes or `signal` aborts (which stops the voice).
+ */
+export const speakNarration = async (text: string, tapeVoice: NarratorVoice | undefined, signal: AbortSignal): Promise<void> => {
+  if (!text.trim() || signal.aborted) return;
+  const settings = await getSettings();
+  const provider = getNarratorProvider(settings.narratorProvider);
+  try {
+    await provider.speak(text, resolveNarratorVoice(settings, tapeVoice), settings, signal);
+  } catch (e: any) {
+    if (signal.aborted || e?.message === JOB_CANCELLED) return;
+    throw e;
+  }
+};
+
+/**
+ * Narration as an audio file for export, or null when the selected provider can't produce one.
+ */
+export const synthesizeNarration = async (text: string, tapeVoice?: NarratorVoice, signal?: AbortSignal): Promise<Blob | null> => {
+  if (!text.trim()) return null;
+  const settings = await getSettings();
+  const provider = getNarratorProvider(settings.narratorProvider);
+  if (!provider.synthesize) return null;
+  return provider.synthesize(text, resolveNarratorVoice(settings, tapeVoice), settings, signal);
+};
@@ -0,0 +1,174 @@
+import { StoryBeat, AppSettings, NarrativeProvider, NarrativeProviderId, ProviderCapabilities } from "../types";
+import { SYSTEM_INSTRUCTION, EDITOR_SYSTEM_INSTRUCTION } from "../constants";
+import { buildBeatPrompt, buildGenesisPrompt, parseBeatJson } from "./promptBuilder";
+import { withRetry } from "./geminiService";
+import { startUsage, metered, UsageMeter } from "./usageService";
+
+// Everything needed to talk to one /chat/completions endpoint
+export interface ChatCompletionsConfig {
+  baseUrl: string;                  // Up to and including /v1
+  model: string;
+  apiKey?: string;
+  headers?: Record<string, string>; // Extra headers (e.g. OpenRouter attribution)
+  capabilities: ProviderCapabilities;
+  tag: string;                      // Log prefix
+}
+
+const completionsUrl = (baseUrl: string) => `${baseUrl.replace(/\/+$/, '')}/chat/completions`;
+
+/**
+ * Sends one prompt (plus an optional frame) to a chat completions endpoint and returns the reply text.
+ * If the model rejects images we retry once text-only. `json` asks for JSON mode where the endpoint has it.
+ * Token counts (when the endpoint reports them) go to `meter`; `signal` aborts the fetch.
+ */
+export const requestChatText = async (
+  config: ChatCompletionsConfig,
+  prompt: string,
+  frameBase64: string | null,
+  systemInstruction: string = SYSTEM_INSTRUCTION,
+  json: boolean = true,
+  meter?: UsageMeter,
+  signal?: AbortSignal
+): Promise<string> => {
+  // Internal helper to perform the fetch so we can retry cleanly
+  const makeRequest = async (includeImage: boolean) => {
+    const userContent: any[] = [{ type: "text", text: prompt }];
+
+    if (includeImage && frameBase64) {
+      userContent.push({
+        type: "image_url",
+        image_url: { url: `data:image/png;base64,${frameBase64}` }
+      });
+    }
+
+    const body: any = {
+      model: config.model,
+      messages: [
+        { role: "system", content: systemInstruction },
+        { role: "user", content: userContent }
+      ]
+    };
+    if (json && config.capabilities.jsonMode) {
+      body.response_format = { type: "json_object" };
+    }
+
+    console.log(`[${config.tag}] Generating ${json ? 'Story' : 'Text'} using model: ${config.model} (Vision: ${includeImage})`);
+
+    const headers: Record<string, string> = { "Content-Type": "application/json", ...config.headers };
+    if (config.apiKey) headers["Authorization"] = `Bearer ${config.apiKey}`;
+
+    const response = await fetch(completionsUrl(config.baseUrl), {
+      method: "POST",
+      headers,
+      body: JSON.stringify(body),
+      signal
+    });
+
+    const responseText = await response.text();
+
+    if (!response.ok) {
+      if ((response.status === 404 || response.status === 400) &&
+          (responseText.includes("support image input") || responseText.includes("multimodal") || responseText.includes("image_url"))) {
+        throw new Error("IMAGE_NOT_SUPPORTED");
+      }
+      throw new Error(`${config.tag} Error: ${response.status} - ${responseText}`);
+    }
+
+    const data = JSON.parse(responseText);
+    meter?.addTokens(data?.usage?.prompt_tokens, data?.usage?.completion_tokens);
+    return data;
+  };
+
+  const wantsImage = config.capabilities.vision && !!frameBase64;
+  let data;
+  try {
+    data = await makeRequest(wantsImage);
+  } catch (e: any) {
+    if (e.message === "IMAGE_NOT_SUPPORTED" && wantsImage) {
+      console.warn(`[${config.tag}] Selected model does not support vision. Falling back to Text-Only mode.`);
+      meter?.retry();
+      data = await makeRequest(false);
+    } else {
+      throw e;
+    }
+  }
+
+  if (!data || !data.choices || !data.choices[0]) {
+    console.error(`[${config.tag}] Invalid Response Structure:`, data);
+    throw new Error("Model returned an empty or invalid response (missing choices).");
+  }
+
+  const text = data.choices[0].message?.content;
+  if (!text) throw new Error(`${config.tag} returned empty content`);
+
+  return text;
+};
+
+export const requestChatBeat = async (
+  config: ChatCompletionsConfig,
+  prompt: string,
+  frameBase64: string | null,
+  meter?: UsageMeter,
+  signal?: AbortSignal
+): Promise<StoryBeat> => {
+  return parseBeatJson(await requestChatText(config, prompt, frameBase64, SYSTEM_INSTRUCTION, true, meter, signal));
+};
+
+// One metered call including its retries
+const meteredChat = <T>(config: ChatCompletionsConfig, run: (meter: UsageMeter) => Promise<T>, signal?: AbortSignal): Promise<T> => {
+  const meter = startUsage(config.tag, config.model, 'text');
+  return metered(meter, () => withRetry(() => run(meter), undefined, undefined, meter.retry, signal));
+};
+
+/**
+ * Builds a NarrativeProvider for any endpoint speaking the OpenAI chat completions API.
+ * `resolveConfig` reads the endpoint details from settings at call time.
+ */
+export const createChatCompletionsProvider = (
+  id: NarrativeProviderId,
+  label: string,
+  getCapabilities: (settings: AppSettings) => ProviderCapabilities,
+  resolveConfig: (settings: AppSettings) => Promise<ChatCompletionsConfig>
+): NarrativeProvider => ({
+  id,
+  label,
+  getCapabilities,
+  generateBeat: async (request, settings) => {
+    const config = await resolveConfig(settings);
+    return meteredChat(config, meter => requestChatBeat(config, buildBeatPrompt(request), request.frameBase64, meter, request.signal), request.signal);
+  },
+  generateGenesis: async (params, settings) => {
+    const config = await resolveConfig(settings);
+    return meteredChat(config, meter => requestChatBeat(config, buildGenesisPrompt(params), null, meter));
+  },
+  generateText: async (prompt, settings) => {
+    const config = await resolveConfig(settings);
+    return meteredChat(config, meter => requestChatText(config, prompt, null, EDITOR_SYSTEM_INSTRUCTION, false, meter));
+  }
+});
+
+// --- SELF-HOSTED / GENERIC ENDPOINT ---
+// llama.cpp server, vLLM, Ollama (/v1), LM Studio and friends.
+
+const customCapabilities = (settings: AppSettings): ProviderCapabilities => ({
+  vision: !!settings.customVision,
+  jsonMode: !!settings.customJsonMode
+});
+
+export const openAICompatibleProvider = createChatCompletionsProvider(
+  'openai-compatible',
+  'OpenAI-Compatible Endpoint',
+  customCapabilities,
+  async (settings) => {
+    if (!settings.customBaseUrl || !settings.customModel) {
+      throw new Error("No endpoint configured. Set the base URL and model in the SYSTEM tab.");
+    }
+    return {
+      baseUrl: settings.customBaseUrl,
+      model: settings.customModel,
+      apiKey: settings.customApiKey || undefined,
+      capabilities: customCapabilities(settings),
+      tag: 'Endpoint'
+    };
+  }
+);
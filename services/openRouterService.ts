@@ -1,4 +1,9 @@
-import { OpenRouterModel } from "../types";
+import { AppSettings, OpenRouterModel, ProviderCapabilities } from "../types";
+import { createChatCompletionsProvider } from "./openAICompatibleService";
+import { getApiKey } from "./geminiService";
+import { proxyUrl } from "./proxyService";
+import { setOpenRouterPricing, startUsage } from "./usageService";
+import { JobContext, isCancelled } from "./jobManager";
 
 export const fetchOpenRouterModels = async (): Promise<OpenRouterModel[]> => {
   try {
@@ -16,6 +21,7 @@ export const fetchOpenRouterModels = async (): Promise<OpenRouterModel[]> => {
 
     const data = await response.json();
     const models = data.data as OpenRouterModel[];
+    setOpenRouterPricing(models);
 
     // Sort: Google models first, then alphabetical
     return models.sort((a, b) => {
@@ -30,4 +36,90 @@ export const fetchOpenRouterModels = async (): Promise<OpenRouterModel[]> => {
     console.error("OpenRouter Fetch Error:", error);
     return [];
   }
-};
\ No newline at end of file
+};
+
+// --- NARRATIVE PROVIDER ---
+
+const openRouterCapabilities = (): ProviderCapabilities => ({
+  vision: true,   // Per model; requestChatBeat falls back to text-only when rejected
+  jsonMode: false // Not every routed model honours response_format
+});
+
+export const openRouterProvider = createChatCompletionsProvider(
+  'openrouter',
+  'OpenRouter',
+  openRouterCapabilities,
+  async (settings) => ({
+    baseUrl: settings.proxyMode ? proxyUrl('/openrouter') : "https://openrouter.ai/api/v1",
+    model: settings.openRouterModel || 'google/gemini-2.0-flash-001',
+    apiKey: settings.proxyMode ? undefined : await getApiKey(),
+    headers: {
+      "HTTP-Referer": window.location.origin,
+      "X-Title": "Living TV Show"
+    },
+    capabilities: openRouterCapabilities(),
+    tag: 'OpenRouter'
+  })
+);
+
+// --- VIDEO ---
+
+/**
+ * Asks a routed chat model for a clip. Almost none return one; anything but an .mp4 link
+ * throws VIDEO_GEN_UNSUPPORTED_PROVIDER so the video chain moves on.
+ */
+export const generateOpenRouterClip = async (
+  fullPrompt: string,
+  model: string,
+  settings: AppSettings,
+  job: JobContext | null = null
+): Promise<string> => {
+  console.log("[System] Attempting OpenRouter Video Generation...");
+  const orModel = model || settings.openRouterModel || 'google/gemini-2.0-flash-001';
+  const meter = startUsage('OpenRouter', orModel, 'video');
+  try {
+    const response = await fetch(settings.proxyMode ? proxyUrl('/openrouter/chat/completions') : "https://openrouter.ai/api/v1/chat/completions", {
+        method: "POST",
+        signal: job?.signal,
+        headers: {
+            ...(settings.proxyMode ? {} : { "Authorization": `Bearer ${await getApiKey()}` }),
+            "HTTP-Referer": window.location.origin,
+            "X-Title": "Living TV Show",
+            "Content-Type": "application/json"
+        },
+        body: JSON.stringify({
+            model: orModel, 
+            messages: [
+               { role: "user", content: `Generate a short video clip: ${fullPrompt}` }
+            ]
+        })
+    });
+
+    if (!response.ok) throw new Error("OpenRouter Video Request Failed");
+    
+    const data = await response.json();
+    // The tokens are billed whether or not a video came back
+    meter.addTokens(data?.usage?.prompt_tokens, data?.usage?.completion_tokens);
+    await meter.finish(true);
+    
+    if (!data || !data.choices || !data.choices[0]) {
+         console.warn("[OpenRouter] Model returned text but no choices/content. Falling back.", data);
+         throw new Error("VIDEO_GEN_UNSUPPORTED_PROVIDER");
+    }
+    
+    const content = data.choices[0].message?.content;
+    const urlMatch = content?.match(/https?:\/\/[^\s"']+\.mp4/);
+    if (urlMatch) {
+        return urlMatch[0];
+    }
+
+    console.warn("[OpenRouter] Model returned text, not a video URL. Falling back.");
+    throw new Error("VIDEO_GEN_UNSUPPORTED_PROVIDER");
+
+  } catch (e: any) {
+      await meter.finish(false);
+      if (e.message === "VIDEO_GEN_UNSUPPORTED_PROVIDER" || isCancelled(e)) throw e;
+      console.error("OpenRouter Video Error:", e);
+      throw new Error("VIDEO_GEN_UNSUPPORTED_PROVIDER");
+  }
+};
@@ -0,0 +1,166 @@
+import { Choice, StoryBeat, WorldState, MemoryContext, LorebookEntry, CastMember, VideoParams } from "../types";
+import { generateStoryBeat } from "./narrativeProviders";
+import { generateVideoClip, getFootageStatus, toBeatFootage } from "./videoProviders";
+import { buildShot } from "../utils/cast";
+import { startJob, JobContext, JobHandle } from "./jobManager";
+
+// --- PRE-ROLL ---
+// While a clip plays we write (and optionally film) the next scene for the visible choices,
+// so picking one of them can cut straight to it.
+
+export interface PreRollOptions {
+  parentId: string;
+  history: string[];               // Branch history up to and including the parent beat
+  frameBase64: string | null;      // Still shown to the script writer
+  videoFrameBase64: string | null; // Still handed to the video model (null for placeholder imports)
+  styleKey: string;
+  worldState: WorldState | null;
+  memory: MemoryContext | null;
+  lorebook: LorebookEntry[];
+  cast: CastMember[];
+  videoModel: string;
+  videoParams?: VideoParams; // The tape's overrides
+  includeVideo: boolean;
+  budget: number;      // How many choices to pre-generate
+  concurrency: number; // How many to run at once
+  jobOwner?: string;   // Tags the generation jobs so the screen can cancel them
+}
+
+export interface PreRollTake {
+  choice: string;
+  beat: StoryBeat;
+  videoUrl: string | null;
+  still: string | null; // Slideshow still painted instead of a clip
+  status: string; // Playback stage to show once revealed
+}
+
+type PreRollJobState = 'queued' | 'running' | 'ready' | 'failed' | 'cancelled';
+
+interface PreRollJob {
+  choice: string;
+  state: PreRollJobState;
+  handle: JobHandle<PreRollTake> | null;
+  result: PreRollTake | null;
+  claimed: boolean; // Handed to the TV by take(); cancelling the session no longer aborts it
+}
+
+export interface PreRollProgress {
+  ready: number;
+  running: number;
+  total: number;
+}
+
+export interface PreRollSession {
+  parentId: string;
+  take: (choiceText: string) => Promise<PreRollTake> | null;
+  readyAlternates: (excludeChoice: string | null) => PreRollTake[];
+  cancel: () => void;
+  progress: () => PreRollProgress;
+}
+
+const runJob = async (choice: string, options: PreRollOptions, job: JobContext): Promise<PreRollTake> => {
+  const beat = await generateStoryBeat(options.history, choice, options.frameBase64, options.styleKey, options.worldState, options.memory, options.lorebook, options.cast, 'menu', job.signal);
+
+  if (!options.includeVideo) {
+    return { choice, beat, videoUrl: null, still: null, status: 'NEEDS VIDEO' };
+  }
+
+  try {
+    const shot = buildShot(beat, options.cast);
+    job.progress('FILMING');
+    const clip = await generateVideoClip(shot.prompt, options.videoFrameBase64, options.styleKey, options.videoModel, shot.references, job, options.videoParams);
+    return { choice, beat: { ...beat, footage: toBeatFootage(clip) }, videoUrl: clip.url, still: clip.still || null, status: getFootageStatus(clip) };
+  } catch (e: any) {
+    if (e.message === "VIDEO_GEN_UNSUPPORTED_PROVIDER") {
+      return { choice, beat, videoUrl: null, still: null, status: 'TEXT-ONLY MODE (NO VIDEO)' };
+    }
+    throw e;
+  }
+};
+
+/**
+ * Starts pre-generating the first `budget` choices, `concurrency` at a time.
+ * `onChange` fires whenever a job starts, lands or fails, until the session is cancelled.
+ */
+export const startPreRoll = (
+  choices: Choice[],
+  options: PreRollOptions,
+  onChange?: (progress: PreRollProgress) => void
+): PreRollSession => {
+  const jobs: PreRollJob[] = choices.slice(0, Math.max(0, options.budget)).map(c => ({
+    choice: c.text,
+    state: 'queued',
+    handle: null,
+    result: null,
+    claimed: false
+  }));
+  let cancelled = false;
+
+  const progress = (): PreRollProgress => ({
+    ready: jobs.filter(j => j.state === 'ready').length,
+    running: jobs.filter(j => j.state === 'running').length,
+    total: jobs.length
+  });
+
+  const notify = () => {
+    if (!cancelled) onChange?.(progress());
+  };
+
+  const pump = () => {
+    if (cancelled) return;
+    const running = jobs.filter(j => j.state === 'running').length;
+    const next = jobs.find(j => j.state === 'queued');
+    if (!next || running >= Math.max(1, options.concurrency)) return;
+
+    next.state = 'running';
+    console.log(`[PreRoll] Writing "${next.choice}"`);
+    next.handle = startJob('preroll', `Pre-roll "${next.choice}"`, job => runJob(next.choice, options, job), { owner: options.jobOwner });
+    next.handle.promise.then(result => {
+      if (next.state !== 'running') return;
+      next.state = 'ready';
+      next.result = result;
+      console.log(`[PreRoll] Ready: "${next.choice}"`);
+    }).catch(e => {
+      if (next.state !== 'running') return;
+      next.state = 'failed';
+      console.warn(`[PreRoll] Failed: "${next.choice}"`, e);
+    }).finally(() => {
+      notify();
+      pump();
+    });
+
+    notify();
+    pump();
+  };
+
+  pump();
+
+  return {
+    parentId: options.parentId,
+
+    // In-flight or finished work for a choice; null if it never started or failed
+    take: (choiceText) => {
+      const job = jobs.find(j => j.choice === choiceText);
+      if (!job || !job.handle || job.state === 'failed' || job.state === 'cancelled') return null;
+      job.claimed = true;
+      return job.handle.promise;
+    },
+
+    readyAlternates: (excludeChoice) => {
+      return jobs.filter(j => j.state === 'ready' && j.result && j.choice !== excludeChoice).map(j => j.result!);
+    },
+
+    // Queued jobs never start; running ones are aborted unless the TV already took them
+    cancel: () => {
+      if (cancelled) return;
+      cancelled = true;
+      jobs.forEach(j => {
+        if (j.state !== 'queued' && j.state !== 'running') return;
+        if (j.state === 'running' && !j.claimed) j.handle?.cancel();
+        j.state = 'cancelled';
+      });
+    },
+
+    progress
+  };
+};
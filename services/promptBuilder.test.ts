@@ -0,0 +1,16 @@
+import { describe, it, expect } from 'vitest';
+import { parseBeatJson } from './promptBuilder';
+
+const beat = { narrative: 'N', visualPrompt: 'V', choices: [{ id: '1', text: 'Go' }] };
+
+describe('parseBeatJson', () => {
+  it('reads plain, fenced and chatty replies', () => {
+    expect(parseBeatJson(JSON.stringify(beat))).toEqual(beat);
+    expect(parseBeatJson('```json\n' + JSON.stringify(beat) + '\n```')).toEqual(beat);
+    expect(parseBeatJson(`Here you go: ${JSON.stringify(beat)} Enjoy!`)).toEqual(beat);
+  });
+
+  it('throws on a reply without JSON', () => {
+    expect(() => parseBeatJson('no beat today')).toThrow('Failed to parse story beat JSON');
+  });
+});
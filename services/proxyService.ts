@@ -0,0 +1,37 @@
+import { ProxyStatus } from "../types";
+
+// --- SERVER PROXY CLIENT ---
+// In proxy mode provider calls go to server/proxyRoutes.js, which adds the keys on the way out.
+
+const PROXY_BASE = '/api/proxy';
+const GEMINI_HOST = 'https://generativelanguage.googleapis.com';
+
+// The Gemini SDK insists on a key; the proxy throws this one away
+export const PROXY_KEY_PLACEHOLDER = 'server-held';
+
+export const proxyUrl = (path: string): string => `${window.location.origin}${PROXY_BASE}${path}`;
+
+// Veo hands back a googleapis download link; stream it through the proxy instead of appending a key
+export const toProxiedClipUrl = (videoUri: string): string => {
+  return videoUri.startsWith(GEMINI_HOST) ? proxyUrl(`/gemini${videoUri.slice(GEMINI_HOST.length)}`) : videoUri;
+};
+
+let statusRequest: Promise<ProxyStatus> | null = null;
+
+/**
+ * Which keys the server holds. Cached for the session; a failed check is retried next time.
+ */
+export const getProxyStatus = (refresh: boolean = false): Promise<ProxyStatus> => {
+  if (!statusRequest || refresh) {
+    statusRequest = fetch(`${PROXY_BASE}/status`)
+      .then(res => {
+        if (!res.ok) throw new Error(`Proxy Error: ${res.status}`);
+        return res.json() as Promise<ProxyStatus>;
+      })
+      .catch(e => {
+        statusRequest = null;
+        throw e;
+      });
+  }
+  return statusRequest;
+};
@@ -0,0 +1,292 @@
+import { SoundBed, SoundBedKind } from '../types';
+import { getBedAudio } from './soundtrackService';
+
+// --- SOUNDTRACK PLAYER ---
+// Two looping layers (music, ambience) on one AudioContext. Changing a layer's bed crossfades the old one out.
+
+const CROSSFADE_S = 3;
+const DUCKED_GAIN = 0.35; // Whole soundtrack under the narrator
+
+export interface SoundtrackPlayer {
+  play: (kind: SoundBedKind, bed: SoundBed | null) => Promise<void>;
+  setVolume: (kind: SoundBedKind, volume: number) => void;
+  setDucked: (ducked: boolean) => void;
+  close: () => void;
+}
+
+interface PlayingBed {
+  id: string;
+  fade: GainNode;
+  stop: () => void;
+}
+
+// --- BUILT-IN BEDS ---
+// Slow chord pads per mood and filtered-noise ambiences. Each returns a stop function.
+
+interface PadRecipe {
+  root: number;       // Hz
+  chords: number[][]; // Semitones above root, cycled one per bar
+  wave: OscillatorType;
+  cutoff: number;     // Lowpass Hz
+  barSeconds: number;
+  pulse?: number;     // Tremolo Hz for restless moods
+}
+
+const PADS: Record<string, PadRecipe> = {
+  calm: { root: 220, chords: [[0, 4, 7, 11], [5, 9, 12, 16]], wave: 'sine', cutoff: 1200, barSeconds: 8 },
+  tense: { root: 110, chords: [[0, 1, 7], [0, 6, 7]], wave: 'sawtooth', cutoff: 500, barSeconds: 4, pulse: 2 },
+  action: { root: 110, chords: [[0, 7, 12], [3, 10, 15], [5, 12, 17]], wave: 'sawtooth', cutoff: 1500, barSeconds: 2, pulse: 4 },
+  mystery: { root: 146.83, chords: [[0, 3, 7, 10], [0, 3, 6, 10]], wave: 'triangle', cutoff: 900, barSeconds: 6 },
+  eerie: { root: 98, chords: [[0, 1, 6], [0, 6, 11]], wave: 'sine', cutoff: 700, barSeconds: 10 },
+  sad: { root: 174.61, chords: [[0, 3, 7], [-4, 0, 3], [5, 8, 12]], wave: 'triangle', cutoff: 900, barSeconds: 6 },
+  joyful: { root: 261.63, chords: [[0, 4, 7], [5, 9, 12], [7, 11, 14]], wave: 'triangle', cutoff: 2500, barSeconds: 3, pulse: 3 },
+  wonder: { root: 196, chords: [[0, 4, 7, 14], [2, 7, 11, 16]], wave: 'sine', cutoff: 2000, barSeconds: 8 },
+  romantic: { root: 233.08, chords: [[0, 4, 7, 11], [-3, 0, 4, 7]], wave: 'sine', cutoff: 1400, barSeconds: 6 }
+};
+
+const startPad = (ctx: AudioContext, recipe: PadRecipe, out: AudioNode): (() => void) => {
+  const voices = Math.max(...recipe.chords.map(c => c.length));
+  const oscillators: OscillatorNode[] = [];
+
+  const filter = ctx.createBiquadFilter();
+  filter.type = 'lowpass';
+  filter.frequency.value = recipe.cutoff;
+  const tremolo = ctx.createGain();
+  tremolo.gain.value = recipe.pulse ? 0.7 : 1;
+  filter.connect(tremolo).connect(out);
+
+  // Slow filter sweep so a held chord doesn't sound static
+  const sweep = ctx.createOscillator();
+  const sweepDepth = ctx.createGain();
+  sweep.frequency.value = 0.05;
+  sweepDepth.gain.value = recipe.cutoff * 0.3;
+  sweep.connect(sweepDepth).connect(filter.frequency);
+  oscillators.push(sweep);
+
+  if (recipe.pulse) {
+    const pulse = ctx.createOscillator();
+    const pulseDepth = ctx.createGain();
+    pulse.frequency.value = recipe.pulse;
+    pulseDepth.gain.value = 0.3;
+    pulse.connect(pulseDepth).connect(tremolo.gain);
+    oscillators.push(pulse);
+  }
+
+  const voiceNodes = Array.from({ length: voices }, () => {
+    const gain = ctx.createGain();
+    gain.gain.value = 0;
+    gain.connect(filter);
+    // Two slightly detuned oscillators per note for width
+    const pair = [-6, 6].map(detune => {
+      const osc = ctx.createOscillator();
+      osc.type = recipe.wave;
+      osc.detune.value = detune;
+      osc.connect(gain);
+      oscillators.push(osc);
+      return osc;
+    });
+    return { gain, pair };
+  });
+
+  let bar = 0;
+  const playChord = () => {
+    const chord = recipe.chords[bar % recipe.chords.length];
+    const at = ctx.currentTime;
+    voiceNodes.forEach((voice, i) => {
+      const semitones = chord[i];
+      voice.gain.gain.setTargetAtTime(semitones === undefined ? 0 : 0.25 / voices, at, 0.5);
+      if (semitones !== undefined) {
+        const freq = recipe.root * Math.pow(2, semitones / 12);
+        voice.pair.forEach(osc => osc.frequency.setTargetAtTime(freq, at, 0.3));
+      }
+    });
+    bar++;
+  };
+
+  playChord();
+  oscillators.forEach(osc => osc.start());
+  const timer = setInterval(playChord, recipe.barSeconds * 1000);
+
+  return () => {
+    clearInterval(timer);
+    oscillators.forEach(osc => osc.stop());
+    filter.disconnect();
+    tremolo.disconnect();
+  };
+};
+
+const noiseBuffers = new WeakMap<AudioContext, { white: AudioBuffer; brown: AudioBuffer }>();
+
+const getNoise = (ctx: AudioContext, color: 'white' | 'brown'): AudioBuffer => {
+  let cached = noiseBuffers.get(ctx);
+  if (!cached) {
+    const length = ctx.sampleRate * 4;
+    const white = ctx.createBuffer(1, length, ctx.sampleRate);
+    const brown = ctx.createBuffer(1, length, ctx.sampleRate);
+    const w = white.getChannelData(0);
+    const b = brown.getChannelData(0);
+    let last = 0;
+    for (let i = 0; i < length; i++) {
+      w[i] = Math.random() * 2 - 1;
+      last = (last + 0.02 * w[i]) / 1.02;
+      b[i] = last * 3.5;
+    }
+    cached = { white, brown };
+    noiseBuffers.set(ctx, cached);
+  }
+  return cached[color];
+};
+
+const startAmbience = (ctx: AudioContext, name: string, out: AudioNode): (() => void) => {
+  const sources: AudioScheduledSourceNode[] = [];
+  const nodes: AudioNode[] = [];
+
+  const noise = (color: 'white' | 'brown') => {
+    const src = ctx.createBufferSource();
+    src.buffer = getNoise(ctx, color);
+    src.loop = true;
+    sources.push(src);
+    return src;
+  };
+  const filter = (type: BiquadFilterType, frequency: number, q: number = 0.7) => {
+    const f = ctx.createBiquadFilter();
+    f.type = type;
+    f.frequency.value = frequency;
+    f.Q.value = q;
+    nodes.push(f);
+    return f;
+  };
+  const level = (value: number) => {
+    const g = ctx.createGain();
+    g.gain.value = value;
+    nodes.push(g);
+    return g;
+  };
+  const lfo = (rate: number, depth: number, target: AudioParam) => {
+    const osc = ctx.createOscillator();
+    osc.frequency.value = rate;
+    osc.connect(level(depth)).connect(target);
+    sources.push(osc);
+  };
+
+  if (name === 'rain') {
+    const gain = level(0.25);
+    noise('white').connect(filter('highpass', 800)).connect(filter('lowpass', 6000)).connect(gain).connect(out);
+    lfo(0.2, 0.05, gain.gain);
+  } else if (name === 'wind') {
+    const band = filter('bandpass', 500, 1);
+    noise('white').connect(band).connect(level(0.5)).connect(out);
+    lfo(0.08, 350, band.frequency);
+  } else if (name === 'hum') {
+    [55, 110].forEach((freq, i) => {
+      const osc = ctx.createOscillator();
+      osc.frequency.value = freq;
+      osc.connect(level(i === 0 ? 0.2 : 0.05)).connect(out);
+      sources.push(osc);
+    });
+    noise('brown').connect(filter('lowpass', 200)).connect(level(0.3)).connect(out);
+  } else {
+    // room
+    noise('brown').connect(filter('lowpass', 300)).connect(level(0.5)).connect(out);
+  }
+
+  sources.forEach(src => src.start());
+  return () => {
+    sources.forEach(src => src.stop());
+    nodes.forEach(node => node.disconnect());
+  };
+};
+
+const startBuiltIn = (ctx: AudioContext, bed: SoundBed, out: AudioNode): (() => void) => {
+  const name = bed.id.split(':')[2];
+  return bed.kind === 'music'
+    ? startPad(ctx, PADS[name] || PADS.calm, out)
+    : startAmbience(ctx, name, out);
+};
+
+// --- PLAYER ---
+
+export const createSoundtrackPlayer = (): SoundtrackPlayer => {
+  const ctx = new AudioContext();
+  const bus = ctx.createGain();
+  bus.connect(ctx.destination);
+  const layers: Record<SoundBedKind, GainNode> = { music: ctx.createGain(), ambience: ctx.createGain() };
+  Object.values(layers).forEach(layer => layer.connect(bus));
+
+  const playing: Record<SoundBedKind, PlayingBed | null> = { music: null, ambience: null };
+  // Bumped on every play() so a slow decode can't start over a newer choice
+  const requests: Record<SoundBedKind, number> = { music: 0, ambience: 0 };
+  const decoded = new Map<string, AudioBuffer>();
+
+  const fadeOut = (bed: PlayingBed) => {
+    const now = ctx.currentTime;
+    bed.fade.gain.cancelScheduledValues(now);
+    bed.fade.gain.setValueAtTime(bed.fade.gain.value, now);
+    bed.fade.gain.linearRampToValueAtTime(0, now + CROSSFADE_S);
+    setTimeout(() => {
+      bed.stop();
+      bed.fade.disconnect();
+    }, CROSSFADE_S * 1000 + 100);
+  };
+
+  const startStored = async (bed: SoundBed, out: AudioNode): Promise<() => void> => {
+    let buffer = decoded.get(bed.id);
+    if (!buffer) {
+      const blob = await getBedAudio(bed.id);
+      if (!blob) throw new Error(`Bed ${bed.id} is missing from storage.`);
+      buffer = await ctx.decodeAudioData(await blob.arrayBuffer());
+      decoded.set(bed.id, buffer);
+    }
+    const src = ctx.createBufferSource();
+    src.buffer = buffer;
+    src.loop = true;
+    src.connect(out);
+    src.start();
+    return () => src.stop();
+  };
+
+  return {
+    play: async (kind, bed) => {
+      if ((playing[kind]?.id || null) === (bed?.id || null)) return;
+      const request = ++requests[kind];
+      // Autoplay policy: the context starts suspended until the page has been interacted with
+      if (ctx.state === 'suspended') ctx.resume().catch(() => {});
+
+      if (playing[kind]) {
+        fadeOut(playing[kind]!);
+        playing[kind] = null;
+      }
+      if (!bed) return;
+
+      const fade = ctx.createGain();
+      fade.gain.value = 0;
+      fade.connect(layers[kind]);
+      try {
+        const stop = bed.builtIn ? startBuiltIn(ctx, bed, fade) : await startStored(bed, fade);
+        if (request !== requests[kind]) {
+          stop();
+          fade.disconnect();
+          return;
+        }
+        fade.gain.linearRampToValueAtTime(1, ctx.currentTime + CROSSFADE_S);
+        playing[kind] = { id: bed.id, fade, stop };
+        console.log(`[Soundtrack] ${kind}: ${bed.name}`);
+      } catch (e) {
+        fade.disconnect();
+        console.warn(`[Soundtrack] Could not play ${kind} bed "${bed.name}"`, e);
+      }
+    },
+    setVolume: (kind, volume) => {
+      layers[kind].gain.setTargetAtTime(Math.max(0, Math.min(1, volume)), ctx.currentTime, 0.1);
+    },
+    setDucked: (ducked) => {
+      bus.gain.setTargetAtTime(ducked ? DUCKED_GAIN : 1, ctx.currentTime, 0.3);
+    },
+    close: () => {
+      requests.music++;
+      requests.ambience++;
+      Object.values(playing).forEach(bed => bed?.stop());
+      ctx.close().catch(() => {});
+    }
+  };
+};
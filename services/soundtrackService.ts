@@ -0,0 +1,109 @@
+import { createStore, get, set, del, values } from 'idb-keyval';
+import { SoundBed, SoundBedKind, Timeline } from '../types';
+import { BEAT_MOODS, THEME_MOODS } from '../constants';
+
+// --- SOUNDTRACK LIBRARY ---
+// Music and ambience beds. Built-ins are synthesized by the player, so they cost no storage and work offline;
+// uploaded beds are kept in their own database next to the clip cache.
+
+const bedStore = createStore('living-tv-soundtrack', 'beds');
+
+// Loops are decoded whole into memory; keep uploads to a few minutes of audio
+const MAX_BED_BYTES = 20 * 1024 * 1024;
+const DEFAULT_MOOD = 'calm';
+
+interface StoredBed extends SoundBed {
+  blob: Blob;
+}
+
+const BUILTIN_AMBIENCE: Record<string, string[]> = {
+  room: ['calm', 'joyful', 'romantic'],
+  rain: ['sad', 'mystery'],
+  wind: ['wonder', 'eerie'],
+  hum: ['tense', 'action']
+};
+
+export const BUILTIN_BEDS: SoundBed[] = [
+  ...BEAT_MOODS.map(mood => ({ id: `builtin:music:${mood}`, name: `${mood} (synth)`, kind: 'music' as SoundBedKind, moods: [mood], builtIn: true })),
+  ...Object.entries(BUILTIN_AMBIENCE).map(([name, moods]) => ({ id: `builtin:ambience:${name}`, name, kind: 'ambience' as SoundBedKind, moods, builtIn: true }))
+];
+
+export const createBedId = (): string => `bed_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+
+/**
+ * Built-ins first, then uploads (newest first). Blobs stay in storage; fetch them with getBedAudio.
+ */
+export const listBeds = async (): Promise<SoundBed[]> => {
+  const stored = await values<StoredBed>(bedStore);
+  const uploads = stored
+    .map(({ blob, ...bed }) => bed)
+    .sort((a, b) => (b.createdAt || 0) - (a.createdAt || 0));
+  return [...BUILTIN_BEDS, ...uploads];
+};
+
+export const saveBed = async (file: File, kind: SoundBedKind, moods: string[]): Promise<SoundBed> => {
+  if (!file.type.startsWith('audio/')) throw new Error("Not an audio file.");
+  if (file.size > MAX_BED_BYTES) throw new Error(`Audio file is too large (max ${MAX_BED_BYTES / 1024 / 1024}MB).`);
+
+  const bed: SoundBed = {
+    id: createBedId(),
+    name: file.name.replace(/\.[^.]+$/, ''),
+    kind,
+    moods: moods.map(normalizeMood).filter((m): m is string => !!m),
+    builtIn: false,
+    createdAt: Date.now()
+  };
+  await set(bed.id, { ...bed, blob: file } as StoredBed, bedStore);
+  console.log(`[Soundtrack] Stored ${kind} bed "${bed.name}" (${Math.round(file.size / 1024)}KB)`);
+  return bed;
+};
+
+export const deleteBed = async (id: string): Promise<void> => {
+  await del(id, bedStore);
+};
+
+export const getBedAudio = async (id: string): Promise<Blob | null> => {
+  return (await get<StoredBed>(id, bedStore))?.blob || null;
+};
+
+// --- MOOD SELECTION ---
+
+// Writers drift ("Tense!", "suspenseful"); anything outside BEAT_MOODS counts as untagged
+export const normalizeMood = (mood: unknown): string | null => {
+  if (typeof mood !== 'string') return null;
+  const key = mood.trim().toLowerCase();
+  return BEAT_MOODS.includes(key) ? key : null;
+};
+
+// Themes picked in the genesis wizard, read back from the series context in the preamble
+export const getShowThemes = (timeline: Timeline): string[] => {
+  for (const entry of timeline.preamble) {
+    const match = entry.match(/^Themes:\s*(.+)$/m);
+    if (match) return match[1].split(',').map(t => t.trim()).filter(Boolean);
+  }
+  return [];
+};
+
+/**
+ * The beat's own mood, else the tape's default, else the first theme that maps to one.
+ */
+export const resolveMood = (beatMood: string | undefined, tapeMood: string | undefined, themes: string[]): string => {
+  const themeMood = themes.map(t => THEME_MOODS[t]).find(Boolean);
+  return normalizeMood(beatMood) || normalizeMood(tapeMood) || themeMood || DEFAULT_MOOD;
+};
+
+/**
+ * Uploads tagged with the mood win over built-ins; a pinned id wins over both when it exists here.
+ */
+export const pickBed = (beds: SoundBed[], kind: SoundBedKind, mood: string, pinnedId?: string): SoundBed | null => {
+  const ofKind = beds.filter(b => b.kind === kind);
+  if (pinnedId) {
+    const pinned = ofKind.find(b => b.id === pinnedId);
+    if (pinned) return pinned;
+    console.warn(`[Soundtrack] Pinned ${kind} bed ${pinnedId} isn't on this machine; following the mood instead`);
+  }
+  return ofKind.find(b => !b.builtIn && b.moods.includes(mood))
+    || ofKind.find(b => b.builtIn && b.moods.includes(mood))
+    || ofKind[0]
+    || null;
+};
@@ -46,13 +46,51 @@ export const DEFAULT_SETTINGS: AppSettings = {
   falModel: 'fal-ai/minimax/video-01',
   visualStyle: 'claymation',
   videoModel: 'fast',
-  openRouterModel: 'google/gemini-2.0-flash-001' // Default Fallback
+  openRouterModel: 'google/gemini-2.0-flash-001', // Default Fallback
+  narrativeProvider: 'gemini',
+  geminiModel: 'gemini-3-pro-preview',
+  customBaseUrl: 'http://localhost:8080/v1',
+  customModel: '',
+  customApiKey: '',
+  customVision: false,
+  customJsonMode: false,
+  testPatternVideo: false,
+  preRollEnabled: false,
+  preRollBudget: 2,
+  preRollConcurrency: 1,
+  preRollVideo: false,
+  preRollKeepAlternates: true,
+  memoryEnabled: true,
+  memoryChapterSize: 10,
+  memoryTokenBudget: 3000,
+  writeInModeration: false,
+  votingDurationSec: 20,
+  votingTieBreak: 'random',
+  // Public builds (PROXY_MODE=true npm run build) start in proxy mode
+  proxyMode: process.env.PROXY_MODE === 'true',
+  priceTable: {},
+  spendCap: 0,
+  videoChain: [],
+  renderMode: 'video',
+  stillsModel: '',
+  videoParams: {},
+  narratorEnabled: false,
+  narratorProvider: 'web-speech',
+  narratorModel: '',
+  narratorVoice: '',
+  narratorRate: 1,
+  narratorPitch: 1,
+  soundtrackEnabled: false,
+  musicVolume: 0.4,
+  ambienceVolume: 0.3
 };
 
 export const getSettings = async (): Promise<AppSettings> => {
   const stored = await get<AppSettings>(SETTINGS_KEY);
   if (!stored) return DEFAULT_SETTINGS;
-  return { ...DEFAULT_SETTINGS, ...stored };
+  // Settings saved before the provider picker existed chose OpenRouter by key prefix
+  const narrativeProvider = stored.narrativeProvider || (stored.apiKey?.startsWith('sk-or-') ? 'openrouter' : 'gemini');
+  return { ...DEFAULT_SETTINGS, ...stored, narrativeProvider };
 };
 
 export const saveSettings = async (settings: AppSettings): Promise<void> => {
@@ -63,3 +101,16 @@ export const saveSettings = async (settings: AppSettings): Promise<void> => {
     localStorage.setItem("GEMINI_API_KEY", settings.apiKey);
   }
 };
+
+// --- Timeline Frames ---
+// Stills captured per timeline node. Kept out of the tape JSON so the PNG stays small.
+
+const FRAME_PREFIX = 'living-tv-frame:';
+
+export const saveFrame = async (frameRef: string, base64: string): Promise<void> => {
+  await set(`${FRAME_PREFIX}${frameRef}`, base64);
+};
+
+export const getFrame = async (frameRef: string): Promise<string | null> => {
+  return (await get<string>(`${FRAME_PREFIX}${frameRef}`)) || null;
+};
@@ -0,0 +1,217 @@
+import { StoryBeat, Choice, NarrativeProvider, BeatRequest, StateDelta, WorldState } from "../types";
+
+// --- TEST PATTERN ---
+// Offline stand-ins for the remote providers. Same input always gives the same beat,
+// so QA can walk branches, eject and re-import without network or quota.
+
+const CLIP_WIDTH = 1280;
+const CLIP_HEIGHT = 720;
+const CLIP_DURATION_MS = 4000;
+const CLIP_FPS = 30;
+
+// SMPTE-ish colour bars, left to right
+const BARS = ['#c0c0c0', '#c0c000', '#00c0c0', '#00c000', '#c000c0', '#c00000', '#0000c0'];
+
+const PLACES = ["a flickering motel lobby", "a rooftop garden at dusk", "an abandoned bowling alley", "a submarine galley", "a laundromat at 3am", "a hedge maze", "a broadcast studio with no crew"];
+const EVENTS = ["a payphone starts ringing", "the lights dim in a slow pulse", "a stranger waves from across the room", "a tape rewinds by itself", "a door that wasn't there opens", "static crawls across every screen", "a cat knocks something off a shelf"];
+const ACTIONS = ["Answer it", "Hide", "Follow the sound", "Call out", "Inspect the object", "Run", "Wait and watch", "Take notes", "Turn off the lights", "Open the door"];
+
+// Scripted beats, consumed by branch depth. Lets automated tests pin exact output.
+let script: StoryBeat[] = [];
+
+export const setTestPatternScript = (beats: StoryBeat[]): void => {
+  script = beats;
+};
+
+// FNV-1a; stable across runs and browsers
+const hashString = (text: string): number => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+// mulberry32
+const createRng = (seed: number) => {
+  let a = seed;
+  return () => {
+    a |= 0;
+    a = (a + 0x6d2b79f5) | 0;
+    let t = Math.imul(a ^ (a >>> 15), 1 | a);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+const pick = <T,>(items: T[], rng: () => number): T => items[Math.floor(rng() * items.length)];
+
+const characterFrom = (history: string[]): string => {
+  const context = history.find(line => line.startsWith('SERIES CONTEXT:'));
+  return context?.match(/Character: (.*)/)?.[1]?.trim() || "The Viewer";
+};
+
+const seededBeat = (seedText: string, character: string, choice: string | null, depth: number): StoryBeat => {
+  const rng = createRng(hashString(seedText));
+  const place = pick(PLACES, rng);
+  const event = pick(EVENTS, rng);
+
+  const pool = [...ACTIONS];
+  const choices: Choice[] = [];
+  for (let i = 0; i < 4; i++) {
+    const [text] = pool.splice(Math.floor(rng() * pool.length), 1);
+    choices.push({ id: String(i + 1), text });
+  }
+
+  const lead = choice ? `${character} chose to "${choice}".` : `${character} arrives in ${place}.`;
+  return {
+    narrative: `[TEST ${depth}] ${lead} In ${place}, ${event}.`,
+    visualPrompt: `TEST PATTERN #${depth}: ${character} in ${place}; ${event}.`,
+    choices
+  };
+};
+
+// Nudges one stat and sometimes hands over an item, so HUD and rewind can be exercised offline
+const seededDelta = (seedText: string, world: WorldState): StateDelta => {
+  const rng = createRng(hashString(`delta:${seedText}`));
+  const statKeys = Object.keys(world.stats);
+  const delta: StateDelta = {};
+  if (statKeys.length > 0) {
+    delta.stats = [{ key: pick(statKeys, rng), change: rng() < 0.5 ? -1 : 1 }];
+  }
+  if (rng() < 0.3) {
+    delta.addItems = [`Test Token ${Math.floor(rng() * 100)}`];
+  }
+  return delta;
+};
+
+const beatDepth = (history: string[]) => history.filter(line => !line.startsWith('SERIES CONTEXT:')).length;
+
+export const testPatternProvider: NarrativeProvider = {
+  id: 'test-pattern',
+  label: 'Test Pattern (Offline)',
+  getCapabilities: () => ({ vision: false, jsonMode: true }),
+
+  generateBeat: async (request: BeatRequest) => {
+    const depth = beatDepth(request.history);
+    if (script[depth]) return script[depth];
+    const seedText = `${request.history.join('\n')}\n>${request.choice || ''}`;
+    const beat = seededBeat(seedText, characterFrom(request.history), request.choice, depth);
+    return request.worldState ? { ...beat, stateDelta: seededDelta(seedText, request.worldState) } : beat;
+  },
+
+  generateGenesis: async (params) => {
+    if (script[0]) return script[0];
+    return seededBeat(`${params.name}|${params.desc}|${params.setting}|${params.themes.join(',')}`, params.name, null, 0);
+  },
+
+  // Chapter summaries: first clause of every "BEAT n:" line, so what was condensed stays visible.
+  // Anything else (write-in checks) is waved through.
+  generateText: async (prompt) => {
+    const beats = prompt.split('\n').filter(line => /^BEAT \d+:/.test(line));
+    if (beats.length === 0) return 'ALLOW';
+    const clauses = beats.map(line => line.replace(/^BEAT \d+:\s*/, '').split(/[.!?]/)[0].trim());
+    return `[TEST SUMMARY ${hashString(prompt).toString(16)}] ${clauses.join('; ')}.`;
+  }
+};
+
+// --- PICTURES ---
+
+const wrapText = (ctx: CanvasRenderingContext2D, text: string, maxWidth: number): string[] => {
+  const lines: string[] = [];
+  let line = '';
+  text.split(/\s+/).forEach(word => {
+    const next = line ? `${line} ${word}` : word;
+    if (ctx.measureText(next).width > maxWidth && line) {
+      lines.push(line);
+      line = word;
+    } else {
+      line = next;
+    }
+  });
+  if (line) lines.push(line);
+  return lines;
+};
+
+const drawTestPattern = (ctx: CanvasRenderingContext2D, caption: string, frame: number) => {
+  const barWidth = CLIP_WIDTH / BARS.length;
+  BARS.forEach((color, i) => {
+    ctx.fillStyle = color;
+    ctx.fillRect(i * barWidth, 0, barWidth + 1, CLIP_HEIGHT);
+  });
+
+  // Moving scanline so it's obvious the clip is playing
+  ctx.fillStyle = 'rgba(255, 255, 255, 0.35)';
+  ctx.fillRect(0, (frame * 8) % CLIP_HEIGHT, CLIP_WIDTH, 6);
+
+  // Caption box with the visual prompt
+  ctx.fillStyle = 'rgba(0, 0, 0, 0.8)';
+  ctx.fillRect(60, CLIP_HEIGHT - 260, CLIP_WIDTH - 120, 200);
+  ctx.fillStyle = '#33ff33';
+  ctx.font = '28px monospace';
+  ctx.textBaseline = 'top';
+  wrapText(ctx, caption, CLIP_WIDTH - 160).slice(0, 5).forEach((line, i) => {
+    ctx.fillText(line, 80, CLIP_HEIGHT - 240 + i * 36);
+  });
+
+  ctx.fillStyle = '#ffffff';
+  ctx.font = 'bold 32px monospace';
+  ctx.fillText(`TEST PATTERN  ${String(frame).padStart(4, '0')}`, 60, 40);
+};
+
+/**
+ * A still of the test pattern with the prompt overlaid. Returns raw base64 PNG.
+ */
+export const generateTestPatternStill = (visualPrompt: string): string => {
+  const canvas = document.createElement('canvas');
+  canvas.width = CLIP_WIDTH;
+  canvas.height = CLIP_HEIGHT;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error("Canvas context failed");
+  drawTestPattern(ctx, visualPrompt, 0);
+  return canvas.toDataURL('image/png').split(',')[1];
+};
+
+/**
+ * Records a short colour-bar clip in the browser. Returns a blob: URL the TapeDeck can play.
+ */
+export const generateTestPatternClip = async (visualPrompt: string): Promise<string> => {
+  const canvas = document.createElement('canvas');
+  canvas.width = CLIP_WIDTH;
+  canvas.height = CLIP_HEIGHT;
+  const ctx = canvas.getContext('2d');
+
+  if (!ctx || typeof MediaRecorder === 'undefined' || !canvas.captureStream) {
+    // No recorder (old browser / headless runner): behave like a text-only provider
+    console.warn("[TestPattern] MediaRecorder unavailable, skipping clip.");
+    throw new Error("VIDEO_GEN_UNSUPPORTED_PROVIDER");
+  }
+
+  const stream = canvas.captureStream(CLIP_FPS);
+  const mimeType = MediaRecorder.isTypeSupported('video/webm;codecs=vp9') ? 'video/webm;codecs=vp9' : 'video/webm';
+  const recorder = new MediaRecorder(stream, { mimeType });
+  const chunks: Blob[] = [];
+  recorder.ondataavailable = (e) => { if (e.data.size > 0) chunks.push(e.data); };
+
+  const done = new Promise<string>((resolve, reject) => {
+    recorder.onstop = () => resolve(URL.createObjectURL(new Blob(chunks, { type: 'video/webm' })));
+    recorder.onerror = () => reject(new Error("Test pattern recording failed."));
+  });
+
+  console.log("[TestPattern] Recording clip:", visualPrompt);
+
+  let frame = 0;
+  drawTestPattern(ctx, visualPrompt, frame);
+  recorder.start();
+
+  // setInterval rather than rAF so the clip still records in a background tab
+  const timer = setInterval(() => drawTestPattern(ctx, visualPrompt, ++frame), 1000 / CLIP_FPS);
+  setTimeout(() => {
+    clearInterval(timer);
+    recorder.stop();
+    stream.getTracks().forEach(t => t.stop());
+  }, CLIP_DURATION_MS);
+
+  return done;
+};
@@ -0,0 +1,188 @@
+import { get, set } from 'idb-keyval';
+import { ModelPrice, OpenRouterModel, UsageKind, UsageRecord, UsageSummary } from '../types';
+import { DEFAULT_PRICE_TABLE } from '../constants';
+import { getSettings } from './storageService';
+
+// --- USAGE ACCOUNTING ---
+// Every paid provider call opens a meter, adds what it consumed, and is stored on finish
+// with an estimated cost against the current tape.
+
+const USAGE_KEY = 'living-tv-usage';
+const MAX_USAGE_RECORDS = 5000;
+
+const SESSION_ID = `session_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+
+let currentTapeId: string | null = null;
+let openRouterPricing: Record<string, { prompt: number; completion: number }> = {};
+const listeners = new Set<(record: UsageRecord) => void>();
+
+// Pre-roll finishes calls concurrently; serialise writes so none are lost
+let writeQueue: Promise<void> = Promise.resolve();
+
+export interface UsageMeter {
+  id: string; // Record id; a resumed job passes it back so it updates the same record
+  retry: () => void;
+  addTokens: (prompt?: number, completion?: number) => void;
+  addVideoSeconds: (seconds: number) => void;
+  addJob: () => void;
+  finish: (ok: boolean) => Promise<void>;
+}
+
+// The TV sets this so calls (including pre-roll) are charged to the tape on screen
+export const setUsageTape = (tapeId: string | null) => {
+  currentTapeId = tapeId;
+};
+
+export const setOpenRouterPricing = (models: OpenRouterModel[]) => {
+  models.forEach(m => {
+    if (!m.pricing) return;
+    openRouterPricing[m.id] = { prompt: Number(m.pricing.prompt) || 0, completion: Number(m.pricing.completion) || 0 };
+  });
+};
+
+// Exact id first, then the longest key the model id starts with
+const findPrice = (table: Record<string, ModelPrice>, model: string): ModelPrice | null => {
+  if (table[model]) return table[model];
+  const key = Object.keys(table)
+    .filter(k => model.startsWith(k))
+    .sort((a, b) => b.length - a.length)[0];
+  return key ? table[key] : null;
+};
+
+const estimateCost = (
+  record: Pick<UsageRecord, 'provider' | 'model' | 'promptTokens' | 'completionTokens' | 'videoSeconds' | 'jobs'>,
+  overrides: Record<string, ModelPrice>
+): { cost: number; priced: boolean } => {
+  const routed = record.provider === 'OpenRouter' ? openRouterPricing[record.model] : undefined;
+  if (routed) {
+    return { cost: record.promptTokens * routed.prompt + record.completionTokens * routed.completion, priced: true };
+  }
+
+  const price = findPrice({ ...DEFAULT_PRICE_TABLE, ...overrides }, record.model);
+  if (!price) return { cost: 0, priced: false };
+  return {
+    cost: (record.promptTokens / 1e6) * (price.inputPerMTok || 0)
+      + (record.completionTokens / 1e6) * (price.outputPerMTok || 0)
+      + record.videoSeconds * (price.perSecond || 0)
+      + record.jobs * (price.perJob || 0),
+    priced: true
+  };
+};
+
+const storeRecord = (record: UsageRecord): Promise<void> => {
+  writeQueue = writeQueue
+    .then(async () => {
+      const records = ((await get<UsageRecord[]>(USAGE_KEY)) || []).filter(r => r.id !== record.id);
+      records.push(record);
+      await set(USAGE_KEY, records.slice(-MAX_USAGE_RECORDS));
+    })
+    .catch(e => console.warn("[Usage] Failed to store record", e));
+  return writeQueue;
+};
+
+/**
+ * Opens a meter for one provider call. Failed calls are recorded too so retries stay visible; they cost
+ * whatever was added before the failure, so providers add a video job's units as soon as it is accepted.
+ * Pass `recordId` when resuming a job to replace its earlier record instead of billing it twice.
+ */
+export const startUsage = (provider: string, model: string, kind: UsageKind, recordId?: string): UsageMeter => {
+  const startedAt = Date.now();
+  const id = recordId || `usage_${startedAt}_${Math.random().toString(36).substr(2, 9)}`;
+  const tapeId = currentTapeId;
+  let retries = 0;
+  let promptTokens = 0;
+  let completionTokens = 0;
+  let videoSeconds = 0;
+  let jobs = 0;
+  let finished = false;
+
+  return {
+    id,
+    retry: () => { retries++; },
+    addTokens: (prompt = 0, completion = 0) => {
+      promptTokens += prompt || 0;
+      completionTokens += completion || 0;
+    },
+    addVideoSeconds: (seconds) => { videoSeconds += seconds; },
+    addJob: () => { jobs++; },
+    finish: async (ok) => {
+      if (finished) return;
+      finished = true;
+
+      const settings = await getSettings();
+      const base = { provider, model, promptTokens, completionTokens, videoSeconds, jobs };
+      const { cost, priced } = estimateCost(base, settings.priceTable || {});
+      const record: UsageRecord = {
+        id,
+        sessionId: SESSION_ID,
+        tapeId,
+        at: startedAt,
+        kind,
+        ...base,
+        durationMs: Date.now() - startedAt,
+        retries,
+        cost,
+        priced,
+        ok
+      };
+
+      console.log(`[Usage] ${provider} ${model}${ok ? '' : ' (failed)'}: $${cost.toFixed(4)}${priced ? '' : ' (unpriced)'}, ${retries} retries, ${record.durationMs}ms`);
+      await storeRecord(record);
+      listeners.forEach(listener => listener(record));
+    }
+  };
+};
+
+// Runs `fn` under the meter and records the outcome either way
+export const metered = async <T>(meter: UsageMeter, fn: () => Promise<T>): Promise<T> => {
+  try {
+    const result = await fn();
+    await meter.finish(true);
+    return result;
+  } catch (e) {
+    await meter.finish(false);
+    throw e;
+  }
+};
+
+export const getUsageRecords = async (tapeId?: string): Promise<UsageRecord[]> => {
+  await writeQueue;
+  const records = (await get<UsageRecord[]>(USAGE_KEY)) || [];
+  return tapeId === undefined ? records : records.filter(r => r.tapeId === tapeId);
+};
+
+export const isCurrentSession = (record: UsageRecord): boolean => record.sessionId === SESSION_ID;
+
+export const summarizeUsage = (records: UsageRecord[]): UsageSummary => {
+  const summary: UsageSummary = {
+    calls: 0, failed: 0, retries: 0, promptTokens: 0, completionTokens: 0,
+    videoSeconds: 0, jobs: 0, cost: 0, unpriced: 0, byModel: {}
+  };
+  records.forEach(r => {
+    summary.calls++;
+    if (!r.ok) summary.failed++;
+    if (!r.priced) summary.unpriced++;
+    summary.retries += r.retries;
+    summary.promptTokens += r.promptTokens;
+    summary.completionTokens += r.completionTokens;
+    summary.videoSeconds += r.videoSeconds;
+    summary.jobs += r.jobs;
+    summary.cost += r.cost;
+    const model = summary.byModel[r.model] || { calls: 0, cost: 0 };
+    summary.byModel[r.model] = { calls: model.calls + 1, cost: model.cost + r.cost };
+  });
+  return summary;
+};
+
+export const clearUsage = async (tapeId?: string): Promise<void> => {
+  await writeQueue;
+  const records = tapeId === undefined ? [] : ((await get<UsageRecord[]>(USAGE_KEY)) || []).filter(r => r.tapeId !== tapeId);
+  await set(USAGE_KEY, records);
+};
+
+export const subscribeToUsage = (listener: (record: UsageRecord) => void): (() => void) => {
+  listeners.add(listener);
+  return () => { listeners.delete(listener); };
+};
+
+export const formatCost = (usd: number): string => `$${usd < 1 ? usd.toFixed(3) : usd.toFixed(2)}`;
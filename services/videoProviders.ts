@@ -0,0 +1,324 @@
+import { AppSettings, BeatFootage, VideoAspectRatio, VideoAttempt, VideoChainEntry, VideoClipResult, VideoErrorClass, VideoParams, VideoProviderId, VideoResumeToken } from "../types";
+import { ANIMATION_STYLES, CAMERA_MOTIONS, FAL_IMAGE_MODELS, GEMINI_IMAGE_MODEL, VIDEO_ASPECT_RATIOS } from "../constants";
+import { getSettings } from "./storageService";
+import { generateVeoClip, resumeVeoClip, generateGeminiImage } from "./geminiService";
+import { generateFalClip, resumeFalClip, generateFalImage } from "./falService";
+import { generateOpenRouterClip } from "./openRouterService";
+import { generateTestPatternClip } from "./testPatternService";
+import { getProxyStatus } from "./proxyService";
+import { JobContext, isCancelled } from "./jobManager";
+
+// --- REGISTRY ---
+// AppSettings.videoChain lists these in the order to try. Add new backends here.
+
+// What a provider hands back: a clip URL, or (stills) an image; `model` when it picked one itself
+interface ProviderOutput {
+  url: string | null;
+  still?: string | null;
+  model?: string;
+}
+
+// Which VideoParams a provider takes, and the values it accepts; the System tab only offers these
+export interface VideoParamSupport {
+  fields: (keyof VideoParams)[];
+  aspectRatios: VideoAspectRatio[];
+  resolutions: string[]; // Empty = not settable
+  durations: number[];   // Seconds; empty = any length the model takes
+}
+
+interface VideoProvider {
+  id: VideoProviderId;
+  label: string;
+  params: VideoParamSupport;
+  defaultModel: (settings: AppSettings) => string;
+  isConfigured: (settings: AppSettings) => Promise<boolean>;
+  generate: (fullPrompt: string, frameBase64: string | null, referenceImages: string[], model: string, params: VideoParams, settings: AppSettings, job: JobContext | null) => Promise<ProviderOutput>;
+}
+
+const hasFal = async (settings: AppSettings): Promise<boolean> => {
+  if (settings.proxyMode) return (await getProxyStatus().catch(() => null))?.fal === true;
+  return !!settings.falKey && settings.falKey.trim() !== '';
+};
+
+// The Gemini key field holds an OpenRouter key when OpenRouter writes the show
+const hasGemini = (settings: AppSettings): boolean => settings.proxyMode || settings.narrativeProvider !== 'openrouter';
+
+// --- STILLS ---
+
+const HOLD_FRAME = 'none';
+
+const fetchAsBase64 = async (url: string, signal?: AbortSignal): Promise<string> => {
+  const res = await fetch(url, { signal });
+  if (!res.ok) throw new Error(`Still download failed: ${res.status}`);
+  const blob = await res.blob();
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onloadend = () => resolve(String(reader.result).split(',')[1] || '');
+    reader.onerror = reject;
+    reader.readAsDataURL(blob);
+  });
+};
+
+// '' picks whichever image model the keys on hand allow: Fal.ai's cheapest, then Gemini
+const resolveStillsModel = async (model: string, settings: AppSettings): Promise<string> => {
+  if (model) return model;
+  if (await hasFal(settings)) return Object.values(FAL_IMAGE_MODELS)[0];
+  if (hasGemini(settings)) return GEMINI_IMAGE_MODEL;
+  return HOLD_FRAME;
+};
+
+/**
+ * Paints the beat as one still. Never throws (except on cancel): the stills step ends the chain,
+ * so a failed painting holds the last frame instead.
+ */
+const paintStill = async (fullPrompt: string, frame: string | null, model: string, params: VideoParams, settings: AppSettings, job: JobContext | null): Promise<ProviderOutput> => {
+  const resolved = await resolveStillsModel(model, settings);
+  if (resolved === HOLD_FRAME) return { url: null, still: null, model: HOLD_FRAME };
+
+  try {
+    job?.progress(`PAINTING STILL (${resolved})`);
+    // Fal links expire and taint the canvas; keep the pixels
+    const still = resolved.startsWith('fal-ai/')
+      ? await fetchAsBase64(await generateFalImage(fullPrompt, settings.proxyMode ? null : settings.falKey, resolved, job, params), job?.signal)
+      : await generateGeminiImage(fullPrompt, frame, resolved, job, params);
+    return { url: null, still, model: resolved };
+  } catch (e) {
+    if (isCancelled(e) || job?.signal.aborted) throw e;
+    console.warn(`[Video] Still from ${resolved} failed, holding the last frame`, e);
+    return { url: null, still: null, model: HOLD_FRAME };
+  }
+};
+
+const PROVIDERS: Record<VideoProviderId, VideoProvider> = {
+  'fal': {
+    id: 'fal',
+    label: 'Fal.ai',
+    // Every model takes a different subset; the common field names are sent and the rest ignored
+    params: {
+      fields: ['duration', 'aspectRatio', 'resolution', 'seed', 'negativePrompt', 'cameraMotion'],
+      aspectRatios: VIDEO_ASPECT_RATIOS,
+      resolutions: ['480p', '720p', '1080p'],
+      durations: []
+    },
+    defaultModel: (settings) => settings.falModel || 'fal-ai/minimax/video-01',
+    isConfigured: hasFal,
+    generate: async (prompt, frame, refs, model, params, settings, job) => ({ url: await generateFalClip(prompt, frame, settings.proxyMode ? null : settings.falKey, model, refs, job, params) })
+  },
+  'openrouter': {
+    id: 'openrouter',
+    label: 'OpenRouter',
+    // A chat request; framing can only be asked for in the prompt
+    params: { fields: ['aspectRatio', 'cameraMotion'], aspectRatios: VIDEO_ASPECT_RATIOS, resolutions: [], durations: [] },
+    defaultModel: (settings) => settings.openRouterModel,
+    // Shares the API key field with Gemini; it only holds an OpenRouter key when OpenRouter writes the show
+    isConfigured: async (settings) => settings.proxyMode || settings.narrativeProvider === 'openrouter',
+    generate: async (prompt, _frame, _refs, model, params, settings, job) => ({
+      url: await generateOpenRouterClip(params.aspectRatio ? `${prompt}, ${params.aspectRatio} aspect ratio` : prompt, model, settings, job)
+    })
+  },
+  'veo': {
+    id: 'veo',
+    label: 'Google Veo',
+    params: {
+      fields: ['duration', 'aspectRatio', 'resolution', 'seed', 'negativePrompt', 'cameraMotion'],
+      aspectRatios: ['16:9', '9:16'],
+      resolutions: ['720p', '1080p'],
+      durations: [4, 6, 8]
+    },
+    defaultModel: (settings) => settings.videoModel,
+    isConfigured: async (settings) => hasGemini(settings),
+    generate: async (prompt, frame, refs, model, params, _settings, job) => ({ url: await generateVeoClip(prompt, frame, model, refs, job, params) })
+  },
+  'stills': {
+    id: 'stills',
+    label: 'Stills (no video)',
+    // The Ken Burns move on playback is the camera
+    params: { fields: ['aspectRatio', 'seed', 'negativePrompt'], aspectRatios: VIDEO_ASPECT_RATIOS, resolutions: [], durations: [] },
+    defaultModel: (settings) => settings.stillsModel,
+    isConfigured: async () => true,
+    generate: (prompt, frame, _refs, model, params, settings, job) => paintStill(prompt, frame, model, params, settings, job)
+  }
+};
+
+export const VIDEO_PROVIDERS = Object.values(PROVIDERS);
+
+export const getVideoProvider = (id: VideoProviderId): VideoProvider | undefined => PROVIDERS[id];
+
+// --- PARAMETERS ---
+
+// Everything any provider takes: what a tape can ask for. Each provider keeps only what it can do.
+export const ALL_VIDEO_PARAMS: VideoParamSupport = {
+  fields: Array.from(new Set(VIDEO_PROVIDERS.flatMap(p => p.params.fields))),
+  aspectRatios: VIDEO_ASPECT_RATIOS,
+  resolutions: Array.from(new Set(VIDEO_PROVIDERS.flatMap(p => p.params.resolutions))),
+  durations: [] // Free length; providers with fixed lengths snap to the nearest
+};
+
+const copyParam = <K extends keyof VideoParams>(from: VideoParams, to: VideoParams, field: K) => {
+  const value = from[field];
+  if (value !== undefined && value !== '') to[field] = value;
+};
+
+/**
+ * The viewer's settings for a provider with the tape's params laid over them, keeping only what that
+ * provider takes. Values it can't do (1:1 on Veo) are dropped so its default applies; durations snap
+ * to the nearest length it offers.
+ */
+export const resolveVideoParams = (id: VideoProviderId, settings: AppSettings, tapeParams?: VideoParams): VideoParams => {
+  const support = PROVIDERS[id].params;
+  // A field the tape leaves undefined keeps the viewer's value
+  const tapeOverrides = Object.fromEntries(Object.entries(tapeParams || {}).filter(([, value]) => value !== undefined));
+  const merged: VideoParams = { ...settings.videoParams?.[id], ...tapeOverrides };
+
+  const params: VideoParams = {};
+  support.fields.forEach(field => copyParam(merged, params, field));
+
+  if (params.aspectRatio && !support.aspectRatios.includes(params.aspectRatio)) {
+    console.warn(`[Video] ${PROVIDERS[id].label} can't film ${params.aspectRatio}; using its default`);
+    delete params.aspectRatio;
+  }
+  if (params.resolution && !support.resolutions.includes(params.resolution)) delete params.resolution;
+  if (params.duration && support.durations.length > 0 && !support.durations.includes(params.duration)) {
+    const requested = params.duration;
+    params.duration = support.durations.reduce((best, d) => Math.abs(d - requested) < Math.abs(best - requested) ? d : best);
+  }
+  return params;
+};
+
+/**
+ * The chain to try, in order. Slideshow mode only ever paints stills. With no chain configured
+ * this is what the keys on hand allow: Fal.ai, then OpenRouter or Veo (whichever holds the shared key), then stills.
+ */
+export const resolveVideoChain = async (settings: AppSettings): Promise<VideoChainEntry[]> => {
+  if (settings.renderMode === 'slideshow') return [{ provider: 'stills', model: '' }];
+  if (settings.videoChain && settings.videoChain.length > 0) return settings.videoChain;
+
+  const chain: VideoChainEntry[] = [];
+  if (await hasFal(settings)) chain.push({ provider: 'fal', model: '' });
+  chain.push({ provider: settings.narrativeProvider === 'openrouter' ? 'openrouter' : 'veo', model: '' });
+  chain.push({ provider: 'stills', model: '' });
+  return chain;
+};
+
+// --- ERROR CLASSIFICATION ---
+
+export const classifyVideoError = (error: any): VideoErrorClass => {
+  const errBody = error?.error || error;
+  const message = String(error?.message || errBody?.message || error).toLowerCase();
+  const status = error?.status || errBody?.status || errBody?.code;
+
+  if (message === 'video_gen_unsupported_provider') return 'unsupported';
+  if (message.includes('validation')) return 'validation';
+  if (message.includes('timed out') || message.includes('timeout')) return 'timeout';
+  if (status === 429 || message.includes('429') || message.includes('quota') || message.includes('resource_exhausted')) return 'rate-limit';
+  if (status === 401 || status === 403 || message.includes('401') || message.includes('403') || message.includes('api key') || message.includes('permission')) return 'auth';
+  if (status === 500 || status === 503 || message.includes('503') || message.includes('failed to fetch') || message.includes('network')) return 'transient';
+  return 'unknown';
+};
+
+/**
+ * Step 2: Generate the Video
+ *
+ * Walks the video chain until a provider returns footage. Every failure except a cancel is
+ * classified and fails over to the next entry; the last error is thrown if none succeed.
+ * `job` carries the AbortSignal, polling progress and the resume token.
+ */
+export const generateVideoClip = async (
+  visualDescription: string,
+  lastFrameBase64: string | null,
+  styleKey: string = 'claymation',
+  modelKey: string = 'fast', // Veo model when the chain doesn't name one
+  referenceImages: string[] = [], // Cast reference sheets (data: URLs)
+  job: JobContext | null = null,
+  tapeParams?: VideoParams // meta.videoParams; overrides the viewer's per-provider settings
+): Promise<VideoClipResult> => {
+  const settings = await getSettings();
+
+  // --- OFFLINE TEST PATTERN ---
+  if (settings.testPatternVideo) {
+    const url = await generateTestPatternClip(visualDescription);
+    return { url, provider: 'test-pattern', model: 'local', kind: 'test-pattern', attempts: [] };
+  }
+
+  const stylePrompt = ANIMATION_STYLES[styleKey] || ANIMATION_STYLES['claymation'];
+  // Improved Prompt Structure: Put Style FIRST for higher adherence
+  const fullPrompt = `${stylePrompt}. ${visualDescription}, dynamic motion, action shot`;
+
+  const chain = await resolveVideoChain(settings);
+  const attempts: VideoAttempt[] = [];
+  let lastError: any = null;
+
+  for (const entry of chain) {
+    const provider = PROVIDERS[entry.provider];
+    if (!provider) continue;
+    const model = entry.model || (entry.provider === 'veo' ? modelKey : provider.defaultModel(settings));
+
+    if (!(await provider.isConfigured(settings))) {
+      attempts.push({ provider: entry.provider, model, errorClass: 'not-configured', message: 'Not configured' });
+      continue;
+    }
+
+    try {
+      const params = resolveVideoParams(entry.provider, settings, tapeParams);
+      const prompt = params.cameraMotion ? `${fullPrompt}, ${CAMERA_MOTIONS[params.cameraMotion]}` : fullPrompt;
+      console.log(`[Video] Trying ${provider.label}${model ? ` (${model})` : ''}...`, params);
+      job?.progress(provider.label.toUpperCase());
+      const output = await provider.generate(prompt, lastFrameBase64, referenceImages, model, params, settings, job);
+      if (attempts.length > 0) {
+        console.log(`[Video] Filmed by ${provider.label} after ${attempts.length} fallback(s)`);
+      }
+      return {
+        url: output.url,
+        still: output.still,
+        provider: entry.provider,
+        model: output.model || model,
+        kind: output.url ? 'video' : 'stills',
+        attempts
+      };
+    } catch (e: any) {
+      if (isCancelled(e) || job?.signal.aborted) throw e;
+      const errorClass = classifyVideoError(e);
+      console.warn(`[Video] ${provider.label} failed (${errorClass}), trying next provider`, e);
+      attempts.push({ provider: entry.provider, model, errorClass, message: String(e?.message || e).substring(0, 200) });
+      lastError = e;
+    }
+  }
+
+  throw lastError || new Error("VIDEO_GEN_UNSUPPORTED_PROVIDER");
+};
+
+/**
+ * Re-attaches to a clip that was still rendering when the page was closed.
+ * Veo resumes by operation name, Fal.ai by queue request id.
+ */
+export const resumeVideoClip = async (token: VideoResumeToken, job: JobContext | null = null): Promise<VideoClipResult> => {
+  const settings = await getSettings();
+  // Still resumable if this attempt gets interrupted too
+  job?.setResumeToken(token);
+
+  let url: string;
+  if (token.provider === 'fal') {
+    if (!token.requestId) throw new Error("Fal.ai resume token has no request id.");
+    url = await resumeFalClip(token.model, token.requestId, settings.proxyMode ? null : settings.falKey, job, token.usageId);
+  } else {
+    url = await resumeVeoClip(token, job);
+  }
+  return { url, provider: token.provider, model: token.model, kind: 'video', attempts: [] };
+};
+
+// What gets written on the beat: enough to tell which model filmed each scene
+export const toBeatFootage = (clip: VideoClipResult): BeatFootage => ({
+  provider: clip.provider,
+  model: clip.model,
+  kind: clip.kind
+});
+
+// Playback stage for a finished clip
+export const getFootageStatus = (clip: VideoClipResult): string => {
+  if (clip.kind === 'stills') return clip.still ? 'SLIDESHOW MODE' : 'STILLS MODE (NO VIDEO)';
+  if (clip.attempts.length > 0) {
+    const label = clip.provider === 'test-pattern' ? 'TEST PATTERN' : PROVIDERS[clip.provider].label.toUpperCase();
+    return `PLAYBACK (FALLBACK: ${label})`;
+  }
+  return 'PLAYBACK';
+};
@@ -0,0 +1,116 @@
+import { Choice, VoteRoomSession, VoteRoomState, VoteTieBreak, VoterPass } from "../types";
+
+// --- AUDIENCE VOTING CLIENT ---
+// Talks to server/votingRoutes.js. The TV hosts a room; phones join with its code.
+
+const API_BASE = '/api/vote';
+
+const request = async (path: string, init: RequestInit = {}, hostToken?: string): Promise<Response> => {
+  const response = await fetch(`${API_BASE}${path}`, {
+    ...init,
+    headers: {
+      'Content-Type': 'application/json',
+      ...(hostToken ? { 'X-Host-Token': hostToken } : {})
+    }
+  });
+  if (!response.ok) {
+    const body = await response.json().catch(() => null);
+    throw new Error(body?.error || `Voting server error: ${response.status}`);
+  }
+  return response;
+};
+
+export const normalizeRoomCode = (code: string): string => code.trim().toUpperCase().replace(/[^A-Z]/g, '').slice(0, 4);
+
+// Link a phone can open to land straight on the vote page (HashRouter route)
+export const getJoinUrl = (code: string): string => {
+  return `${window.location.origin}${window.location.pathname}#/vote/${code}`;
+};
+
+export const createVoteRoom = async (tieBreak: VoteTieBreak): Promise<VoteRoomSession> => {
+  const response = await request('/rooms', { method: 'POST', body: JSON.stringify({ tieBreak }) });
+  const session: VoteRoomSession = await response.json();
+  console.log(`[Vote] Room ${session.code} opened`);
+  return session;
+};
+
+export const closeVoteRoom = async (session: VoteRoomSession): Promise<void> => {
+  await request(`/rooms/${session.code}`, { method: 'DELETE' }, session.hostToken);
+};
+
+export const openVoteRound = async (
+  session: VoteRoomSession,
+  narrative: string,
+  choices: Choice[],
+  durationSec: number,
+  tieBreak: VoteTieBreak
+): Promise<{ roundId: string; endsAt: number }> => {
+  const response = await request(`/rooms/${session.code}/round`, {
+    method: 'POST',
+    body: JSON.stringify({ narrative, choices, durationMs: durationSec * 1000, tieBreak })
+  }, session.hostToken);
+  return response.json();
+};
+
+export const cancelVoteRound = async (session: VoteRoomSession): Promise<void> => {
+  await request(`/rooms/${session.code}/round`, { method: 'DELETE' }, session.hostToken);
+};
+
+const voterPassKey = (code: string) => `living_tv_voter_${code}`;
+
+// One pass per room per device, kept so re-voting replaces this phone's earlier vote
+export const joinAsVoter = async (code: string, fresh: boolean = false): Promise<VoterPass> => {
+  const key = voterPassKey(code);
+  if (!fresh) {
+    try {
+      const stored = JSON.parse(localStorage.getItem(key) || 'null');
+      if (stored?.voterId && stored?.voterToken) return stored;
+    } catch { /* fall through to a new pass */ }
+  }
+  const response = await request(`/rooms/${code}/voters`, { method: 'POST' });
+  const pass: VoterPass = await response.json();
+  localStorage.setItem(key, JSON.stringify(pass));
+  return pass;
+};
+
+export const castVote = async (code: string, roundId: string, choiceId: string): Promise<void> => {
+  const send = (pass: VoterPass) => request(`/rooms/${code}/votes`, { method: 'POST', body: JSON.stringify({ roundId, choiceId, ...pass }) });
+  try {
+    await send(await joinAsVoter(code));
+  } catch (e: any) {
+    // A pass from before the server restarted (or a reused room code) is refused once; join again
+    if (!String(e?.message).startsWith('Join the room')) throw e;
+    await send(await joinAsVoter(code, true));
+  }
+};
+
+/**
+ * Live room state. EventSource reconnects on its own after network blips;
+ * onClosed fires once the host ends the room. Returns an unsubscribe function.
+ */
+export const subscribeToRoom = (
+  code: string,
+  onState: (state: VoteRoomState) => void,
+  onClosed: () => void,
+  asHost: boolean = false
+): (() => void) => {
+  const source = new EventSource(`${API_BASE}/rooms/${code}/events${asHost ? '?role=host' : ''}`);
+
+  source.addEventListener('state', (e) => {
+    try {
+      onState(JSON.parse((e as MessageEvent).data));
+    } catch (err) {
+      console.warn("[Vote] Bad state event", err);
+    }
+  });
+  source.addEventListener('closed', () => {
+    source.close();
+    onClosed();
+  });
+  // A 404 (unknown or expired room) ends the stream for good instead of retrying
+  source.onerror = () => {
+    if (source.readyState === EventSource.CLOSED) onClosed();
+  };
+
+  return () => source.close();
+};
@@ -1,11 +1,11 @@
-
-const fs = require('fs');
-const path = require('path');
+import fs from 'fs';
+import zlib from 'zlib';
 
 /**
  * THE TAPE FACTORY
  * 
  * Usage: node tools/factory.js <input.png> <characterName> <output.png>
+ *        node tools/factory.js --read <tape.png>
  */
 
 const CRC_TABLE = new Uint32Array(256);
@@ -93,13 +93,14 @@ function createTapeCard(inputPath, charName, outputPath) {
     }
   };
 
-  // 2. Create tEXt chunk
-  const keyBuffer = Buffer.from(KEYWORD);
-  const valBuffer = Buffer.from(JSON.stringify(tapeData));
-  const nullByte = Buffer.alloc(1); // Separator
+  // 2. Create iTXt chunk (compressed UTF-8, matches utils/tapeUtils.ts)
+  const keyBuffer = Buffer.from(KEYWORD, 'latin1');
+  // Null separator, compression flag, method 0 (zlib), empty language tag, empty translated keyword
+  const header = Buffer.from([0, 1, 0, 0, 0]);
+  const valBuffer = zlib.deflateSync(Buffer.from(JSON.stringify(tapeData), 'utf8'));
   
-  const textData = Buffer.concat([keyBuffer, nullByte, valBuffer]);
-  const newChunk = createChunk("tEXt", textData);
+  const textData = Buffer.concat([keyBuffer, header, valBuffer]);
+  const newChunk = createChunk("iTXt", textData);
 
   // 3. Inject before IEND
   // We need to parse chunks to find IEND
@@ -133,10 +134,92 @@ function createTapeCard(inputPath, charName, outputPath) {
   console.log(`   Size: ${(outputBuffer.length / 1024).toFixed(2)} KB`);
 }
 
+// tEXt/zTXt are Latin-1 by spec, but older tapes were written as raw UTF-8.
+function decodeLegacyText(buf) {
+  const utf8 = buf.toString('utf8');
+  return utf8.includes('\uFFFD') ? buf.toString('latin1') : utf8;
+}
+
+// Returns { keyword, text } for tEXt, zTXt and iTXt chunks, or null if malformed.
+function decodeTextChunk(type, data) {
+  const nullPos = data.indexOf(0);
+  if (nullPos === -1) return null;
+
+  const keyword = data.toString('latin1', 0, nullPos);
+  const rest = data.subarray(nullPos + 1);
+
+  if (type === 'tEXt') {
+    return { keyword, text: decodeLegacyText(rest) };
+  }
+  if (type === 'zTXt') {
+    // rest[0] is the compression method (0 = zlib)
+    return { keyword, text: decodeLegacyText(zlib.inflateSync(rest.subarray(1))) };
+  }
+
+  // iTXt: flag, method, language \0, translated keyword \0, text
+  const compressed = rest[0] === 1;
+  const langEnd = rest.indexOf(0, 2);
+  if (langEnd === -1) return null;
+  const translatedEnd = rest.indexOf(0, langEnd + 1);
+  if (translatedEnd === -1) return null;
+
+  const textBuffer = rest.subarray(translatedEnd + 1);
+  return { keyword, text: (compressed ? zlib.inflateSync(textBuffer) : textBuffer).toString('utf8') };
+}
+
+function readTapeCard(inputPath) {
+  if (!fs.existsSync(inputPath)) {
+    console.error(`Error: Input file not found: ${inputPath}`);
+    process.exit(1);
+  }
+
+  const fileBuffer = fs.readFileSync(inputPath);
+
+  if (Buffer.compare(fileBuffer.subarray(0, 8), PNG_SIGNATURE) !== 0) {
+    console.error("Error: Input file must be a PNG.");
+    process.exit(1);
+  }
+
+  let pos = 8;
+  let found = false;
+
+  while (pos < fileBuffer.length) {
+    const len = fileBuffer.readUInt32BE(pos);
+    const type = fileBuffer.toString('ascii', pos + 4, pos + 8);
+
+    if (type === 'tEXt' || type === 'zTXt' || type === 'iTXt') {
+      try {
+        const chunk = decodeTextChunk(type, fileBuffer.subarray(pos + 8, pos + 8 + len));
+        if (chunk && (chunk.keyword === KEYWORD || chunk.keyword === 'chara')) {
+          const json = chunk.keyword === 'chara'
+            ? Buffer.from(chunk.text.trim(), 'base64').toString('utf8')
+            : chunk.text;
+          console.log(`📼 ${chunk.keyword} (${type}, ${len} bytes):`);
+          console.log(JSON.stringify(JSON.parse(json), null, 2));
+          found = true;
+        }
+      } catch (e) {
+        console.error(`Warning: Could not decode ${type} chunk: ${e.message}`);
+      }
+    }
+
+    if (type === 'IEND') break;
+    pos += 8 + len + 4;
+  }
+
+  if (!found) {
+    console.error("No Tape Data found on this image.");
+    process.exit(1);
+  }
+}
+
 // Run
 const args = process.argv.slice(2);
-if (args.length < 3) {
+if (args[0] === '--read' && args[1]) {
+  readTapeCard(args[1]);
+} else if (args.length < 3) {
   console.log("Usage: node tools/factory.js <input.png> <characterName> <output.png>");
+  console.log("       node tools/factory.js --read <tape.png>");
 } else {
   createTapeCard(args[0], args[1], args[2]);
 }
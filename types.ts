@@ -11,6 +11,101 @@ export interface StoryBeat {
   narrative: string;
   visualPrompt: string; // Used for the next video generation
   choices: Choice[];
+  stateDelta?: StateDelta; // What this beat changed in the world (tapes with a worldSchema)
+  footage?: BeatFootage;   // Engine-written: which video provider filmed the scene
+  mood?: string;           // One of BEAT_MOODS; picks the music and ambience beds
+}
+
+// --- World State ---
+// Declared per tape in meta.worldSchema; the engine owns the numbers, the model only proposes changes.
+
+export interface WorldStatDef {
+  key: string;     // e.g. "hp"
+  label?: string;  // e.g. "Health"
+  initial: number;
+  min?: number;
+  max?: number;
+}
+
+export interface WorldFlagDef {
+  key: string;
+  label?: string;
+  initial: boolean;
+}
+
+export interface WorldSchema {
+  stats: WorldStatDef[];
+  flags: WorldFlagDef[];
+  inventory: string[]; // Starting items
+}
+
+export interface WorldState {
+  stats: Record<string, number>;
+  inventory: string[];
+  flags: Record<string, boolean>;
+}
+
+// Lists of pairs rather than maps so it fits JSON-schema constrained model output
+export interface StateDelta {
+  stats?: { key: string; change: number }[];
+  addItems?: string[];
+  removeItems?: string[];
+  flags?: { key: string; value: boolean }[];
+}
+
+// How the viewer got to a beat: a button from the menu, or an action they typed themselves
+export type ChoiceKind = 'menu' | 'write-in';
+
+// Per-tape rules for typed actions. Absent means write-ins are allowed with default limits.
+export interface WriteInPolicy {
+  enabled: boolean;
+  allowedVerbs?: string[]; // When set, the action must start with one of these ("open", "talk to")
+  maxLength?: number;      // Characters; defaults to WRITE_IN_MAX_LENGTH
+}
+
+// A single beat in the branching timeline. Every explored path lives in the tree.
+export interface TimelineNode {
+  id: string;
+  parentId: string | null;
+  beat: StoryBeat;
+  choice: string | null;   // The action taken on the parent that led here (null for the opening beat)
+  choiceKind?: ChoiceKind; // Absent for menu picks
+  frameRef: string | null; // Key of the still captured from this beat's clip (see storageService frames)
+  createdAt: number;
+  worldState?: WorldState; // Snapshot after this beat's stateDelta, so rewinds restore it
+}
+
+export interface Timeline {
+  preamble: string[]; // 'SERIES CONTEXT' / rules entries shared by every branch
+  nodes: Record<string, TimelineNode>;
+  rootId: string | null;
+  headId: string | null; // The node currently on screen; new beats branch from here
+  memory?: StoryMemory;  // Absent until the first chapter is summarised or a fact is pinned
+}
+
+// --- Memory ---
+// Older beats are condensed into chapter summaries so long tapes keep their continuity.
+
+export interface ChapterSummary {
+  id: string;
+  startNodeId: string; // First beat covered
+  endNodeId: string;   // Last beat covered; the chapter applies to every branch through it
+  summary: string;
+  beatCount: number;
+  createdAt: number;
+}
+
+export interface StoryMemory {
+  chapters: ChapterSummary[];
+  pinnedFacts: string[]; // Always sent, never summarised away
+}
+
+// What the prompt gets in place of the raw tail of history
+export interface MemoryContext {
+  pinnedFacts: string[];
+  chapters: string[];    // Oldest first
+  recent: string[];      // Narratives after the newest chapter, oldest first
+  omittedBeats: number;  // Beats that didn't fit the budget at all
 }
 
 export interface GameState {
@@ -19,7 +114,68 @@ export interface GameState {
   lastFrameBase64: string | null; // The "Tape" logic
   isLoading: boolean;
   loadingStage: string; // 'Writing Script' | 'Filming Scene' | 'Ready'
-  history: string[]; // Keep track of narrative for context
+  timeline: Timeline; // Full tree of explored paths
+}
+
+// --- Lorebook ---
+// Author-written world info, injected into the beat prompt only when its keywords come up.
+
+export type LorePosition =
+  | 'before_context'  // Ahead of the SERIES CONTEXT block
+  | 'after_context'   // Right after it (default)
+  | 'after_history';  // After the recent logs, just before the task: strongest pull
+
+export interface LorebookEntry {
+  id: string;
+  keys: string[];     // Trigger words/phrases, matched case-insensitively as whole words
+  content: string;
+  priority: number;   // Higher goes first and survives when the lore budget is tight
+  position: LorePosition;
+  enabled: boolean;
+  constant?: boolean; // Always injected, keywords or not
+}
+
+// --- Cast ---
+// Recurring characters. Whoever a beat mentions gets their description written into the shot,
+// and their reference image handed to video models that take one.
+
+export interface CastMember {
+  id: string;
+  name: string;
+  aliases: string[];       // Other names the script may use ("the Captain")
+  description: string;     // Physical appearance, as the video model should see it
+  referenceImage?: string; // data: URL, downscaled on upload to keep the tape small
+}
+
+// --- Character Card (Tavern V2 / V3) ---
+// Only the fields we read or write are typed; everything else is carried through untouched.
+
+export interface CharacterBookEntry {
+  keys: string[];
+  content: string;
+  enabled?: boolean;
+  insertion_order?: number;
+  priority?: number;
+  constant?: boolean;
+  position?: 'before_char' | 'after_char' | string;
+  [key: string]: any;
+}
+
+export interface CharacterCard {
+  spec: 'chara_card_v2' | 'chara_card_v3' | string;
+  spec_version: string;
+  data: {
+    name: string;
+    description?: string;
+    personality?: string;
+    scenario?: string;
+    first_mes?: string;
+    alternate_greetings?: string[];
+    character_book?: { name?: string; entries: CharacterBookEntry[]; [key: string]: any };
+    assets?: { type: string; uri: string; name: string; ext: string }[];
+    creator?: string;
+    [key: string]: any;
+  };
 }
 
 // The Schema compatible with CLI Factory tools
@@ -31,11 +187,21 @@ export interface TapeFileSchema {
     visualStyle?: string; // Persist the art style (e.g. 'vintage_anime')
     author?: string;      // Creator Name
     gameRules?: string;   // "No-Code" Logic Injection (e.g. "This is a horror game")
+    characterCard?: CharacterCard; // Original card when imported from V2/V3, kept for round-trip export
+    worldSchema?: WorldSchema;     // Stats/flags/inventory the engine tracks for this tape
+    lorebook?: LorebookEntry[];    // Keyword-triggered world info (imported cards map character_book here)
+    cast?: CastMember[];           // Recurring characters kept visually consistent across clips
+    writeIns?: WriteInPolicy;      // Whether viewers may type their own actions, and what they may type
+    narrator?: NarratorVoice;      // Voice that reads each beat aloud (overrides the viewer's settings)
+    soundtrack?: TapeSoundtrack;   // Beds pinned by the author instead of following each beat's mood
+    videoParams?: VideoParams;     // Framing for every provider (e.g. a vertical 9:16 show); wins over the viewer's settings
   };
   engineState: {
-    history: string[];
+    history: string[];   // Flattened active branch (kept so older builds can still read the tape)
+    timeline?: Timeline; // Absent on legacy tapes; rebuilt from history on load
     currentBeat: StoryBeat | null;
     loadingStage?: string;
+    worldState?: WorldState; // World at the head beat; wins over the head node's snapshot on load
   };
 }
 
@@ -54,6 +220,299 @@ export interface AppSettings {
   visualStyle: string; // Key from ANIMATION_STYLES (Fallback only)
   videoModel: string;  // Key from VIDEO_MODELS
   openRouterModel: string; // Custom model ID for OpenRouter
+  narrativeProvider: NarrativeProviderId; // Which model writes the show
+  geminiModel: string;     // Gemini model ID used when narrativeProvider is 'gemini'
+  customBaseUrl: string;   // OpenAI-compatible endpoint, e.g. http://localhost:8080/v1
+  customModel: string;
+  customApiKey?: string;   // Optional; most local servers don't check it
+  customVision: boolean;   // Endpoint accepts image_url content parts
+  customJsonMode: boolean; // Endpoint honours response_format: json_object
+  testPatternVideo: boolean; // Render local colour-bar clips instead of calling a video API
+  preRollEnabled: boolean;   // Pre-generate the next scene for visible choices while a clip plays
+  preRollBudget: number;     // Max choices pre-generated per beat
+  preRollConcurrency: number;
+  preRollVideo: boolean;     // Also film pre-rolled beats (costs a clip per choice)
+  preRollKeepAlternates: boolean; // Keep finished but unpicked branches in the timeline
+  memoryEnabled: boolean;    // Summarise older beats into chapters and send them with every beat
+  memoryChapterSize: number; // Beats per chapter summary
+  memoryTokenBudget: number; // Rough cap (≈4 chars/token) on pinned facts + summaries + recent beats
+  writeInModeration: boolean; // Ask the script writer to vet typed actions against the tape rules first
+  votingDurationSec: number;  // Audience voting window per beat
+  votingTieBreak: VoteTieBreak;
+  proxyMode: boolean;         // Send provider calls through the server, which holds the keys
+  priceTable: Record<string, ModelPrice>; // Overrides/additions to DEFAULT_PRICE_TABLE, keyed by model id or prefix
+  spendCap: number;           // USD per tape; the loop pauses once reached. 0 = no cap
+  videoChain: VideoChainEntry[]; // Ordered video providers to try; empty = automatic from the keys present
+  renderMode: RenderMode;     // 'slideshow' skips video and paints one still per beat
+  stillsModel: string;        // Image model for stills ('fal-ai/...' or 'gemini-...'); '' = automatic, 'none' = hold the last frame
+  videoParams: Partial<Record<VideoProviderId, VideoParams>>; // Generation parameters per provider
+  narratorEnabled: boolean;   // Read each beat's narrative aloud
+  narratorProvider: NarratorProviderId;
+  narratorModel: string;      // Cloud TTS model; '' = the provider's default
+  narratorVoice: string;      // Provider voice name; '' = the provider's default
+  narratorRate: number;       // 0.5 - 2
+  narratorPitch: number;      // 0 - 2 (Web Speech only)
+  soundtrackEnabled: boolean; // Music and ambience beds under the show
+  musicVolume: number;        // 0 - 1
+  ambienceVolume: number;     // 0 - 1
+}
+
+// --- Soundtrack ---
+
+export type SoundBedKind = 'music' | 'ambience';
+
+// A looping bed. Built-in beds are synthesized on the fly; uploaded ones live in IndexedDB.
+export interface SoundBed {
+  id: string;       // 'builtin:<kind>:<name>' or a stored bed id
+  name: string;
+  kind: SoundBedKind;
+  moods: string[];  // Moods this bed is picked for
+  builtIn: boolean;
+  createdAt?: number;
+}
+
+// meta.soundtrack; unset layers follow the beat's mood
+export interface TapeSoundtrack {
+  music?: string;     // SoundBed id
+  ambience?: string;  // SoundBed id
+  mood?: string;      // Fallback mood for beats that don't carry one
+}
+
+// --- Narrator ---
+
+export type NarratorProviderId = 'web-speech' | 'gemini' | 'openai-compatible';
+
+// Per-tape narrator (meta.narrator); unset fields fall back to the viewer's settings
+export interface NarratorVoice {
+  voice?: string;
+  rate?: number;
+  pitch?: number;
+}
+
+// --- Video Providers ---
+
+// 'stills' films nothing: the scene plays over the last captured frame
+export type VideoProviderId = 'fal' | 'openrouter' | 'veo' | 'stills';
+
+export interface VideoChainEntry {
+  provider: VideoProviderId;
+  model: string; // Fal endpoint, VIDEO_MODELS key or OpenRouter id; '' = the provider's model setting
+}
+
+export type VideoClipKind = 'video' | 'stills' | 'test-pattern';
+
+export type RenderMode = 'video' | 'slideshow';
+
+export type VideoAspectRatio = '16:9' | '9:16' | '1:1';
+
+export type CameraMotion = 'static' | 'pan-left' | 'pan-right' | 'tilt-up' | 'tilt-down' | 'zoom-in' | 'zoom-out' | 'orbit' | 'handheld';
+
+// Unset fields are left to the provider's own default
+export interface VideoParams {
+  duration?: number;        // Seconds
+  aspectRatio?: VideoAspectRatio;
+  resolution?: string;      // e.g. '720p'
+  seed?: number;
+  negativePrompt?: string;
+  cameraMotion?: CameraMotion; // Written into the prompt; no provider takes it as a parameter
+}
+
+// Why a provider in the chain was skipped; everything except a cancel fails over to the next one
+export type VideoErrorClass = 'not-configured' | 'unsupported' | 'validation' | 'rate-limit' | 'timeout' | 'auth' | 'transient' | 'unknown';
+
+export interface VideoAttempt {
+  provider: VideoProviderId;
+  model: string;
+  errorClass: VideoErrorClass;
+  message: string;
+}
+
+export interface BeatFootage {
+  provider: VideoProviderId | 'test-pattern';
+  model: string;
+  kind: VideoClipKind;
+  stillRef?: string; // Frame store key of the painted still (stills only); the node's frameRef is continuity bookkeeping
+}
+
+export interface VideoClipResult extends BeatFootage {
+  url: string | null;         // null for stills
+  still?: string | null;      // Base64 image painted for the beat (stills only); null = hold the last frame
+  attempts: VideoAttempt[];   // Providers that failed before this one
+}
+
+// --- Generation Jobs ---
+
+export type JobKind = 'text' | 'video' | 'preroll'; // Pre-roll jobs write and film one branch
+
+// 'detached' jobs stopped polling locally (e.g. the viewer left) but may still finish at the provider
+export type JobStatus = 'running' | 'done' | 'failed' | 'cancelled' | 'detached';
+
+export interface GenerationJob {
+  id: string;
+  kind: JobKind;
+  label: string;
+  owner: string | null;      // Lets a screen cancel everything it started
+  status: JobStatus;
+  progress: string | null;   // Latest provider update (queue position, polling time, remote logs)
+  startedAt: number;
+  finishedAt: number | null;
+  error: string | null;
+}
+
+// Enough to pick a provider-side video job back up after a reload
+export interface VideoResumeToken {
+  provider: 'veo' | 'fal';
+  model: string;
+  operationName?: string; // Veo long-running operation
+  requestId?: string;     // Fal queue request
+  seconds?: number;       // Requested clip length, for metering the resumed clip
+  usageId?: string;       // Usage record the accepted job was billed under
+}
+
+// A filming job that can be resumed, with what the TV needs to put the clip back on the timeline
+export interface ResumableJob {
+  jobId: string;
+  tapeId: string;
+  parentId: string | null;
+  choice: string | null;
+  choiceKind: ChoiceKind;
+  beat: StoryBeat;
+  // The timeline when filming started; a reload can lose unsaved beats, and the branch is rebuilt from this
+  timeline?: Timeline;
+  sourceTape?: TapeFileSchema | null; // Session tapes only: nothing else keeps what was loaded across a reload
+  token: VideoResumeToken;
+  createdAt: number;
+}
+
+// --- Usage Accounting ---
+
+// Estimated list prices in USD. Missing fields cost nothing.
+export interface ModelPrice {
+  inputPerMTok?: number;  // Per million prompt tokens
+  outputPerMTok?: number; // Per million completion tokens
+  perSecond?: number;     // Per second of generated video
+  perJob?: number;        // Flat per successful generation
+}
+
+export type UsageKind = 'text' | 'video' | 'image' | 'speech';
+
+// One provider call, including all of its retries
+export interface UsageRecord {
+  id: string;
+  sessionId: string;
+  tapeId: string | null;
+  at: number;
+  provider: string;
+  model: string;
+  kind: UsageKind;
+  promptTokens: number;
+  completionTokens: number;
+  videoSeconds: number;
+  jobs: number;
+  durationMs: number;
+  retries: number;
+  cost: number;     // Estimated USD
+  priced: boolean;  // False when no price was known for the model
+  ok: boolean;
+}
+
+export interface UsageSummary {
+  calls: number;
+  failed: number;
+  retries: number;
+  promptTokens: number;
+  completionTokens: number;
+  videoSeconds: number;
+  jobs: number;
+  cost: number;
+  unpriced: number;
+  byModel: Record<string, { calls: number; cost: number }>;
+}
+
+// Keys the server holds when running in proxy mode
+export interface ProxyStatus {
+  gemini: boolean;
+  openrouter: boolean;
+  fal: boolean;
+}
+
+// --- Audience Voting ---
+
+// How a tied round is settled: earliest choice in menu order, random draw, or the host picks
+export type VoteTieBreak = 'first' | 'random' | 'host';
+
+export interface VoteRoundResult {
+  winnerId: string | null; // null when cancelled or left to the host
+  tied: string[];          // Choice ids sharing the top tally
+  reason: string;
+}
+
+export interface VoteRound {
+  id: string;
+  narrative: string;
+  choices: Choice[];
+  endsAt: number;
+  open: boolean;
+  tallies: Record<string, number>;
+  totalVotes: number;
+  result: VoteRoundResult | null;
+}
+
+// Room state as broadcast by the server to the TV and every phone
+export interface VoteRoomState {
+  code: string;
+  viewers: number;
+  tieBreak: VoteTieBreak;
+  round: VoteRound | null;
+}
+
+export interface VoteRoomSession {
+  code: string;
+  hostToken: string;
+}
+
+// Issued by the server when a phone joins a room; votes without a valid pair are refused
+export interface VoterPass {
+  voterId: string;
+  voterToken: string;
+}
+
+// --- Narrative Providers ---
+
+export type NarrativeProviderId = 'gemini' | 'openrouter' | 'openai-compatible' | 'test-pattern';
+
+export interface ProviderCapabilities {
+  vision: boolean;   // Can look at the last captured frame
+  jsonMode: boolean; // Can be forced to return JSON (otherwise we extract it from the text)
+}
+
+export interface BeatRequest {
+  history: string[];          // Active branch, preamble first
+  choice: string | null;
+  frameBase64: string | null; // Dropped before reaching providers without vision
+  styleKey: string;
+  worldState?: WorldState | null; // Authoritative state the beat must respect
+  memory?: MemoryContext | null;   // Budgeted long-term context; falls back to the last 5 beats
+  lorebook?: LorebookEntry[];      // Whole book; the prompt builder picks what the scene triggers
+  cast?: CastMember[];
+  choiceKind?: ChoiceKind;         // Write-ins get told apart from menu picks in the prompt
+  signal?: AbortSignal;            // Aborts the request when its job is cancelled
+}
+
+export interface GenesisParams {
+  name: string;
+  desc: string;
+  setting: string;
+  themes: string[];
+}
+
+export interface NarrativeProvider {
+  id: NarrativeProviderId;
+  label: string;
+  getCapabilities: (settings: AppSettings) => ProviderCapabilities;
+  generateBeat: (request: BeatRequest, settings: AppSettings) => Promise<StoryBeat>;
+  generateGenesis: (params: GenesisParams, settings: AppSettings) => Promise<StoryBeat>;
+  generateText: (prompt: string, settings: AppSettings) => Promise<string>; // Plain text (chapter summaries, write-in checks)
 }
 
 export interface OpenRouterModel {
@@ -0,0 +1,85 @@
+import { CastMember, StoryBeat } from '../types';
+import { findKeyword } from './lorebook';
+
+// Veo 3.1 takes at most 3 asset references; one slot stays free for the continuity frame
+export const MAX_CAST_REFERENCES = 2;
+
+// Reference sheets are stored inside the tape, so keep them small
+const REFERENCE_MAX_SIZE = 512;
+
+export const createCastId = (): string => {
+  return `cast_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+};
+
+export const createCastMember = (overrides: Partial<CastMember> = {}): CastMember => ({
+  id: createCastId(),
+  name: '',
+  aliases: [],
+  description: '',
+  ...overrides
+});
+
+const namesOf = (member: CastMember) => [member.name, ...member.aliases].filter(n => n.trim() !== '');
+
+// Cast members the beat mentions by name or alias, in cast-list order
+export const getCastInText = (cast: CastMember[] | undefined, text: string): CastMember[] => {
+  if (!cast) return [];
+  return cast.filter(m => m.description.trim() !== '' && namesOf(m).some(n => findKeyword(n, text) !== null));
+};
+
+/**
+ * Writes each member's description into the prompt: right after their first mention,
+ * or appended when only the narrative names them. Descriptions already present aren't repeated.
+ */
+export const expandCastInPrompt = (prompt: string, members: CastMember[]): string => {
+  let expanded = prompt;
+  members.forEach(member => {
+    const description = member.description.trim();
+    if (expanded.toLowerCase().includes(description.toLowerCase())) return;
+
+    const match = namesOf(member).map(n => findKeyword(n, expanded)).find(m => m !== null);
+    if (match) {
+      const at = match.index + match[0].length;
+      expanded = `${expanded.slice(0, at)} (${description})${expanded.slice(at)}`;
+    } else {
+      expanded = `${expanded.replace(/[\s.]*$/, '')}. ${member.name}: ${description}`;
+    }
+  });
+  return expanded;
+};
+
+/**
+ * The prompt and reference images for filming a beat.
+ */
+export const buildShot = (beat: StoryBeat, cast: CastMember[] | undefined): { prompt: string; references: string[] } => {
+  const members = getCastInText(cast, `${beat.narrative}\n${beat.visualPrompt}`);
+  return {
+    prompt: expandCastInPrompt(beat.visualPrompt, members),
+    references: members
+      .map(m => m.referenceImage)
+      .filter((img): img is string => !!img)
+      .slice(0, MAX_CAST_REFERENCES)
+  };
+};
+
+/**
+ * Downscales an uploaded reference to a JPEG data URL no bigger than REFERENCE_MAX_SIZE.
+ */
+export const shrinkReferenceImage = (dataUrl: string): Promise<string> => new Promise((resolve, reject) => {
+  const img = new Image();
+  img.onload = () => {
+    const scale = Math.min(1, REFERENCE_MAX_SIZE / Math.max(img.width, img.height));
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.round(img.width * scale);
+    canvas.height = Math.round(img.height * scale);
+    const ctx = canvas.getContext('2d');
+    if (!ctx) {
+      reject(new Error("Canvas context failed"));
+      return;
+    }
+    ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+    resolve(canvas.toDataURL('image/jpeg', 0.85));
+  };
+  img.onerror = () => reject(new Error("Reference image failed to load"));
+  img.src = dataUrl;
+});
@@ -0,0 +1,157 @@
+import { CharacterCard, CharacterBookEntry, Choice, LorebookEntry, TapeFileSchema } from '../types';
+import { getPath } from './timelineUtils';
+import { CARD_V2_KEYWORD, CARD_V3_KEYWORD, textToBase64 } from './tapeUtils';
+import { createLoreEntry } from './lorebook';
+
+const DEFAULT_CHOICES: Choice[] = [
+  { id: "1", text: "Look around" },
+  { id: "2", text: "Move forward" },
+  { id: "3", text: "Check inventory" },
+  { id: "4", text: "Wait" }
+];
+
+const MAX_CHOICE_LENGTH = 120;
+
+// Fields that only exist in V3; stripped when we write the V2 'chara' chunk
+const V3_ONLY_FIELDS = ['assets', 'nickname', 'creator_notes_multilingual', 'source', 'group_only_greetings', 'creation_date', 'modification_date'];
+
+const isCardSpec = (json: any) => json?.spec === 'chara_card_v2' || json?.spec === 'chara_card_v3';
+
+// Alternate greetings become the opening menu. Long greetings are clipped so the buttons stay readable.
+const greetingsToChoices = (greetings: any): Choice[] => {
+  if (!Array.isArray(greetings)) return [];
+  return greetings
+    .filter((g: any) => typeof g === 'string' && g.trim() !== '')
+    .map((g: string, i: number) => ({
+      id: String(i + 1),
+      text: g.length > MAX_CHOICE_LENGTH ? `${g.substring(0, MAX_CHOICE_LENGTH - 3).trim()}...` : g.trim()
+    }));
+};
+
+// character_book entries become our lorebook. Disabled entries are kept (disabled) so authors can switch them back on.
+const bookToLorebook = (entries: CharacterBookEntry[] | undefined): LorebookEntry[] => {
+  if (!Array.isArray(entries)) return [];
+  return entries
+    .filter(e => e && typeof e.content === 'string' && e.content.trim() !== '')
+    .map(e => {
+      const keys = Array.isArray(e.keys) ? e.keys.filter((k: any) => typeof k === 'string' && k.trim() !== '') : [];
+      return createLoreEntry({
+        keys,
+        content: e.content.trim(),
+        priority: typeof e.priority === 'number' ? e.priority : (e.insertion_order || 0),
+        position: e.position === 'before_char' ? 'before_context' : 'after_context',
+        enabled: e.enabled !== false,
+        // Keyless entries could never trigger, so treat them like the card's always-on entries
+        constant: !!e.constant || keys.length === 0
+      });
+    });
+};
+
+const lorebookToBook = (lorebook: LorebookEntry[]): { name?: string; entries: CharacterBookEntry[] } => ({
+  entries: lorebook.map((e, i) => ({
+    id: i + 1,
+    keys: e.keys,
+    content: e.content,
+    enabled: e.enabled,
+    insertion_order: e.priority,
+    priority: e.priority,
+    constant: !!e.constant,
+    position: e.position === 'before_context' ? 'before_char' : 'after_char',
+    use_regex: false,
+    extensions: {}
+  }))
+});
+
+// Helper to normalize generic card JSON into our Schema
+export const normalizeCardData = (json: any): TapeFileSchema => {
+    // Supports Standard Tavern/V2 and V3 Card JSON structure
+    const charName = json.data?.name || json.character?.name || json.name || "Unknown";
+
+    // Extract rich context
+    const scenario = json.data?.scenario || json.scenario || json.character?.scenario || "A mysterious sequence of events.";
+    const personality = json.data?.description || json.personality || json.description || json.character?.description || "Unknown entity.";
+    const firstMes = json.data?.first_mes || json.first_mes || json.initial_prompt || `The story of ${charName} begins.`;
+    const greetingChoices = greetingsToChoices(json.data?.alternate_greetings || json.alternate_greetings);
+    const lorebook = bookToLorebook(json.data?.character_book?.entries);
+
+    // Construct a 'Context Zero' entry.
+    // This specific format allows us to detect it later and prepend it to prompts.
+    const contextEntry = `SERIES CONTEXT:\nCharacter: ${charName}\nPersonality/Description: ${personality}\nScenario/Theme: ${scenario}`;
+
+    return {
+        meta: {
+            version: "1.0",
+            characterName: charName,
+            createdAt: new Date().toISOString(),
+            author: json.data?.creator || undefined,
+            characterCard: isCardSpec(json) ? json : undefined,
+            lorebook: lorebook.length > 0 ? lorebook : undefined
+        },
+        engineState: {
+            // Pushing context first, then the actual start message
+            history: [contextEntry, firstMes],
+            currentBeat: {
+                narrative: firstMes,
+                visualPrompt: `A cinematic shot of ${charName} in this setting: ${scenario}. ${personality}`,
+                choices: greetingChoices.length > 0 ? greetingChoices : DEFAULT_CHOICES
+            },
+            loadingStage: "CARD IMPORT"
+        }
+    };
+};
+
+/**
+ * Builds a V3 card for a tape. Fields from the originally imported card win,
+ * so lorebooks, assets and extensions survive a round trip untouched.
+ */
+export const buildCharacterCard = (tape: TapeFileSchema): CharacterCard => {
+  const original = tape.meta.characterCard;
+  const timeline = tape.engineState.timeline;
+  const preamble = timeline ? timeline.preamble : tape.engineState.history;
+  const context = preamble.find(h => h.startsWith('SERIES CONTEXT:')) || '';
+
+  const description = context.match(/Personality\/Description: (.*)/)?.[1]?.trim() || '';
+  const scenario = (context.match(/Scenario\/Theme: (.*)/) || context.match(/Setting: (.*)/))?.[1]?.trim() || '';
+  const openingBeat = timeline && timeline.rootId ? getPath(timeline)[0]?.beat : tape.engineState.currentBeat;
+
+  return {
+    spec: 'chara_card_v3',
+    spec_version: '3.0',
+    data: {
+      name: tape.meta.characterName,
+      description,
+      personality: '',
+      scenario,
+      first_mes: openingBeat?.narrative || '',
+      mes_example: '',
+      creator_notes: 'Exported from The Tape Loop.',
+      system_prompt: '',
+      post_history_instructions: tape.meta.gameRules || '',
+      alternate_greetings: [],
+      tags: [],
+      creator: tape.meta.author || '',
+      character_version: '',
+      extensions: {},
+      group_only_greetings: [],
+      ...(tape.meta.lorebook?.length ? { character_book: lorebookToBook(tape.meta.lorebook) } : {}),
+      ...original?.data
+    }
+  };
+};
+
+const toV2Card = (card: CharacterCard): CharacterCard => {
+  const data = { ...card.data };
+  V3_ONLY_FIELDS.forEach(field => delete data[field]);
+  return { spec: 'chara_card_v2', spec_version: '2.0', data };
+};
+
+/**
+ * The 'chara' (V2) and 'ccv3' (V3) chunks to write next to our own tape data.
+ */
+export const buildCardChunks = (tape: TapeFileSchema): { keyword: string; text: string }[] => {
+  const card = buildCharacterCard(tape);
+  return [
+    { keyword: CARD_V2_KEYWORD, text: textToBase64(JSON.stringify(toV2Card(card))) },
+    { keyword: CARD_V3_KEYWORD, text: textToBase64(JSON.stringify(card)) }
+  ];
+};
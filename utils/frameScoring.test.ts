@@ -0,0 +1,31 @@
+import { describe, it, expect } from 'vitest';
+import { measureFrame, scoreFrame } from './frameScoring';
+
+const frame = (width: number, height: number, luma: (x: number, y: number) => number): Uint8ClampedArray => {
+  const rgba = new Uint8ClampedArray(width * height * 4);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const o = (y * width + x) * 4;
+      rgba[o] = rgba[o + 1] = rgba[o + 2] = luma(x, y);
+      rgba[o + 3] = 255;
+    }
+  }
+  return rgba;
+};
+
+describe('frame scoring', () => {
+  it('scores a black frame as unusable', () => {
+    expect(scoreFrame(measureFrame(frame(16, 16, () => 0), 16, 16)).total).toBe(0);
+  });
+
+  it('prefers a sharp frame over a flat one at the same exposure', () => {
+    const flat = scoreFrame(measureFrame(frame(16, 16, () => 118), 16, 16));
+    const sharp = scoreFrame(measureFrame(frame(16, 16, (x, y) => ((x + y) % 2 ? 60 : 176)), 16, 16));
+    expect(sharp.total).toBeGreaterThan(flat.total);
+  });
+
+  it('gives a visible face a bonus', () => {
+    const metrics = measureFrame(frame(16, 16, () => 118), 16, 16);
+    expect(scoreFrame(metrics, true).total).toBeGreaterThan(scoreFrame(metrics, false).total);
+  });
+});
@@ -0,0 +1,76 @@
+// --- FRAME SCORING ---
+// How good a frame is as a starting point for the next clip. Works on small RGBA buffers
+// (see SCORING_WIDTH) so a handful of candidates can be scored on the main thread.
+
+export const SCORING_WIDTH = 320;
+
+// Laplacian variance at SCORING_WIDTH above which a frame counts as fully sharp
+const SHARP_VARIANCE = 400;
+const DARK_LUMA = 16;
+// Below this a frame is a fade, a cut to black or a loading gap; never use it
+const MIN_MEAN_LUMA = 12;
+const MAX_DARK_RATIO = 0.9;
+const TARGET_LUMA = 118;
+
+export interface FrameMetrics {
+  sharpness: number;  // Variance of the Laplacian
+  brightness: number; // Mean luma, 0-255
+  darkRatio: number;  // Share of near-black pixels, 0-1
+}
+
+export interface FrameScore extends FrameMetrics {
+  face: boolean;
+  total: number; // 0 = unusable; roughly 0-1, a visible face adds a bonus
+}
+
+const toLuma = (rgba: Uint8ClampedArray, pixels: number): Float32Array => {
+  const luma = new Float32Array(pixels);
+  for (let i = 0; i < pixels; i++) {
+    const o = i * 4;
+    luma[i] = 0.299 * rgba[o] + 0.587 * rgba[o + 1] + 0.114 * rgba[o + 2];
+  }
+  return luma;
+};
+
+export const measureFrame = (rgba: Uint8ClampedArray, width: number, height: number): FrameMetrics => {
+  const luma = toLuma(rgba, width * height);
+
+  let sum = 0;
+  let dark = 0;
+  for (let i = 0; i < luma.length; i++) {
+    sum += luma[i];
+    if (luma[i] < DARK_LUMA) dark++;
+  }
+
+  // 4-neighbour Laplacian; motion blur and mid-dissolve frames flatten it
+  let lapSum = 0;
+  let lapSq = 0;
+  let count = 0;
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const i = y * width + x;
+      const lap = luma[i - width] + luma[i + width] + luma[i - 1] + luma[i + 1] - 4 * luma[i];
+      lapSum += lap;
+      lapSq += lap * lap;
+      count++;
+    }
+  }
+  const lapMean = count ? lapSum / count : 0;
+
+  return {
+    sharpness: count ? lapSq / count - lapMean * lapMean : 0,
+    brightness: luma.length ? sum / luma.length : 0,
+    darkRatio: luma.length ? dark / luma.length : 1
+  };
+};
+
+/**
+ * Mostly sharpness, then sensible exposure. Black frames score 0 whatever else they have.
+ */
+export const scoreFrame = (metrics: FrameMetrics, face: boolean = false): FrameScore => {
+  const unusable = metrics.brightness < MIN_MEAN_LUMA || metrics.darkRatio > MAX_DARK_RATIO;
+  const sharp = Math.min(1, metrics.sharpness / SHARP_VARIANCE);
+  const exposure = Math.max(0, 1 - Math.abs(metrics.brightness - TARGET_LUMA) / TARGET_LUMA);
+  const total = unusable ? 0 : sharp * 0.6 + exposure * 0.25 + (1 - metrics.darkRatio) * 0.15 + (face ? 0.2 : 0);
+  return { ...metrics, face, total };
+};
@@ -0,0 +1,16 @@
+import { describe, it, expect } from 'vitest';
+import { findKeyword } from './lorebook';
+
+describe('findKeyword', () => {
+  it('matches whole words, case-insensitively', () => {
+    expect(findKeyword('Ra', 'Ra rises.')).not.toBeNull();
+    expect(findKeyword('ra', 'The RA rises')).not.toBeNull();
+    expect(findKeyword('Ra', 'It is rain.')).toBeNull();
+  });
+
+  it('treats regex characters literally and skips blank keys', () => {
+    expect(findKeyword('C++', 'She writes C++ at night')).not.toBeNull();
+    expect(findKeyword('a.b', 'axb')).toBeNull();
+    expect(findKeyword('  ', 'anything')).toBeNull();
+  });
+});
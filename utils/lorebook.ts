@@ -0,0 +1,76 @@
+import { LorebookEntry, LorePosition } from '../types';
+import { estimateTokens } from './memory';
+
+// How many recent beats are scanned for keywords (plus the chosen action)
+export const LORE_SCAN_DEPTH = 4;
+
+// Cap on injected lore so a busy scene can't crowd out the story itself
+export const LORE_TOKEN_BUDGET = 800;
+
+export const LORE_POSITIONS: { value: LorePosition; label: string }[] = [
+  { value: 'before_context', label: 'Before series context' },
+  { value: 'after_context', label: 'After series context' },
+  { value: 'after_history', label: 'After recent logs' }
+];
+
+export const createLoreEntryId = (): string => {
+  return `lore_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+};
+
+export const createLoreEntry = (overrides: Partial<LorebookEntry> = {}): LorebookEntry => ({
+  id: createLoreEntryId(),
+  keys: [],
+  content: '',
+  priority: 0,
+  position: 'after_context',
+  enabled: true,
+  ...overrides
+});
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * First whole-word occurrence of `key` in `text` (case-insensitive), or null.
+ * Word boundaries only apply where the key starts/ends with a word character, so "Ra" doesn't fire on "rain".
+ */
+export const findKeyword = (key: string, text: string): RegExpExecArray | null => {
+  const trimmed = key.trim();
+  if (!trimmed) return null;
+  const start = /^\w/.test(trimmed) ? '\\b' : '';
+  const end = /\w$/.test(trimmed) ? '\\b' : '';
+  return new RegExp(`${start}${escapeRegExp(trimmed)}${end}`, 'i').exec(text);
+};
+
+/**
+ * Entries triggered by the recent beats or the chosen action, highest priority first,
+ * trimmed to LORE_TOKEN_BUDGET. Constant entries always qualify.
+ */
+export const selectLoreEntries = (
+  lorebook: LorebookEntry[] | undefined,
+  recentBeats: string[],
+  choice: string | null
+): LorebookEntry[] => {
+  if (!lorebook || lorebook.length === 0) return [];
+  const scanText = [...recentBeats.slice(-LORE_SCAN_DEPTH), choice || ''].join('\n');
+
+  const triggered = lorebook
+    .filter(e => e.enabled && e.content.trim() !== '')
+    .filter(e => e.constant || e.keys.some(k => findKeyword(k, scanText) !== null))
+    .sort((a, b) => b.priority - a.priority);
+
+  const selected: LorebookEntry[] = [];
+  let used = 0;
+  triggered.forEach(entry => {
+    const cost = estimateTokens(entry.content);
+    if (used + cost > LORE_TOKEN_BUDGET) return;
+    selected.push(entry);
+    used += cost;
+  });
+  return selected;
+};
+
+// Prompt block for one insertion position, or '' when nothing landed there
+export const formatLoreBlock = (entries: LorebookEntry[], position: LorePosition): string => {
+  const lines = entries.filter(e => e.position === position).map(e => `- ${e.content.trim()}`);
+  return lines.length > 0 ? `WORLD INFO (established lore, stay consistent with it):\n${lines.join('\n')}\n\n` : '';
+};
@@ -0,0 +1,34 @@
+import { describe, it, expect } from 'vitest';
+import { buildMemoryContext, setPinnedFacts, MIN_RECENT_BEATS } from './memory';
+import { appendBeat, createTimeline } from './timelineUtils';
+import { Timeline } from '../types';
+
+const chain = (narratives: string[]): Timeline => {
+  let timeline = createTimeline();
+  narratives.forEach(narrative => {
+    timeline = appendBeat(timeline, timeline.headId, { narrative, visualPrompt: '', choices: [] }, null).timeline;
+  });
+  return timeline;
+};
+
+describe('buildMemoryContext', () => {
+  it('keeps every beat when the budget allows', () => {
+    const timeline = chain(['a', 'b', 'c']);
+    const context = buildMemoryContext(timeline, timeline.headId, 1000);
+    expect(context.recent).toEqual(['a', 'b', 'c']);
+    expect(context.omittedBeats).toBe(0);
+  });
+
+  it('always keeps the last few beats and drops older ones past the budget', () => {
+    const narratives = Array.from({ length: 10 }, (_, i) => `beat ${i} `.repeat(10));
+    const timeline = chain(narratives);
+    const context = buildMemoryContext(timeline, timeline.headId, 1);
+    expect(context.recent).toEqual(narratives.slice(-MIN_RECENT_BEATS));
+    expect(context.omittedBeats).toBe(10 - MIN_RECENT_BEATS);
+  });
+
+  it('includes pinned facts', () => {
+    const timeline = setPinnedFacts(chain(['a']), ['The door is locked']);
+    expect(buildMemoryContext(timeline, timeline.headId, 1000).pinnedFacts).toEqual(['The door is locked']);
+  });
+});
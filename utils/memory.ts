@@ -0,0 +1,111 @@
+import { ChapterSummary, MemoryContext, StoryMemory, Timeline, TimelineNode } from '../types';
+import { getPath } from './timelineUtils';
+
+// Beats always sent verbatim, whatever the budget (matches the old slice(-5))
+export const MIN_RECENT_BEATS = 5;
+
+// Close enough for budgeting across Gemini/GPT/Llama tokenizers
+export const estimateTokens = (text: string): number => Math.ceil(text.length / 4);
+
+export const getMemory = (timeline: Timeline): StoryMemory => {
+  return timeline.memory || { chapters: [], pinnedFacts: [] };
+};
+
+export const createChapterId = (): string => {
+  return `chapter_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+};
+
+/**
+ * Chapters covering the branch up to nodeId, oldest first.
+ * A chapter counts when both ends lie on the path; overlapping chapters (from a race) keep the earliest.
+ */
+export const getChaptersOnPath = (timeline: Timeline, path: TimelineNode[]): { chapter: ChapterSummary; endIndex: number }[] => {
+  const index = new Map(path.map((n, i) => [n.id, i]));
+  const candidates = getMemory(timeline).chapters
+    .filter(c => index.has(c.startNodeId) && index.has(c.endNodeId))
+    .map(c => ({ chapter: c, startIndex: index.get(c.startNodeId)!, endIndex: index.get(c.endNodeId)! }))
+    .sort((a, b) => a.endIndex - b.endIndex);
+
+  const chain: { chapter: ChapterSummary; endIndex: number }[] = [];
+  let coveredTo = -1;
+  candidates.forEach(c => {
+    if (c.startIndex > coveredTo && c.startIndex <= c.endIndex) {
+      chain.push({ chapter: c.chapter, endIndex: c.endIndex });
+      coveredTo = c.endIndex;
+    }
+  });
+  return chain;
+};
+
+/**
+ * The next run of beats due for a summary, or null. Beats stay verbatim until a full chapter
+ * has scrolled past the recent window.
+ */
+export const findUnsummarizedChapter = (
+  timeline: Timeline,
+  nodeId: string | null,
+  chapterSize: number
+): { nodes: TimelineNode[]; previous: ChapterSummary | null } | null => {
+  const size = Math.max(2, Math.floor(chapterSize));
+  const path = getPath(timeline, nodeId);
+  const chapters = getChaptersOnPath(timeline, path);
+  const last = chapters[chapters.length - 1];
+  const uncovered = path.slice(last ? last.endIndex + 1 : 0);
+
+  if (uncovered.length < size + MIN_RECENT_BEATS) return null;
+  return { nodes: uncovered.slice(0, size), previous: last?.chapter || null };
+};
+
+export const addChapter = (timeline: Timeline, chapter: ChapterSummary): Timeline => {
+  const memory = getMemory(timeline);
+  return { ...timeline, memory: { ...memory, chapters: [...memory.chapters, chapter] } };
+};
+
+export const setPinnedFacts = (timeline: Timeline, pinnedFacts: string[]): Timeline => {
+  const facts = pinnedFacts.map(f => f.trim()).filter(Boolean);
+  return { ...timeline, memory: { ...getMemory(timeline), pinnedFacts: facts } };
+};
+
+/**
+ * Assembles what the model remembers at nodeId within `budgetTokens`.
+ * Priority: pinned facts, the last few beats, then older beats and chapter summaries newest first.
+ * Filling stops at the first piece that doesn't fit so the remembered past has no holes.
+ */
+export const buildMemoryContext = (timeline: Timeline, nodeId: string | null, budgetTokens: number): MemoryContext => {
+  const memory = getMemory(timeline);
+  const path = getPath(timeline, nodeId);
+  const chapters = getChaptersOnPath(timeline, path);
+  const last = chapters[chapters.length - 1];
+  const uncovered = path.slice(last ? last.endIndex + 1 : 0).map(n => n.beat.narrative);
+
+  let used = memory.pinnedFacts.reduce((sum, f) => sum + estimateTokens(f), 0);
+
+  const recent = uncovered.slice(-MIN_RECENT_BEATS);
+  used += recent.reduce((sum, r) => sum + estimateTokens(r), 0);
+
+  let full = true;
+  for (let i = uncovered.length - recent.length - 1; i >= 0; i--) {
+    const cost = estimateTokens(uncovered[i]);
+    if (used + cost > budgetTokens) { full = false; break; }
+    recent.unshift(uncovered[i]);
+    used += cost;
+  }
+
+  const included: string[] = [];
+  let coveredBeats = recent.length;
+  for (let i = chapters.length - 1; i >= 0 && full; i--) {
+    const { summary, beatCount } = chapters[i].chapter;
+    const cost = estimateTokens(summary);
+    if (used + cost > budgetTokens) break;
+    included.unshift(summary);
+    coveredBeats += beatCount;
+    used += cost;
+  }
+
+  return {
+    pinnedFacts: memory.pinnedFacts,
+    chapters: included,
+    recent,
+    omittedBeats: Math.max(0, path.length - coveredBeats)
+  };
+};
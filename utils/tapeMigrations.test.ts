@@ -0,0 +1,32 @@
+import { describe, it, expect } from 'vitest';
+import { migrateTape, compareVersions, CURRENT_TAPE_VERSION, UNSUPPORTED_VERSION_PREFIX } from './tapeMigrations';
+
+const beat = { narrative: 'Rain on the window.', visualPrompt: 'rainy window', choices: [{ id: '1', text: 'Wait' }] };
+
+describe('compareVersions', () => {
+  it('compares numerically, part by part', () => {
+    expect(compareVersions('2.10', '2.9')).toBeGreaterThan(0);
+    expect(compareVersions('3', '3.0')).toBe(0);
+    expect(compareVersions('1.0', '1.1')).toBeLessThan(0);
+  });
+});
+
+describe('migrateTape', () => {
+  it('upgrades an unversioned flat-history tape to a timeline', () => {
+    const tape = migrateTape({ meta: { characterName: 'Ada' }, engineState: { history: ['Once.'], currentBeat: beat } });
+    expect(tape.meta.version).toBe(CURRENT_TAPE_VERSION);
+    const nodes = Object.values(tape.engineState.timeline!.nodes);
+    expect(nodes.length).toBeGreaterThan(0);
+    expect(tape.engineState.timeline!.headId).not.toBeNull();
+  });
+
+  it('keeps fields it does not know about', () => {
+    const tape = migrateTape({ meta: { version: '2.0', characterName: 'Ada', futureField: 1 }, engineState: { history: [], currentBeat: beat } });
+    expect((tape.meta as any).futureField).toBe(1);
+  });
+
+  it('refuses any newer version, minor included', () => {
+    expect(() => migrateTape({ meta: { version: '3.5', characterName: 'Ada' }, engineState: {} })).toThrow(UNSUPPORTED_VERSION_PREFIX);
+    expect(() => migrateTape({ meta: { version: '4.0', characterName: 'Ada' }, engineState: {} })).toThrow(UNSUPPORTED_VERSION_PREFIX);
+  });
+});
@@ -0,0 +1,83 @@
+import { TapeFileSchema } from '../types';
+import { timelineFromHistory } from './timelineUtils';
+
+// Bump this (and add a step below) whenever the tape schema changes shape.
+// New optional fields don't count: the validator reads them with defaults and older builds ignore them.
+export const CURRENT_TAPE_VERSION = "3.0";
+
+export const UNSUPPORTED_VERSION_PREFIX = "UNSUPPORTED TAPE VERSION";
+
+interface TapeMigration {
+  to: string;
+  description: string;
+  migrate: (tape: any) => any;
+}
+
+// Ordered upgrade steps. Each one takes a tape at the previous version and returns it at `to`.
+// Steps must never drop fields they don't know about, so data written by other builds survives.
+const MIGRATIONS: TapeMigration[] = [
+  {
+    to: "1.1",
+    description: "TVRoom eject adds meta.visualStyle",
+    migrate: (tape) => tape
+  },
+  {
+    to: "2.0",
+    description: "Tape Studio adds meta.author and meta.gameRules",
+    migrate: (tape) => tape
+  },
+  {
+    to: "2.1",
+    description: "Custom prompt fields on meta (systemInstruction, videoPromptTemplate)",
+    migrate: (tape) => tape
+  },
+  {
+    to: "3.0",
+    description: "Flat engineState.history becomes a branching timeline",
+    migrate: (tape) => {
+      const engineState = tape.engineState || {};
+      if (engineState.timeline && engineState.timeline.nodes) return tape;
+      return {
+        ...tape,
+        engineState: {
+          ...engineState,
+          timeline: timelineFromHistory(engineState.history || [], engineState.currentBeat || null)
+        }
+      };
+    }
+  }
+];
+
+// "2.10" > "2.9" — compare dotted versions numerically, missing parts count as 0.
+export const compareVersions = (a: string, b: string): number => {
+  const pa = a.split('.').map(n => parseInt(n, 10) || 0);
+  const pb = b.split('.').map(n => parseInt(n, 10) || 0);
+  for (let i = 0; i < Math.max(pa.length, pb.length); i++) {
+    const diff = (pa[i] || 0) - (pb[i] || 0);
+    if (diff !== 0) return diff;
+  }
+  return 0;
+};
+
+/**
+ * Upgrades any supported tape to CURRENT_TAPE_VERSION, one step at a time.
+ * Tapes without a version are treated as "1.0" (the original factory format).
+ * Throws on any newer version: this build can't tell which of its fields it would drop on eject.
+ */
+export const migrateTape = (raw: any): TapeFileSchema => {
+  const version = String(raw?.meta?.version || "1.0");
+
+  if (compareVersions(version, CURRENT_TAPE_VERSION) > 0) {
+    throw new Error(`${UNSUPPORTED_VERSION_PREFIX}: tape is v${version}, this build reads up to v${CURRENT_TAPE_VERSION}. Update the app to load it.`);
+  }
+
+  let tape = raw;
+  for (const step of MIGRATIONS) {
+    if (compareVersions(String(tape?.meta?.version || "1.0"), step.to) >= 0) continue;
+    console.log(`[Tape] Migrating v${tape?.meta?.version || "1.0"} -> v${step.to}: ${step.description}`);
+    tape = step.migrate(tape);
+    tape = { ...tape, meta: { ...(tape.meta || {}), version: step.to } };
+  }
+
+  return tape as TapeFileSchema;
+};
@@ -0,0 +1,29 @@
+import { describe, it, expect } from 'vitest';
+import { createTapeBlob, readTapeData, textToBase64, base64ToText, TapeChunkType } from './tapeUtils';
+
+// 1x1 transparent PNG
+const PNG_BASE64 = 'iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mNkYPhfDwAChwGA60e6kgAAAABJRU5ErkJggg==';
+const coverBlob = () => new Blob([Buffer.from(PNG_BASE64, 'base64')], { type: 'image/png' });
+const asFile = (blob: Blob) => new File([blob], 'tape.png', { type: 'image/png' });
+
+const state = { meta: { version: '3.0', characterName: 'Zoë 🎬' }, engineState: { history: ['Über café'] } };
+
+describe('tape chunks', () => {
+  (['tEXt', 'zTXt', 'iTXt'] as TapeChunkType[]).forEach(chunkType => {
+    it(`round-trips state through a ${chunkType} chunk`, async () => {
+      const tape = await createTapeBlob(coverBlob(), state, { chunkType });
+      expect((await readTapeData(asFile(tape))).state).toEqual(state);
+    });
+  });
+
+  it('replaces the payload when a tape is re-used as a cover', async () => {
+    const first = await createTapeBlob(coverBlob(), { meta: { version: '3.0', characterName: 'Old' } });
+    const second = await createTapeBlob(first, state);
+    expect((await readTapeData(asFile(second))).state).toEqual(state);
+    expect(second.size).toBeLessThan(first.size * 2);
+  });
+
+  it('base64-encodes card text as UTF-8', () => {
+    expect(base64ToText(textToBase64('naïve ☕'))).toBe('naïve ☕');
+  });
+});
@@ -25,6 +25,9 @@ function crc32(buf: Uint8Array): number {
 
 const PNG_SIGNATURE = new Uint8Array([137, 80, 78, 71, 13, 10, 26, 10]);
 const KEYWORD = "LIVING_TV_DATA";
+// Character Card keywords used by Tavern-style frontends (base64 JSON in a tEXt chunk)
+export const CARD_V2_KEYWORD = "chara";
+export const CARD_V3_KEYWORD = "ccv3";
 
 function textToBytes(text: string): Uint8Array {
   return new TextEncoder().encode(text);
@@ -34,6 +37,41 @@ function bytesToText(bytes: Uint8Array): string {
   return new TextDecoder().decode(bytes);
 }
 
+// tEXt/zTXt are Latin-1 by spec, but older builds wrote raw UTF-8 into tEXt.
+// Try strict UTF-8 first so those tapes keep loading, then fall back to Latin-1.
+function legacyTextToString(bytes: Uint8Array): string {
+  try {
+    return new TextDecoder('utf-8', { fatal: true }).decode(bytes);
+  } catch (e) {
+    return new TextDecoder('latin1').decode(bytes);
+  }
+}
+
+// Escapes everything outside ASCII as \uXXXX so JSON fits in a Latin-1 chunk losslessly.
+function toAsciiJson(value: any): string {
+  return JSON.stringify(value).replace(/[\u007f-\uffff]/g, c => '\\u' + c.charCodeAt(0).toString(16).padStart(4, '0'));
+}
+
+async function pipeThrough(bytes: Uint8Array, stream: CompressionStream | DecompressionStream): Promise<Uint8Array> {
+  const out = new Blob([bytes.slice()]).stream().pipeThrough(stream);
+  return new Uint8Array(await new Response(out).arrayBuffer());
+}
+
+// PNG text compression method 0 is zlib, which is what the 'deflate' stream format produces.
+const zlibCompress = (bytes: Uint8Array) => pipeThrough(bytes, new CompressionStream('deflate'));
+const zlibDecompress = (bytes: Uint8Array) => pipeThrough(bytes, new DecompressionStream('deflate'));
+
+// Card payloads are base64 of UTF-8 JSON; plain atob/btoa would mangle non-ASCII names.
+export function textToBase64(text: string): string {
+  let binary = '';
+  textToBytes(text).forEach(b => { binary += String.fromCharCode(b); });
+  return btoa(binary);
+}
+
+export function base64ToText(base64: string): string {
+  return bytesToText(Uint8Array.from(atob(base64.trim()), c => c.charCodeAt(0)));
+}
+
 function createChunk(type: string, data: Uint8Array): Uint8Array {
   const typeBytes = textToBytes(type);
   const len = data.length;
@@ -64,121 +102,206 @@ function createChunk(type: string, data: Uint8Array): Uint8Array {
   return final;
 }
 
+export type TapeChunkType = 'tEXt' | 'zTXt' | 'iTXt';
+
+const TEXT_CHUNK_TYPES: TapeChunkType[] = ['tEXt', 'zTXt', 'iTXt'];
+
+interface TextChunk {
+  keyword: string;
+  text: string;
+}
+
 /**
- * Injects stateData into the imageBlob as a hidden PNG chunk.
+ * Builds the data section of a text chunk.
+ * - tEXt: keyword \0 text (Latin-1)
+ * - zTXt: keyword \0 method text(zlib, Latin-1)
+ * - iTXt: keyword \0 compressed? method language \0 translated \0 text(UTF-8, optionally zlib)
  */
-export const createTapeBlob = async (imageBlob: Blob, stateData: any): Promise<Blob> => {
-  const arrayBuffer = await imageBlob.arrayBuffer();
-  const uint8 = new Uint8Array(arrayBuffer);
+async function encodeTextChunk(type: TapeChunkType, keyword: string, text: string): Promise<Uint8Array> {
+  const keyBytes = textToBytes(keyword);
+  let header: number[];
+  let payload: Uint8Array;
 
-  // Verify signature
-  for (let i = 0; i < 8; i++) {
-    if (uint8[i] !== PNG_SIGNATURE[i]) throw new Error("Not a valid PNG");
+  if (type === 'tEXt') {
+    header = [0];
+    payload = textToBytes(text); // Callers pass ASCII for tEXt/zTXt
+  } else if (type === 'zTXt') {
+    header = [0, 0]; // Null separator, compression method 0
+    payload = await zlibCompress(textToBytes(text));
+  } else {
+    header = [0, 1, 0, 0, 0]; // Null separator, compressed, method 0, empty language tag, empty translated keyword
+    payload = await zlibCompress(textToBytes(text));
   }
 
-  // Construct tEXt chunk data: keyword + null + value
-  const keyBytes = textToBytes(KEYWORD);
-  const valBytes = textToBytes(JSON.stringify(stateData));
-  const chunkData = new Uint8Array(keyBytes.length + 1 + valBytes.length);
+  const chunkData = new Uint8Array(keyBytes.length + header.length + payload.length);
   chunkData.set(keyBytes);
-  chunkData[keyBytes.length] = 0; // Null separator
-  chunkData.set(valBytes, keyBytes.length + 1);
+  chunkData.set(header, keyBytes.length);
+  chunkData.set(payload, keyBytes.length + header.length);
+  return chunkData;
+}
+
+/**
+ * Parses the data section of any of the three text chunk types.
+ * Returns null for malformed chunks so one bad chunk doesn't sink the whole file.
+ */
+async function decodeTextChunk(type: TapeChunkType, data: Uint8Array): Promise<TextChunk | null> {
+  const nullByte = data.indexOf(0);
+  if (nullByte === -1) return null;
+
+  const keyword = legacyTextToString(data.slice(0, nullByte));
+  const rest = data.slice(nullByte + 1);
+
+  try {
+    if (type === 'tEXt') {
+      return { keyword, text: legacyTextToString(rest) };
+    }
 
-  const newChunk = createChunk("tEXt", chunkData);
+    if (type === 'zTXt') {
+      // rest[0] is the compression method (only 0/zlib is defined)
+      return { keyword, text: legacyTextToString(await zlibDecompress(rest.slice(1))) };
+    }
+
+    // iTXt
+    const compressed = rest[0] === 1;
+    let cursor = 2;
+    const langEnd = rest.indexOf(0, cursor);
+    if (langEnd === -1) return null;
+    const translatedEnd = rest.indexOf(0, langEnd + 1);
+    if (translatedEnd === -1) return null;
+    cursor = translatedEnd + 1;
+
+    const textBytes = rest.slice(cursor);
+    return { keyword, text: bytesToText(compressed ? await zlibDecompress(textBytes) : textBytes) };
+  } catch (e) {
+    console.error(`Failed to decode ${type} chunk '${keyword}'`, e);
+    return null;
+  }
+}
+
+interface PngChunk {
+  type: string;
+  start: number; // Offset of the length field
+  end: number;   // Offset just past the CRC
+  data: Uint8Array;
+}
+
+function parseChunks(uint8: Uint8Array): PngChunk[] {
+  for (let i = 0; i < 8; i++) {
+    if (uint8[i] !== PNG_SIGNATURE[i]) throw new Error("Not a valid PNG");
+  }
 
-  // Find where to insert (before IEND)
+  const chunks: PngChunk[] = [];
   let pos = 8;
-  let iendPos = -1;
 
-  while (pos < uint8.length) {
+  while (pos + 8 <= uint8.length) {
     const len =
-      (uint8[pos] << 24) | (uint8[pos + 1] << 16) | (uint8[pos + 2] << 8) | uint8[pos + 3];
+      ((uint8[pos] << 24) | (uint8[pos + 1] << 16) | (uint8[pos + 2] << 8) | uint8[pos + 3]) >>> 0;
     const type = bytesToText(uint8.slice(pos + 4, pos + 8));
-    
-    if (type === "IEND") {
-      iendPos = pos;
-      break;
-    }
-    
-    pos += 8 + len + 4; // Length (4) + Type (4) + Data (len) + CRC (4)
+    const end = pos + 8 + len + 4; // Length (4) + Type (4) + Data (len) + CRC (4)
+
+    chunks.push({ type, start: pos, end, data: uint8.slice(pos + 8, pos + 8 + len) });
+
+    if (type === "IEND") break;
+    pos = end;
+  }
+
+  return chunks;
+}
+
+function concatBytes(parts: Uint8Array[]) {
+  const total = parts.reduce((sum, p) => sum + p.length, 0);
+  const out = new Uint8Array(total);
+  let offset = 0;
+  for (const part of parts) {
+    out.set(part, offset);
+    offset += part.length;
   }
+  return out;
+}
+
+export interface TapeWriteOptions {
+  // iTXt (compressed UTF-8) is the default. zTXt/tEXt escape non-ASCII so they stay spec-valid Latin-1.
+  chunkType?: TapeChunkType;
+  // Additional tEXt chunks written next to the tape data (e.g. 'chara'/'ccv3' character cards).
+  extraChunks?: { keyword: string; text: string }[];
+}
+
+/**
+ * Injects stateData into the imageBlob as a hidden PNG chunk.
+ * Any existing tape data chunk is replaced, so re-using a tape as a cover doesn't stack payloads.
+ */
+export const createTapeBlob = async (imageBlob: Blob, stateData: any, options: TapeWriteOptions = {}): Promise<Blob> => {
+  const chunkType = options.chunkType || 'iTXt';
+  const arrayBuffer = await imageBlob.arrayBuffer();
+  const uint8 = new Uint8Array(arrayBuffer);
+  const chunks = parseChunks(uint8);
 
-  if (iendPos === -1) throw new Error("IEND chunk not found");
+  const text = chunkType === 'iTXt' ? JSON.stringify(stateData) : toAsciiJson(stateData);
+  const newChunk = createChunk(chunkType, await encodeTextChunk(chunkType, KEYWORD, text));
 
-  // Construct new file
-  const newPng = new Uint8Array(uint8.length + newChunk.length);
-  newPng.set(uint8.slice(0, iendPos));
-  newPng.set(newChunk, iendPos);
-  newPng.set(uint8.slice(iendPos), iendPos + newChunk.length);
+  const extraChunks = options.extraChunks || [];
+  const replacedKeywords = new Set([KEYWORD, ...extraChunks.map(c => c.keyword)]);
+  const extraChunkBytes = await Promise.all(
+    extraChunks.map(async c => createChunk('tEXt', await encodeTextChunk('tEXt', c.keyword, c.text)))
+  );
 
-  return new Blob([newPng], { type: "image/png" });
+  const iend = chunks.find(c => c.type === "IEND");
+  if (!iend) throw new Error("IEND chunk not found");
+
+  const parts: Uint8Array[] = [uint8.slice(0, 8)];
+  for (const chunk of chunks) {
+    if (chunk.type === "IEND") break;
+    if (TEXT_CHUNK_TYPES.includes(chunk.type as TapeChunkType)) {
+      const decoded = await decodeTextChunk(chunk.type as TapeChunkType, chunk.data);
+      if (decoded && replacedKeywords.has(decoded.keyword)) continue; // Drop stale payloads we're rewriting
+    }
+    parts.push(uint8.slice(chunk.start, chunk.end));
+  }
+  parts.push(...extraChunkBytes);
+  parts.push(newChunk);
+  parts.push(uint8.slice(iend.start));
+
+  return new Blob([concatBytes(parts)], { type: "image/png" });
 };
 
 /**
  * Reads a PNG file and extracts the hidden stateData.
- * Supports both 'LIVING_TV_DATA' (Native) and 'chara' (Tavern/V2 Cards).
+ * Supports 'LIVING_TV_DATA' (Native), 'ccv3' (Character Card V3) and 'chara' (Tavern/V2 Cards),
+ * stored in tEXt, zTXt or iTXt chunks. When several are present, native data wins, then V3, then V2.
  */
 export const readTapeData = async (file: File): Promise<{ state: any; imgUrl: string }> => {
   const arrayBuffer = await file.arrayBuffer();
-  const uint8 = new Uint8Array(arrayBuffer);
-  
-  // Basic signature check
-  for (let i = 0; i < 8; i++) {
-    if (uint8[i] !== PNG_SIGNATURE[i]) throw new Error("Not a valid PNG");
-  }
+  const chunks = parseChunks(new Uint8Array(arrayBuffer));
 
-  let pos = 8;
-  let foundData = null;
+  const found: Record<string, any> = {};
 
-  while (pos < uint8.length) {
-    const len =
-      (uint8[pos] << 24) | (uint8[pos + 1] << 16) | (uint8[pos + 2] << 8) | uint8[pos + 3];
-    const type = bytesToText(uint8.slice(pos + 4, pos + 8));
+  for (const chunk of chunks) {
+    if (!TEXT_CHUNK_TYPES.includes(chunk.type as TapeChunkType)) continue;
 
-    if (type === "tEXt") {
-      const dataStart = pos + 8;
-      // Find null separator
-      let nullByte = -1;
-      for(let k=0; k<len; k++) {
-          if (uint8[dataStart + k] === 0) {
-              nullByte = k;
-              break;
-          }
-      }
+    const decoded = await decodeTextChunk(chunk.type as TapeChunkType, chunk.data);
+    if (!decoded || found[decoded.keyword]) continue;
 
-      if (nullByte !== -1) {
-          const keyword = bytesToText(uint8.slice(dataStart, dataStart + nullByte));
-          
-          // 1. Native App Data
-          if (keyword === KEYWORD) {
-              const textData = bytesToText(uint8.slice(dataStart + nullByte + 1, dataStart + len));
-              try {
-                  foundData = JSON.parse(textData);
-              } catch(e) {
-                  console.error("Failed to parse tape data", e);
-              }
-          }
-          // 2. Tavern / Character Card V2 Data (Base64 encoded inside chunk)
-          else if (keyword === 'chara') {
-              const textData = bytesToText(uint8.slice(dataStart + nullByte + 1, dataStart + len));
-              try {
-                  // Tavern cards use base64 encoding for the JSON content
-                  const decoded = atob(textData);
-                  foundData = JSON.parse(decoded);
-                  console.log("Found Tavern Card Data:", foundData);
-              } catch(e) {
-                  console.error("Failed to parse tavern card data", e);
-              }
-          }
+    // 1. Native App Data
+    if (decoded.keyword === KEYWORD) {
+      try {
+        found[KEYWORD] = JSON.parse(decoded.text);
+      } catch(e) {
+        console.error("Failed to parse tape data", e);
+      }
+    }
+    // 2. Character Card V3 / Tavern V2 Data (Base64 encoded inside chunk)
+    else if (decoded.keyword === CARD_V3_KEYWORD || decoded.keyword === CARD_V2_KEYWORD) {
+      try {
+        found[decoded.keyword] = JSON.parse(base64ToText(decoded.text));
+        console.log(`Found Character Card Data (${decoded.keyword}):`, found[decoded.keyword]);
+      } catch(e) {
+        console.error("Failed to parse character card data", e);
       }
     }
-
-    if (foundData) break; // Stop if we found something
-
-    if (type === "IEND") break;
-    pos += 8 + len + 4;
   }
 
+  const foundData = found[KEYWORD] || found[CARD_V3_KEYWORD] || found[CARD_V2_KEYWORD] || null;
+
   if (!foundData) throw new Error("No Tape Data found on this image.");
 
   return {
@@ -0,0 +1,34 @@
+import { describe, it, expect } from 'vitest';
+import { validateTape } from './tapeValidator';
+
+const beat = { narrative: 'Rain on the window.', visualPrompt: 'rainy window', choices: [{ id: '1', text: 'Wait' }] };
+
+describe('validateTape', () => {
+  it('accepts a well-formed tape without issues', () => {
+    const result = validateTape({ meta: { version: '3.0', characterName: 'Ada' }, engineState: { history: [], currentBeat: beat } });
+    expect(result.ok).toBe(true);
+    expect(result.issues.filter(i => i.severity === 'error')).toEqual([]);
+  });
+
+  it('rejects something that is not a tape', () => {
+    expect(validateTape('hello').ok).toBe(false);
+    expect(validateTape(null).tape).toBeNull();
+  });
+
+  it('repairs recoverable problems and reports them by path', () => {
+    const result = validateTape({
+      meta: { version: 3, characterName: '' },
+      engineState: { history: [], currentBeat: { ...beat, footage: { provider: 'veo', model: 'm', kind: 'stills', stillRef: 7 } } }
+    });
+    expect(result.ok).toBe(true);
+    expect(result.tape!.meta.version).toBe('3');
+    expect(result.tape!.meta.characterName).toBe('Unknown');
+    expect(result.tape!.engineState.currentBeat!.footage).toEqual({ provider: 'veo', model: 'm', kind: 'stills' });
+    expect(result.issues.map(i => i.path)).toContain('engineState.currentBeat.footage.stillRef');
+  });
+
+  it('only reports when repair is off', () => {
+    const result = validateTape({ meta: { version: '3.0', characterName: '' }, engineState: { history: [], currentBeat: beat } }, { repair: false });
+    expect(result.issues.some(i => i.path === 'meta.characterName' && !i.repaired)).toBe(true);
+  });
+});
@@ -0,0 +1,457 @@
+import { CastMember, Choice, LorebookEntry, StoryBeat, StoryMemory, TapeFileSchema, Timeline, TimelineNode, WorldSchema } from '../types';
+import { LORE_POSITIONS, createLoreEntryId } from './lorebook';
+import { createCastId } from './cast';
+import { CAMERA_MOTIONS, VIDEO_ASPECT_RATIOS } from '../constants';
+
+export interface TapeIssue {
+  path: string;      // e.g. "engineState.currentBeat.choices[2].text"
+  message: string;   // e.g. "missing"
+  severity: 'error' | 'warning';
+  repaired: boolean; // True if auto-repair fixed it
+}
+
+export interface TapeValidationResult {
+  ok: boolean;                 // False if any error could not be repaired
+  issues: TapeIssue[];
+  tape: TapeFileSchema | null; // The (possibly repaired) tape when ok
+}
+
+export const formatIssue = (issue: TapeIssue): string => {
+  return `${issue.path} ${issue.message}${issue.repaired ? ' (repaired)' : ''}`;
+};
+
+const FALLBACK_CHOICES: Choice[] = [{ id: "1", text: "Continue" }];
+
+const isObject = (v: any): v is Record<string, any> => !!v && typeof v === 'object' && !Array.isArray(v);
+const isString = (v: any): v is string => typeof v === 'string';
+const isWorldState = (v: any): boolean =>
+  isObject(v) && isObject(v.stats) && isObject(v.flags) && Array.isArray(v.inventory);
+
+interface Collector {
+  issues: TapeIssue[];
+  add: (path: string, message: string, severity: 'error' | 'warning', fixable: boolean) => boolean;
+  hasFatal: () => boolean;
+}
+
+// Collects issues while walking the tape. `repair` decides whether fixable problems get fixed.
+const createCollector = (repair: boolean): Collector => {
+  const issues: TapeIssue[] = [];
+  return {
+    issues,
+    add: (path, message, severity, fixable) => {
+      const repaired = fixable && repair;
+      issues.push({ path, message, severity, repaired });
+      return repaired;
+    },
+    hasFatal: () => issues.some(i => i.severity === 'error' && !i.repaired)
+  };
+};
+
+const validateChoices = (raw: any, path: string, c: Collector): Choice[] => {
+  if (!Array.isArray(raw)) {
+    c.add(path, raw === undefined ? 'missing' : 'is not a list', 'error', true);
+    return [...FALLBACK_CHOICES];
+  }
+
+  const choices: Choice[] = [];
+  const seenIds = new Set<string>();
+
+  raw.forEach((choice: any, i: number) => {
+    const itemPath = `${path}[${i}]`;
+    if (!isObject(choice)) {
+      c.add(itemPath, 'is not an object', 'error', true);
+      return;
+    }
+
+    let text = choice.text;
+    if (!isString(text) || text.trim() === '') {
+      c.add(`${itemPath}.text`, 'missing', 'error', true);
+      return; // A choice without text can't be shown, so it's dropped
+    }
+
+    let id = isString(choice.id) || typeof choice.id === 'number' ? String(choice.id) : '';
+    if (!id) {
+      c.add(`${itemPath}.id`, 'missing', 'error', true);
+      id = String(i + 1);
+    }
+    if (seenIds.has(id)) {
+      c.add(`${itemPath}.id`, `duplicates "${id}"`, 'warning', true);
+      id = `${id}_${i + 1}`;
+    }
+    seenIds.add(id);
+
+    choices.push({ ...choice, id, text });
+  });
+
+  if (choices.length === 0 && raw.length > 0) {
+    c.add(path, 'has no usable choices', 'error', true);
+    return [...FALLBACK_CHOICES];
+  }
+
+  return choices;
+};
+
+// Returns the repaired beat, or null if it is beyond repair.
+const checkStoryBeat = (raw: any, path: string, c: Collector): StoryBeat | null => {
+  if (!isObject(raw)) {
+    c.add(path, raw === undefined ? 'missing' : 'is not an object', 'error', false);
+    return null;
+  }
+
+  let narrative = raw.narrative;
+  let visualPrompt = raw.visualPrompt;
+
+  if (!isString(narrative) && !isString(visualPrompt)) {
+    c.add(`${path}.narrative`, 'missing', 'error', false);
+    return null;
+  }
+  if (!isString(narrative)) {
+    c.add(`${path}.narrative`, 'missing', 'error', true);
+    narrative = visualPrompt;
+  }
+  if (!isString(visualPrompt)) {
+    c.add(`${path}.visualPrompt`, 'missing', 'warning', true);
+    visualPrompt = narrative;
+  }
+
+  const beat: StoryBeat = { ...raw, narrative, visualPrompt, choices: validateChoices(raw.choices, `${path}.choices`, c) };
+  if (beat.stateDelta !== undefined && !isObject(beat.stateDelta)) {
+    c.add(`${path}.stateDelta`, 'is not an object', 'warning', true);
+    delete beat.stateDelta;
+  }
+  if (beat.mood !== undefined && !isString(beat.mood)) {
+    c.add(`${path}.mood`, 'is not text', 'warning', true);
+    delete beat.mood;
+  }
+  if (beat.footage !== undefined && (!isObject(beat.footage) || !isString(beat.footage.provider))) {
+    c.add(`${path}.footage`, 'is not a footage record', 'warning', true);
+    delete beat.footage;
+  }
+  if (beat.footage?.stillRef !== undefined && !isString(beat.footage.stillRef)) {
+    c.add(`${path}.footage.stillRef`, 'is not text', 'warning', true);
+    beat.footage = { ...beat.footage };
+    delete beat.footage.stillRef;
+  }
+  return beat;
+};
+
+// Declared stats/flags must have a key and a value of the right type; broken entries are dropped
+const validateWorldSchema = (raw: any, path: string, c: Collector): WorldSchema | undefined => {
+  if (!isObject(raw)) {
+    c.add(path, 'is malformed', 'warning', true);
+    return undefined;
+  }
+
+  const stats = (Array.isArray(raw.stats) ? raw.stats : []).filter((s: any, i: number) => {
+    const ok = isObject(s) && isString(s.key) && s.key.trim() !== '' && typeof s.initial === 'number';
+    if (!ok) c.add(`${path}.stats[${i}]`, 'needs a key and a numeric initial value', 'warning', true);
+    return ok;
+  });
+  const flags = (Array.isArray(raw.flags) ? raw.flags : []).filter((f: any, i: number) => {
+    const ok = isObject(f) && isString(f.key) && f.key.trim() !== '' && typeof f.initial === 'boolean';
+    if (!ok) c.add(`${path}.flags[${i}]`, 'needs a key and a true/false initial value', 'warning', true);
+    return ok;
+  });
+  const inventory = (Array.isArray(raw.inventory) ? raw.inventory : []).filter(isString);
+
+  return { ...raw, stats, flags, inventory };
+};
+
+/**
+ * Validates a single StoryBeat (e.g. model output or a beat inside a tape).
+ */
+export const validateStoryBeat = (
+  raw: any,
+  options: { repair?: boolean; path?: string } = {}
+): { ok: boolean; issues: TapeIssue[]; beat: StoryBeat | null } => {
+  const c = createCollector(options.repair !== false);
+  const beat = checkStoryBeat(raw, options.path || 'beat', c);
+  const ok = !!beat && !c.hasFatal();
+  return { ok, issues: c.issues, beat: ok ? beat : null };
+};
+
+// Entries need text to inject; everything else falls back to a default
+const validateLorebook = (raw: any, path: string, c: Collector): LorebookEntry[] | undefined => {
+  if (!Array.isArray(raw)) {
+    c.add(path, 'is not a list', 'warning', true);
+    return undefined;
+  }
+
+  return raw.filter((e: any, i: number) => {
+    const ok = isObject(e) && isString(e.content) && e.content.trim() !== '';
+    if (!ok) c.add(`${path}[${i}]`, 'has no content', 'warning', true);
+    return ok;
+  }).map((e: any) => ({
+    ...e,
+    id: isString(e.id) ? e.id : createLoreEntryId(),
+    keys: Array.isArray(e.keys) ? e.keys.filter(isString) : [],
+    priority: typeof e.priority === 'number' ? e.priority : 0,
+    position: LORE_POSITIONS.some(p => p.value === e.position) ? e.position : 'after_context',
+    enabled: e.enabled !== false
+  }));
+};
+
+// A cast member needs a name to be found in beats; a reference that isn't an image data URL is dropped
+const validateCast = (raw: any, path: string, c: Collector): CastMember[] | undefined => {
+  if (!Array.isArray(raw)) {
+    c.add(path, 'is not a list', 'warning', true);
+    return undefined;
+  }
+
+  return raw.filter((m: any, i: number) => {
+    const ok = isObject(m) && isString(m.name) && m.name.trim() !== '';
+    if (!ok) c.add(`${path}[${i}]`, 'has no name', 'warning', true);
+    return ok;
+  }).map((m: any, i: number) => {
+    const member: CastMember = {
+      ...m,
+      id: isString(m.id) ? m.id : createCastId(),
+      aliases: Array.isArray(m.aliases) ? m.aliases.filter(isString) : [],
+      description: isString(m.description) ? m.description : ''
+    };
+    if (m.referenceImage !== undefined && !(isString(m.referenceImage) && m.referenceImage.startsWith('data:image/'))) {
+      c.add(`${path}[${i}].referenceImage`, 'is not an image', 'warning', true);
+      delete member.referenceImage;
+    }
+    return member;
+  });
+};
+
+// Summaries that lost their text or beat references are dropped; the beats get summarised again
+const validateMemory = (raw: any, path: string, c: Collector): StoryMemory | undefined => {
+  if (!isObject(raw)) {
+    c.add(path, 'is malformed', 'warning', true);
+    return undefined;
+  }
+
+  const chapters = (Array.isArray(raw.chapters) ? raw.chapters : []).filter((ch: any, i: number) => {
+    const ok = isObject(ch) && isString(ch.summary) && isString(ch.startNodeId) && isString(ch.endNodeId);
+    if (!ok) c.add(`${path}.chapters[${i}]`, 'needs a summary and start/end beats', 'warning', true);
+    return ok;
+  }).map((ch: any) => ({ ...ch, beatCount: typeof ch.beatCount === 'number' ? ch.beatCount : 0 }));
+  const pinnedFacts = (Array.isArray(raw.pinnedFacts) ? raw.pinnedFacts : []).filter(isString);
+
+  return { ...raw, chapters, pinnedFacts };
+};
+
+const validateTimeline = (raw: any, path: string, c: Collector): Timeline | undefined => {
+  if (!isObject(raw) || !isObject(raw.nodes)) {
+    // Dropping it is safe: migration rebuilds the timeline from history
+    c.add(path, 'is malformed', 'warning', true);
+    return undefined;
+  }
+
+  const nodes: Record<string, TimelineNode> = {};
+  Object.entries(raw.nodes).forEach(([key, node]: [string, any]) => {
+    const nodePath = `${path}.nodes.${key}`;
+    const beat = checkStoryBeat(node?.beat, `${nodePath}.beat`, c);
+    if (!beat) return;
+    nodes[key] = {
+      ...node,
+      id: key,
+      beat,
+      parentId: isString(node.parentId) ? node.parentId : null,
+      choice: isString(node.choice) ? node.choice : null,
+      frameRef: isString(node.frameRef) ? node.frameRef : null,
+      createdAt: typeof node.createdAt === 'number' ? node.createdAt : 0
+    };
+    if (node.choiceKind !== undefined && node.choiceKind !== 'menu' && node.choiceKind !== 'write-in') {
+      c.add(`${nodePath}.choiceKind`, 'is not menu or write-in', 'warning', true);
+      delete nodes[key].choiceKind;
+    }
+    if (node.worldState !== undefined && !isWorldState(node.worldState)) {
+      // Snapshots are a cache; the state is replayed from deltas without it
+      c.add(`${nodePath}.worldState`, 'is malformed', 'warning', true);
+      delete nodes[key].worldState;
+    }
+  });
+
+  const preamble = Array.isArray(raw.preamble) ? raw.preamble.filter(isString) : [];
+  let rootId: string | null = isString(raw.rootId) && nodes[raw.rootId] ? raw.rootId : null;
+
+  if (!rootId) {
+    const orphanRoot = Object.values(nodes).find(n => n.parentId === null);
+    if (Object.keys(nodes).length > 0) c.add(`${path}.rootId`, 'does not point to a beat', 'error', !!orphanRoot);
+    rootId = orphanRoot ? orphanRoot.id : null;
+  }
+
+  // Beats whose parent is gone get re-attached to the root rather than lost
+  Object.values(nodes).forEach(node => {
+    if (node.id !== rootId && (!node.parentId || !nodes[node.parentId])) {
+      c.add(`${path}.nodes.${node.id}.parentId`, 'does not point to a beat', 'warning', true);
+      nodes[node.id] = { ...node, parentId: rootId };
+    }
+  });
+
+  let headId: string | null = isString(raw.headId) && nodes[raw.headId] ? raw.headId : null;
+  if (!headId && rootId) {
+    c.add(`${path}.headId`, 'does not point to a beat', 'warning', true);
+    headId = rootId;
+  }
+
+  const timeline: Timeline = { ...raw, preamble, nodes, rootId, headId };
+  if (raw.memory !== undefined) {
+    const memory = validateMemory(raw.memory, `${path}.memory`, c);
+    if (memory) timeline.memory = memory;
+    else delete timeline.memory;
+  }
+  return timeline;
+};
+
+/**
+ * Checks an imported tape against TapeFileSchema and reports every problem with its path.
+ * With `repair` on (default), recoverable problems are fixed in the returned copy.
+ */
+export const validateTape = (raw: any, options: { repair?: boolean } = {}): TapeValidationResult => {
+  const c = createCollector(options.repair !== false);
+
+  if (!isObject(raw)) {
+    c.add('(root)', 'is not a tape object', 'error', false);
+    return { ok: false, issues: c.issues, tape: null };
+  }
+
+  // --- meta ---
+  let meta: any = raw.meta;
+  if (!isObject(meta)) {
+    c.add('meta', 'missing', 'error', true);
+    meta = {};
+  }
+  meta = { ...meta };
+  if (!isString(meta.version)) {
+    c.add('meta.version', 'missing', 'warning', true);
+    meta.version = typeof meta.version === 'number' ? String(meta.version) : "1.0";
+  }
+  if (!isString(meta.characterName) || meta.characterName.trim() === '') {
+    c.add('meta.characterName', 'missing', 'warning', true);
+    meta.characterName = "Unknown";
+  }
+  ['createdAt', 'visualStyle', 'author', 'gameRules'].forEach(field => {
+    if (meta[field] !== undefined && !isString(meta[field])) {
+      c.add(`meta.${field}`, 'is not text', 'warning', true);
+      delete meta[field];
+    }
+  });
+  if (meta.lorebook !== undefined) {
+    meta.lorebook = validateLorebook(meta.lorebook, 'meta.lorebook', c);
+    if (!meta.lorebook) delete meta.lorebook;
+  }
+  if (meta.writeIns !== undefined) {
+    if (!isObject(meta.writeIns)) {
+      c.add('meta.writeIns', 'is malformed', 'warning', true);
+      delete meta.writeIns;
+    } else {
+      meta.writeIns = {
+        ...meta.writeIns,
+        enabled: meta.writeIns.enabled !== false,
+        allowedVerbs: Array.isArray(meta.writeIns.allowedVerbs) ? meta.writeIns.allowedVerbs.filter(isString) : undefined,
+        maxLength: typeof meta.writeIns.maxLength === 'number' && meta.writeIns.maxLength > 0 ? meta.writeIns.maxLength : undefined
+      };
+    }
+  }
+  if (meta.narrator !== undefined) {
+    if (!isObject(meta.narrator)) {
+      c.add('meta.narrator', 'is malformed', 'warning', true);
+      delete meta.narrator;
+    } else {
+      // Out-of-range numbers are dropped so the viewer's setting applies instead
+      const inRange = (v: any, min: number, max: number) => typeof v === 'number' && v >= min && v <= max ? v : undefined;
+      meta.narrator = {
+        voice: isString(meta.narrator.voice) ? meta.narrator.voice : undefined,
+        rate: inRange(meta.narrator.rate, 0.5, 2),
+        pitch: inRange(meta.narrator.pitch, 0, 2)
+      };
+    }
+  }
+  if (meta.soundtrack !== undefined) {
+    if (!isObject(meta.soundtrack)) {
+      c.add('meta.soundtrack', 'is malformed', 'warning', true);
+      delete meta.soundtrack;
+    } else {
+      meta.soundtrack = {
+        music: isString(meta.soundtrack.music) ? meta.soundtrack.music : undefined,
+        ambience: isString(meta.soundtrack.ambience) ? meta.soundtrack.ambience : undefined,
+        mood: isString(meta.soundtrack.mood) ? meta.soundtrack.mood : undefined
+      };
+    }
+  }
+  if (meta.videoParams !== undefined) {
+    if (!isObject(meta.videoParams)) {
+      c.add('meta.videoParams', 'is malformed', 'warning', true);
+      delete meta.videoParams;
+    } else {
+      // Unknown values are dropped so the viewer's settings apply instead
+      const p = meta.videoParams;
+      const positive = (v: any) => typeof v === 'number' && v > 0 ? v : undefined;
+      meta.videoParams = {
+        duration: positive(p.duration),
+        aspectRatio: VIDEO_ASPECT_RATIOS.includes(p.aspectRatio) ? p.aspectRatio : undefined,
+        resolution: isString(p.resolution) && p.resolution.trim() ? p.resolution.trim() : undefined,
+        seed: Number.isInteger(p.seed) ? p.seed : undefined,
+        negativePrompt: isString(p.negativePrompt) && p.negativePrompt.trim() ? p.negativePrompt : undefined,
+        cameraMotion: isString(p.cameraMotion) && p.cameraMotion in CAMERA_MOTIONS ? p.cameraMotion : undefined
+      };
+    }
+  }
+  if (meta.cast !== undefined) {
+    meta.cast = validateCast(meta.cast, 'meta.cast', c);
+    if (!meta.cast) delete meta.cast;
+  }
+  if (meta.worldSchema !== undefined) {
+    meta.worldSchema = validateWorldSchema(meta.worldSchema, 'meta.worldSchema', c);
+    if (!meta.worldSchema) delete meta.worldSchema;
+  }
+
+  // --- engineState ---
+  if (!isObject(raw.engineState)) {
+    c.add('engineState', 'missing', 'error', false);
+    return { ok: false, issues: c.issues, tape: null };
+  }
+  const engine: any = { ...raw.engineState };
+
+  if (!Array.isArray(engine.history)) {
+    c.add('engineState.history', engine.history === undefined ? 'missing' : 'is not a list', 'warning', true);
+    engine.history = [];
+  } else if (engine.history.some((h: any) => !isString(h))) {
+    c.add('engineState.history', 'contains non-text entries', 'warning', true);
+    engine.history = engine.history.filter(isString);
+  }
+
+  if (engine.timeline !== undefined) {
+    engine.timeline = validateTimeline(engine.timeline, 'engineState.timeline', c);
+  }
+
+  if (engine.currentBeat === null || engine.currentBeat === undefined) {
+    const timeline: Timeline | undefined = engine.timeline;
+    const headBeat = timeline?.headId ? timeline.nodes[timeline.headId]?.beat : undefined;
+    const lastNarrative = [...engine.history].reverse().find((h: string) => !h.startsWith('SERIES CONTEXT:'));
+
+    if (headBeat) {
+      c.add('engineState.currentBeat', 'missing', 'error', true);
+      engine.currentBeat = headBeat;
+    } else if (lastNarrative) {
+      c.add('engineState.currentBeat', 'missing while history is not empty', 'error', true);
+      engine.currentBeat = { narrative: lastNarrative, visualPrompt: lastNarrative, choices: [...FALLBACK_CHOICES] };
+    } else {
+      engine.currentBeat = null;
+    }
+  } else {
+    engine.currentBeat = checkStoryBeat(engine.currentBeat, 'engineState.currentBeat', c);
+  }
+
+  if (engine.worldState !== undefined && !isWorldState(engine.worldState)) {
+    c.add('engineState.worldState', 'is malformed', 'warning', true);
+    delete engine.worldState;
+  }
+
+  if (engine.loadingStage !== undefined && !isString(engine.loadingStage)) {
+    c.add('engineState.loadingStage', 'is not text', 'warning', true);
+    delete engine.loadingStage;
+  }
+
+  const ok = !c.hasFatal();
+  return {
+    ok,
+    issues: c.issues,
+    tape: ok ? ({ ...raw, meta, engineState: engine } as TapeFileSchema) : null
+  };
+};
@@ -0,0 +1,150 @@
+import { StoryBeat, Timeline, TimelineNode, TapeFileSchema, WorldState, ChoiceKind, BeatFootage } from '../types';
+
+const CONTEXT_PREFIX = 'SERIES CONTEXT:';
+
+export const createNodeId = (): string => {
+  return `beat_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+};
+
+export const createTimeline = (preamble: string[] = []): Timeline => ({
+  preamble,
+  nodes: {},
+  rootId: null,
+  headId: null
+});
+
+/**
+ * Adds a beat under parentId and moves the head to it.
+ * Returns a new Timeline (state is treated as immutable).
+ */
+export const appendBeat = (
+  timeline: Timeline,
+  parentId: string | null,
+  beat: StoryBeat,
+  choice: string | null,
+  worldState?: WorldState,
+  choiceKind: ChoiceKind = 'menu',
+  nodeId: string = createNodeId() // Pass one when something (e.g. the clip cache) needs the id up front
+): { timeline: Timeline; nodeId: string } => {
+  const node: TimelineNode = {
+    id: nodeId,
+    parentId,
+    beat,
+    choice,
+    frameRef: null,
+    createdAt: Date.now(),
+    ...(worldState ? { worldState } : {}),
+    ...(choiceKind === 'write-in' ? { choiceKind } : {})
+  };
+
+  return {
+    nodeId: node.id,
+    timeline: {
+      ...timeline,
+      nodes: { ...timeline.nodes, [node.id]: node },
+      rootId: timeline.rootId || node.id,
+      headId: node.id
+    }
+  };
+};
+
+export const setHead = (timeline: Timeline, nodeId: string): Timeline => {
+  if (!timeline.nodes[nodeId]) return timeline;
+  return { ...timeline, headId: nodeId };
+};
+
+export const setNodeFrame = (timeline: Timeline, nodeId: string, frameRef: string): Timeline => {
+  const node = timeline.nodes[nodeId];
+  if (!node) return timeline;
+  return {
+    ...timeline,
+    nodes: { ...timeline.nodes, [nodeId]: { ...node, frameRef } }
+  };
+};
+
+// Records which video provider filmed a beat that was already on the timeline (e.g. the pilot)
+export const setNodeFootage = (timeline: Timeline, nodeId: string, footage: BeatFootage): Timeline => {
+  const node = timeline.nodes[nodeId];
+  if (!node) return timeline;
+  return {
+    ...timeline,
+    nodes: { ...timeline.nodes, [nodeId]: { ...node, beat: { ...node.beat, footage } } }
+  };
+};
+
+export const getChildren = (timeline: Timeline, nodeId: string): TimelineNode[] => {
+  return Object.values(timeline.nodes)
+    .filter(n => n.parentId === nodeId)
+    .sort((a, b) => a.createdAt - b.createdAt);
+};
+
+/**
+ * Walks from the root down to nodeId (inclusive).
+ */
+export const getPath = (timeline: Timeline, nodeId: string | null = timeline.headId): TimelineNode[] => {
+  const path: TimelineNode[] = [];
+  const seen = new Set<string>();
+  let cursor = nodeId ? timeline.nodes[nodeId] : undefined;
+
+  while (cursor && !seen.has(cursor.id)) {
+    seen.add(cursor.id);
+    path.unshift(cursor);
+    cursor = cursor.parentId ? timeline.nodes[cursor.parentId] : undefined;
+  }
+
+  return path;
+};
+
+/**
+ * The flat context the story model sees: shared preamble + narratives on the active branch.
+ */
+export const getBranchHistory = (timeline: Timeline, nodeId: string | null = timeline.headId): string[] => {
+  return [...timeline.preamble, ...getPath(timeline, nodeId).map(n => n.beat.narrative)];
+};
+
+/**
+ * Converts a legacy flat `history` array into a single linear branch.
+ * Context entries move to the preamble; every other entry becomes a node.
+ * The current beat is attached to the last node (or appended if it isn't in history).
+ */
+export const timelineFromHistory = (history: string[], currentBeat: StoryBeat | null): Timeline => {
+  const preamble = history.filter(h => h.startsWith(CONTEXT_PREFIX));
+  const narratives = history.filter(h => !h.startsWith(CONTEXT_PREFIX));
+
+  let timeline = createTimeline(preamble);
+
+  narratives.forEach(narrative => {
+    timeline = appendBeat(timeline, timeline.headId, { narrative, visualPrompt: '', choices: [] }, null).timeline;
+  });
+
+  if (currentBeat) {
+    const head = timeline.headId ? timeline.nodes[timeline.headId] : undefined;
+    if (head && head.beat.narrative === currentBeat.narrative) {
+      timeline = {
+        ...timeline,
+        nodes: { ...timeline.nodes, [head.id]: { ...head, beat: currentBeat } }
+      };
+    } else {
+      timeline = appendBeat(timeline, timeline.headId, currentBeat, null).timeline;
+    }
+  }
+
+  return timeline;
+};
+
+/**
+ * Returns the tape's timeline, migrating old tapes that only carry `history`.
+ */
+export const loadTimeline = (engineState: TapeFileSchema['engineState']): Timeline => {
+  const timeline = engineState.timeline && engineState.timeline.nodes
+    ? engineState.timeline
+    : timelineFromHistory(engineState.history || [], engineState.currentBeat);
+  return engineState.worldState ? seedHeadWorld(timeline, engineState.worldState) : timeline;
+};
+
+// engineState.worldState is authoritative: it becomes the head's snapshot, so edits to it take effect on load
+const seedHeadWorld = (timeline: Timeline, worldState: WorldState): Timeline => {
+  const head = timeline.headId ? timeline.nodes[timeline.headId] : null;
+  if (!head) return timeline;
+  return { ...timeline, nodes: { ...timeline.nodes, [head.id]: { ...head, worldState } } };
+};
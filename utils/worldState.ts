@@ -0,0 +1,82 @@
+import { StateDelta, Timeline, WorldSchema, WorldState } from '../types';
+import { getPath } from './timelineUtils';
+
+export const hasWorldSchema = (schema: WorldSchema | undefined | null): schema is WorldSchema => {
+  return !!schema && (schema.stats.length > 0 || schema.flags.length > 0 || schema.inventory.length > 0);
+};
+
+export const createWorldState = (schema: WorldSchema): WorldState => ({
+  stats: Object.fromEntries(schema.stats.map(s => [s.key, s.initial])),
+  inventory: [...schema.inventory],
+  flags: Object.fromEntries(schema.flags.map(f => [f.key, f.initial]))
+});
+
+const clamp = (value: number, min?: number, max?: number) => {
+  let v = value;
+  if (typeof min === 'number') v = Math.max(min, v);
+  if (typeof max === 'number') v = Math.min(max, v);
+  return v;
+};
+
+/**
+ * Applies a model-proposed delta. Stats and flags the schema doesn't declare are ignored,
+ * stats are clamped to their bounds, and malformed entries are skipped rather than trusted.
+ */
+export const applyStateDelta = (state: WorldState, delta: StateDelta | undefined, schema: WorldSchema): WorldState => {
+  if (!delta || typeof delta !== 'object') return state;
+
+  const stats = { ...state.stats };
+  (Array.isArray(delta.stats) ? delta.stats : []).forEach(entry => {
+    const def = schema.stats.find(s => s.key === entry?.key);
+    const change = Number(entry?.change);
+    if (!def || !Number.isFinite(change)) return;
+    stats[def.key] = clamp((stats[def.key] ?? def.initial) + change, def.min, def.max);
+  });
+
+  const flags = { ...state.flags };
+  (Array.isArray(delta.flags) ? delta.flags : []).forEach(entry => {
+    if (schema.flags.some(f => f.key === entry?.key) && typeof entry.value === 'boolean') {
+      flags[entry.key] = entry.value;
+    }
+  });
+
+  const isItem = (item: any): item is string => typeof item === 'string' && item.trim() !== '';
+  const removed = new Set((Array.isArray(delta.removeItems) ? delta.removeItems : []).filter(isItem).map(i => i.trim().toLowerCase()));
+  const inventory = state.inventory.filter(item => !removed.has(item.toLowerCase()));
+  (Array.isArray(delta.addItems) ? delta.addItems : []).filter(isItem).forEach(item => {
+    if (!inventory.some(i => i.toLowerCase() === item.trim().toLowerCase())) inventory.push(item.trim());
+  });
+
+  return { stats, inventory, flags };
+};
+
+/**
+ * World state after `nodeId`. Uses the nearest snapshot on the path and replays deltas from there,
+ * so tapes written before snapshots existed still come out right.
+ */
+export const getWorldStateAt = (timeline: Timeline, nodeId: string | null, schema: WorldSchema): WorldState => {
+  const path = nodeId ? getPath(timeline, nodeId) : [];
+  let startIndex = 0;
+  let state = createWorldState(schema);
+
+  for (let i = path.length - 1; i >= 0; i--) {
+    if (path[i].worldState) {
+      state = path[i].worldState!;
+      startIndex = i + 1;
+      break;
+    }
+  }
+
+  for (let i = startIndex; i < path.length; i++) {
+    state = applyStateDelta(state, path[i].beat.stateDelta, schema);
+  }
+  return state;
+};
+
+// Prompt block describing the current world
+export const formatWorldState = (state: WorldState): string => {
+  const stats = Object.entries(state.stats).map(([k, v]) => `${k}=${v}`).join(', ') || 'none';
+  const flags = Object.entries(state.flags).map(([k, v]) => `${k}=${v}`).join(', ') || 'none';
+  const items = state.inventory.join(', ') || 'empty';
+  return `Stats: ${stats}\nInventory: ${items}\nFlags: ${flags}`;
+};
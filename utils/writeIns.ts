@@ -0,0 +1,52 @@
+import { WriteInPolicy } from '../types';
+
+export const WRITE_IN_MAX_LENGTH = 140;
+
+export const DEFAULT_WRITE_IN_POLICY: WriteInPolicy = { enabled: true };
+
+export const getWriteInPolicy = (policy: WriteInPolicy | undefined): WriteInPolicy => policy || DEFAULT_WRITE_IN_POLICY;
+
+export interface WriteInCheck {
+  ok: boolean;
+  action: string; // Cleaned-up action (empty when refused)
+  reason: string; // Why it was refused, addressed to the viewer
+}
+
+/**
+ * Local checks for a typed action against the tape's policy. Returns the cleaned-up action or why it was refused.
+ */
+export const checkWriteIn = (text: string, policy: WriteInPolicy | undefined): WriteInCheck => {
+  const rules = getWriteInPolicy(policy);
+  const action = text.replace(/\s+/g, ' ').trim();
+
+  if (!rules.enabled) return { ok: false, action: '', reason: 'This tape only accepts menu choices.' };
+  if (!action) return { ok: false, action: '', reason: 'Type an action first.' };
+
+  const maxLength = rules.maxLength || WRITE_IN_MAX_LENGTH;
+  if (action.length > maxLength) return { ok: false, action: '', reason: `Keep it under ${maxLength} characters.` };
+
+  const verbs = (rules.allowedVerbs || []).map(v => v.trim().toLowerCase()).filter(Boolean);
+  if (verbs.length > 0) {
+    const lower = action.toLowerCase();
+    if (!verbs.some(v => lower === v || lower.startsWith(`${v} `))) {
+      return { ok: false, action: '', reason: `Start with one of: ${verbs.map(v => v.toUpperCase()).join(', ')}.` };
+    }
+  }
+
+  return { ok: true, action, reason: '' };
+};
+
+const REFUSED_BY_MODERATOR = 'That action is not allowed on this tape.';
+
+/**
+ * Reads the moderator's reply. Only a reply that opens with ALLOW lets the action through (markdown and
+ * punctuation around the verdict are ignored); REJECT, refusals, chatter and empty replies all refuse it.
+ */
+export const parseModerationVerdict = (reply: string): { allowed: boolean; reason: string } => {
+  const text = (reply || '').trim().replace(/^[\s*_`#>"'.:-]+/, '');
+  if (/^ALLOW\b/i.test(text)) return { allowed: true, reason: '' };
+
+  const rejected = text.match(/^REJECT(?:ED)?\b[*_`"'\s:.-]*(.*)/i);
+  const reason = rejected ? rejected[1].replace(/[*_`]+/g, '').trim() : '';
+  return { allowed: false, reason: reason || REFUSED_BY_MODERATOR };
+};
@@ -1,19 +1,27 @@
 import { defineConfig } from 'vite';
 import react from '@vitejs/plugin-react';
 
+// Proxy builds are meant for public hosting; the server holds the keys, so none go into the bundle
+const proxyBuild = process.env.PROXY_MODE === 'true';
+
 // https://vitejs.dev/config/
 export default defineConfig({
   plugins: [react()],
   base: './', // Ensures assets load correctly in sub-path preview environments
   server: {
     port: 5173,
-    host: true
+    host: true,
+    // Audience voting lives on the Express server (`npm start`); forward it in dev
+    proxy: {
+      '/api': 'http://localhost:8080'
+    }
   },
   define: {
     // Safely polyfill process.env for the browser
     // We use JSON.stringify to ensure the object is injected as code
     'process.env': JSON.stringify({
-      API_KEY: process.env.API_KEY || '',
+      API_KEY: proxyBuild ? '' : (process.env.API_KEY || ''),
+      PROXY_MODE: process.env.PROXY_MODE || '',
       NODE_ENV: process.env.NODE_ENV || 'development'
     })
   }